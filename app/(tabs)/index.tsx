@@ -21,6 +21,7 @@ import Animated, {
   Easing,
 } from "react-native-reanimated";
 import ConfirmDialog from "@/components/ConfirmDialog";
+import DoseTimeInput, { parseDoseTimeDraft, toDoseTimeDraft, type DoseTimeDraft } from "@/components/DoseTimeInput";
 import { SkeletonList } from "@/components/SkeletonCard";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -34,15 +35,48 @@ import { useTheme } from "@/lib/theme-context";
 import { cardShadow, smallShadow } from "@/lib/shadows";
 import { apiRequest, queryClient } from "@/lib/query-client";
 import { cancelMedicationNotifications, scheduleNextDoseNotification } from "@/lib/push-notifications";
+import { formatDosageLabel, formatPauseLabel, formatScheduleLabel, getMedicationStockStatus } from "@/lib/medication-schedule";
+import { formatQuantity } from "@shared/dose-units";
+import { formatInstructions } from "@shared/medication-info";
+import {
+  DOSE_OVERDUE_AFTER_MS,
+  DOSE_UNDO_WINDOW_MS,
+  getDosageAt,
+  getNextDoseTime,
+  isDoseAvailable,
+  type DosePhase,
+} from "@shared/dose-schedule";
 
 interface Medication {
   id: string;
   name: string;
   dosage: string;
+  doseQuantity: number;
+  doseUnit: string;
   currentStock: number;
   alertThreshold: number;
   intervalInHours: number;
+  scheduleType: string;
+  scheduleTimes: string[];
+  timeZone: string;
+  recurrenceType: string;
+  recurrenceWeekdays: number[];
+  recurrenceEveryNDays: number;
+  startDate: string | null;
+  endDate: string | null;
+  totalDoses: number | null;
+  dosePhases: DosePhase[];
+  completedAt: string | null;
+  pausedAt: string | null;
+  resumeOn: string | null;
+  resumedAt: string | null;
+  maxDosesPer24h: number | null;
+  minHoursBetweenDoses: number | null;
+  earlyWindowMinutes: number;
+  instructions: string[];
+  instructionsNote: string | null;
   ownerId: string;
+  createdAt: string | null;
   lastDoseAt?: number | null;
 }
 
@@ -57,29 +91,37 @@ interface Schedule {
 interface DependentSummary {
   id: string;
   name: string;
-  email: string;
+  email: string | null;
   role: string;
+  managed: boolean;
   takenToday: number;
   missedToday: number;
+  skippedToday: number;
   totalMeds: number;
 }
 
 function MedicationCard({ med, onConfirmDose, colors, isOverdue, justTaken }: { med: Medication; onConfirmDose: (med: Medication) => void; colors: typeof Colors.light; isOverdue?: boolean; justTaken?: boolean }) {
-  const isLowStock = med.currentStock <= med.alertThreshold;
-  const isOutOfStock = med.currentStock === 0;
+  const stockStatus = getMedicationStockStatus(med, Date.now());
+  const isLowStock = stockStatus !== "OK";
+  const isOutOfStock = stockStatus === "EMPTY";
 
   const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
-    if (!med.lastDoseAt) return;
+    if (!med.lastDoseAt && med.scheduleType !== "FIXED_TIMES") return;
     const interval = setInterval(() => {
       setNow(Date.now());
     }, 60000);
     return () => clearInterval(interval);
-  }, [med.lastDoseAt]);
+  }, [med.lastDoseAt, med.scheduleType]);
 
-  const nextDoseTime = med.lastDoseAt ? med.lastDoseAt + med.intervalInHours * 3600000 : null;
-  const canTakeDose = nextDoseTime ? now >= nextDoseTime - 300000 : true;
+  const nextDoseTime = getNextDoseTime(med, med.lastDoseAt ?? null, now);
+  const isCompleted = !!med.completedAt;
+  const pauseLabel = formatPauseLabel(med);
+  const canTakeDose = isCompleted || pauseLabel ? false : isDoseAvailable(med, nextDoseTime, now);
+  // Scheduled doses can still be taken ahead of the window, after an explicit confirmation.
+  const canTakeEarly = !canTakeDose && !isCompleted && !pauseLabel && med.scheduleType !== "AS_NEEDED";
+  const instructions = formatInstructions(med);
 
   const pulseOpacity = useSharedValue(1);
   useEffect(() => {
@@ -135,10 +177,10 @@ function MedicationCard({ med, onConfirmDose, colors, isOverdue, justTaken }: {
         </View>
         <View style={styles.medInfo}>
           <Text style={[styles.medName, { color: colors.text }]}>{med.name}</Text>
-          <Text style={[styles.medDosage, { color: colors.textSecondary }]}>{med.dosage}</Text>
+          <Text style={[styles.medDosage, { color: colors.textSecondary }]}>{formatDosageLabel(med, now)}</Text>
           <View style={styles.medMeta}>
             <Ionicons name="time-outline" size={12} color={colors.textSecondary} />
-            <Text style={[styles.medMetaText, { color: colors.textSecondary }]}>A cada {med.intervalInHours}h</Text>
+            <Text style={[styles.medMetaText, { color: colors.textSecondary }]}>{formatScheduleLabel(med)}</Text>
             <View style={[styles.metaDot, { backgroundColor: colors.textSecondary }]} />
             <Ionicons
               name="cube-outline"
@@ -146,15 +188,31 @@ function MedicationCard({ med, onConfirmDose, colors, isOverdue, justTaken }: {
               color={isLowStock ? colors.warning : colors.textSecondary}
             />
             <Text style={[styles.medMetaText, { color: colors.textSecondary }, isLowStock && { color: colors.warning, fontFamily: "Inter_600SemiBold" }]}>
-              {med.currentStock} un.
+              {formatQuantity(med.currentStock, med.doseUnit, true)}
             </Text>
           </View>
+          {instructions && (
+            <View style={styles.medInstructions}>
+              <Ionicons name="information-circle-outline" size={12} color={colors.tint} />
+              <Text style={[styles.medMetaText, styles.medInstructionsText, { color: colors.tint }]}>{instructions}</Text>
+            </View>
+          )}
           {isOverdue && (
             <Text style={[styles.medMetaText, { color: colors.danger, marginTop: 4, fontSize: 11, fontFamily: "Inter_600SemiBold" }]}>
               ⚠ Dose atrasada
             </Text>
           )}
-          {!canTakeDose && !isOverdue && nextDoseTime && (
+          {isCompleted && (
+            <Text style={[styles.medMetaText, { color: colors.success, marginTop: 4, fontSize: 11, fontFamily: "Inter_600SemiBold" }]}>
+              Tratamento concluído
+            </Text>
+          )}
+          {pauseLabel && !isCompleted && (
+            <Text style={[styles.medMetaText, { color: colors.textSecondary, marginTop: 4, fontSize: 11, fontFamily: "Inter_600SemiBold" }]}>
+              {pauseLabel}
+            </Text>
+          )}
+          {!canTakeDose && !isOverdue && !isCompleted && !pauseLabel && nextDoseTime && (
             <Text style={[styles.medMetaText, { color: colors.warning, marginTop: 4, fontSize: 11 }]}>
               Próxima dose: {new Date(nextDoseTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
             </Text>
@@ -169,10 +227,10 @@ function MedicationCard({ med, onConfirmDose, colors, isOverdue, justTaken }: {
           pressed && canTakeDose && styles.confirmBtnPressed,
           !canTakeDose && { opacity: 0.6 }
         ]}
-        onPress={() => canTakeDose && onConfirmDose(med)}
-        disabled={!canTakeDose}
+        onPress={() => (canTakeDose || canTakeEarly) && onConfirmDose(med)}
+        disabled={!canTakeDose && !canTakeEarly}
       >
-        <Ionicons name={canTakeDose ? "checkmark" : "time"} size={22} color="#fff" />
+        <Ionicons name={canTakeDose ? "checkmark" : isCompleted ? "flag" : pauseLabel ? "pause" : "time"} size={22} color="#fff" />
       </Pressable>
     </Pressable>
   );
@@ -195,7 +253,7 @@ function DependentCard({ dep, index, colors, isDark }: { dep: DependentSummary;
         </View>
         <View style={styles.depInfo}>
           <Text style={[styles.depName, { color: colors.text }]}>{dep.name}</Text>
-          <Text style={[styles.depEmail, { color: colors.textSecondary }]}>{dep.email}</Text>
+          <Text style={[styles.depEmail, { color: colors.textSecondary }]}>{dep.managed ? "Perfil gerenciado" : dep.email}</Text>
           <View style={styles.depStats}>
             <View style={styles.depStatItem}>
               <Ionicons name="medkit-outline" size={12} color={colors.textSecondary} />
@@ -206,6 +264,15 @@ function DependentCard({ dep, index, colors, isDark }: { dep: DependentSummary;
               <Ionicons name="checkmark-circle-outline" size={12} color={colors.success} />
               <Text style={[styles.depStatText, { color: colors.success }]}>{dep.takenToday} hoje</Text>
             </View>
+            {dep.skippedToday > 0 && (
+              <>
+                <View style={[styles.metaDot, { backgroundColor: colors.textSecondary }]} />
+                <View style={styles.depStatItem}>
+                  <Ionicons name="play-skip-forward-outline" size={12} color={colors.warning} />
+                  <Text style={[styles.depStatText, { color: colors.warning }]}>{dep.skippedToday} pulada{dep.skippedToday > 1 ? "s" : ""}</Text>
+                </View>
+              </>
+            )}
           </View>
           <View style={[
             styles.depStatusBadge,
@@ -238,9 +305,12 @@ export default function DashboardScreen() {
   const isMaster = user?.role === "MASTER";
   const [activeTab, setActiveTab] = useState<"meds" | "deps">("meds");
   const [confirmMed, setConfirmMed] = useState<Medication | null>(null);
+  const [takenEarlier, setTakenEarlier] = useState<DoseTimeDraft | null>(null);
   const [showDepsLimitDialog, setShowDepsLimitDialog] = useState(false);
   const [showQuickDoseModal, setShowQuickDoseModal] = useState(false);
   const [lastTakenMedId, setLastTakenMedId] = useState<string | null>(null);
+  const [undoableDose, setUndoableDose] = useState<{ scheduleId: string; med: Medication } | null>(null);
+  const [doseError, setDoseError] = useState<string | null>(null);
 
   const medsQuery = useQuery<Medication[]>({
     queryKey: ["/api/medications"],
@@ -257,18 +327,22 @@ export default function DashboardScreen() {
   });
 
   const confirmMutation = useMutation({
-    mutationFn: async (med: Medication) => {
-      await apiRequest("POST", `/api/medications/${med.id}/take-dose`);
-      return med;
+    mutationFn: async ({ med, takenAt, takeEarly }: { med: Medication; takenAt?: number; takeEarly?: boolean }) => {
+      const body = takenAt || takeEarly ? { takenAt, takeEarly } : undefined;
+      const res = await apiRequest("POST", `/api/medications/${med.id}/take-dose`, body);
+      const { schedule, nextDoseAt } = (await res.json()) as { schedule: { id: string }; nextDoseAt: number | null };
+      return { med, scheduleId: schedule.id, nextDoseAt };
     },
-    onSuccess: async (med: Medication) => {
+    onSuccess: async ({ med, scheduleId, nextDoseAt }) => {
       setConfirmMed(null);
       setLastTakenMedId(med.id);
+      setUndoableDose({ scheduleId, med });
       setTimeout(() => setLastTakenMedId(null), 1800);
 
       await cancelMedicationNotifications(med.id);
-      const nextDoseTime = Date.now() + med.intervalInHours * 60 * 60 * 1000;
-      await scheduleNextDoseNotification(med.id, med.name, nextDoseTime);
+      if (nextDoseAt) {
+        await scheduleNextDoseNotification(med.id, med.name, nextDoseAt, formatInstructions(med));
+      }
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
@@ -278,20 +352,73 @@ export default function DashboardScreen() {
         queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
       }
     },
-    onError: () => {
+    onError: (err: any) => {
       setConfirmMed(null);
+      setDoseError(err?.message || "Falha ao registrar dose");
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async ({ scheduleId, med }: { scheduleId: string; med: Medication }) => {
+      const res = await apiRequest("POST", `/api/schedules/${scheduleId}/undo`);
+      const { nextDoseAt } = (await res.json()) as { nextDoseAt: number | null };
+      return { med, nextDoseAt };
+    },
+    onSuccess: async ({ med, nextDoseAt }) => {
+      setUndoableDose(null);
+      await cancelMedicationNotifications(med.id);
+      if (nextDoseAt) {
+        await scheduleNextDoseNotification(med.id, med.name, nextDoseAt, formatInstructions(med));
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+      if (isMaster) {
+        queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+      }
+    },
+    onError: (err: any) => {
+      setUndoableDose(null);
+      setDoseError(err?.message || "Falha ao desfazer dose");
     },
   });
 
+  useEffect(() => {
+    if (!undoableDose) return;
+    const timer = setTimeout(() => setUndoableDose(null), DOSE_UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [undoableDose]);
+
   const handleDosePress = useCallback((med: Medication) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setTakenEarlier(null);
     setConfirmMed(med);
   }, []);
 
+  const confirmNextDoseTime = confirmMed ? getNextDoseTime(confirmMed, confirmMed.lastDoseAt ?? null, Date.now()) : null;
+  const isEarlyConfirm = !!confirmMed && !isDoseAvailable(confirmMed, confirmNextDoseTime, Date.now());
+
+  const handleConfirmDose = () => {
+    if (!confirmMed) return;
+    if (isEarlyConfirm) {
+      confirmMutation.mutate({ med: confirmMed, takeEarly: true });
+      return;
+    }
+    if (!takenEarlier) {
+      confirmMutation.mutate({ med: confirmMed });
+      return;
+    }
+    const takenAt = parseDoseTimeDraft(takenEarlier);
+    if (takenAt !== null) confirmMutation.mutate({ med: confirmMed, takenAt });
+  };
+
   const medications = medsQuery.data || [];
   const dependents = dependentsQuery.data || [];
-  const lowStockMeds = medications.filter((m) => m.currentStock <= m.alertThreshold && m.currentStock > 0);
-  const outOfStockMeds = medications.filter((m) => m.currentStock === 0);
+  const lowStockMeds = medications.filter((m) => getMedicationStockStatus(m, Date.now()) === "LOW");
+  const outOfStockMeds = medications.filter((m) => getMedicationStockStatus(m, Date.now()) === "EMPTY");
 
   const greeting = () => {
     const hour = new Date().getHours();
@@ -310,20 +437,24 @@ export default function DashboardScreen() {
 
   const availableMeds = medications.filter((med) => {
     const nowTs = Date.now();
-    if (!med.lastDoseAt) return true;
-    const nextDoseTime = med.lastDoseAt + med.intervalInHours * 3600000;
-    return nowTs >= nextDoseTime - 300000;
+    if (med.completedAt || med.pausedAt) return false;
+    return isDoseAvailable(med, getNextDoseTime(med, med.lastDoseAt ?? null, nowTs), nowTs);
   });
 
-  const getMedUrgency = (med: Medication): { priority: number; isOverdue: boolean } => {
+  const getMedUrgency = (med: Medication): { priority: number; isOverdue: boolean; nextDoseTime: number | null } => {
     const nowTs = Date.now();
-    if (!med.lastDoseAt) return { priority: 1, isOverdue: false }; // never taken → available
-    const nextDoseTime = med.lastDoseAt + med.intervalInHours * 3600000;
-    const isOverdue = nowTs > nextDoseTime + 300000; // 5+ min past due
-    const isAvailable = nowTs >= nextDoseTime - 300000 && !isOverdue;
-    if (isOverdue) return { priority: 0, isOverdue: true };
-    if (isAvailable) return { priority: 1, isOverdue: false };
-    return { priority: 2, isOverdue: false };
+    const nextDoseTime = getNextDoseTime(med, med.lastDoseAt ?? null, nowTs);
+    if (med.completedAt || med.pausedAt) return { priority: 3, isOverdue: false, nextDoseTime };
+    if (nextDoseTime === null) return { priority: 1, isOverdue: false, nextDoseTime }; // never taken → available
+    if (med.scheduleType === "AS_NEEDED") {
+      // As-needed doses are never late; they only wait for the minimum gap to pass.
+      return { priority: nowTs >= nextDoseTime ? 1 : 2, isOverdue: false, nextDoseTime };
+    }
+    const isOverdue = nowTs > nextDoseTime + DOSE_OVERDUE_AFTER_MS;
+    const isAvailable = isDoseAvailable(med, nextDoseTime, nowTs) && !isOverdue;
+    if (isOverdue) return { priority: 0, isOverdue: true, nextDoseTime };
+    if (isAvailable) return { priority: 1, isOverdue: false, nextDoseTime };
+    return { priority: 2, isOverdue: false, nextDoseTime };
   };
 
   const sortedMedications = [...medications].sort((a, b) => {
@@ -331,16 +462,9 @@ export default function DashboardScreen() {
     const ub = getMedUrgency(b);
     if (ua.priority !== ub.priority) return ua.priority - ub.priority;
     // within same priority, sort overdue by how long overdue (most first)
-    if (ua.isOverdue && ub.isOverdue) {
-      const nextA = a.lastDoseAt! + a.intervalInHours * 3600000;
-      const nextB = b.lastDoseAt! + b.intervalInHours * 3600000;
-      return nextA - nextB;
-    }
-    // upcoming: sort by next dose time ascending
-    if (ua.priority === 2 && ub.priority === 2) {
-      const nextA = a.lastDoseAt! + a.intervalInHours * 3600000;
-      const nextB = b.lastDoseAt! + b.intervalInHours * 3600000;
-      return nextA - nextB;
+    // and upcoming by next dose time ascending
+    if ((ua.isOverdue && ub.isOverdue) || (ua.priority === 2 && ub.priority === 2)) {
+      return ua.nextDoseTime! - ub.nextDoseTime!;
     }
     return 0;
   });
@@ -475,7 +599,7 @@ export default function DashboardScreen() {
           <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Remédios</Text>
         </View>
         <View style={[styles.statCard, { backgroundColor: colors.surface }, cardShadow(colors.cardShadow)]}>
-          <Text style={[styles.statValue, { color: colors.success }]}>{medications.filter(m => m.currentStock > m.alertThreshold).length}</Text>
+          <Text style={[styles.statValue, { color: colors.success }]}>{medications.filter(m => getMedicationStockStatus(m, Date.now()) === "OK").length}</Text>
           <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Estoque OK</Text>
         </View>
         <View style={[styles.statCard, { backgroundColor: colors.surface }, cardShadow(colors.cardShadow)]}>
@@ -536,17 +660,57 @@ export default function DashboardScreen() {
       {(!isMaster || activeTab === "meds") ? renderMedsContent() : renderDepsContent()}
 
       <ConfirmDialog
-        visible={!!confirmMed}
+        visible={!!confirmMed && isEarlyConfirm}
+        title="Antes do horário"
+        message={
+          confirmMed && confirmNextDoseTime !== null
+            ? `A próxima dose de ${confirmMed.name} é às ${new Date(confirmNextDoseTime).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}. Se tomar agora, ela fica registrada como antecipada e seus cuidadores são avisados.`
+            : ""
+        }
+        icon="alarm-outline"
+        iconColor={colors.warning}
+        confirmLabel="Tomar mesmo assim"
+        cancelLabel="Cancelar"
+        confirmColor={colors.warning}
+        loading={confirmMutation.isPending}
+        onConfirm={handleConfirmDose}
+        onCancel={() => { if (!confirmMutation.isPending) setConfirmMed(null); }}
+      />
+
+      <ConfirmDialog
+        visible={!!confirmMed && !isEarlyConfirm}
         title="Confirmar Dose"
-        message={confirmMed ? `Registrar dose de ${confirmMed.name} (${confirmMed.dosage})?\n\nEstoque atual: ${confirmMed.currentStock} un.` : ""}
+        message={confirmMed ? `Registrar dose de ${confirmMed.name} (${getDosageAt(confirmMed, Date.now()).dosage})?\n\nEstoque atual: ${formatQuantity(confirmMed.currentStock, confirmMed.doseUnit)}` : ""}
         icon="medical"
         iconColor={colors.success}
         confirmLabel="Tomei"
         cancelLabel="Cancelar"
         confirmColor={colors.success}
         loading={confirmMutation.isPending}
-        onConfirm={() => { if (confirmMed) confirmMutation.mutate(confirmMed); }}
+        onConfirm={handleConfirmDose}
         onCancel={() => { if (!confirmMutation.isPending) setConfirmMed(null); }}
+      >
+        {takenEarlier ? (
+          <DoseTimeInput value={takenEarlier} onChange={setTakenEarlier} />
+        ) : (
+          <Pressable style={styles.takenEarlierLink} onPress={() => setTakenEarlier(toDoseTimeDraft(Date.now()))} hitSlop={6}>
+            <Ionicons name="time-outline" size={14} color={colors.tint} />
+            <Text style={[styles.takenEarlierText, { color: colors.tint }]}>Tomei em outro horário</Text>
+          </Pressable>
+        )}
+      </ConfirmDialog>
+
+      <ConfirmDialog
+        visible={!!doseError}
+        title="Dose não registrada"
+        message={doseError ?? ""}
+        icon="hand-left"
+        iconColor={colors.warning}
+        confirmLabel="OK"
+        confirmColor={colors.warning}
+        singleAction
+        onConfirm={() => setDoseError(null)}
+        onCancel={() => setDoseError(null)}
       />
 
       <ConfirmDialog
@@ -565,6 +729,29 @@ export default function DashboardScreen() {
         onCancel={() => setShowDepsLimitDialog(false)}
       />
 
+      {undoableDose && (
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={[styles.undoBar, { backgroundColor: colors.text }, cardShadow(colors.cardShadow)]}
+        >
+          <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+          <Text style={[styles.undoText, { color: colors.background }]} numberOfLines={1}>
+            Dose de {undoableDose.med.name} registrada
+          </Text>
+          <Pressable onPress={() => undoMutation.mutate(undoableDose)} disabled={undoMutation.isPending} hitSlop={8}>
+            {undoMutation.isPending ? (
+              <ActivityIndicator size="small" color={colors.tint} />
+            ) : (
+              <Text style={[styles.undoAction, { color: colors.tint }]}>Desfazer</Text>
+            )}
+          </Pressable>
+          <Pressable onPress={() => setUndoableDose(null)} hitSlop={8}>
+            <Ionicons name="close" size={18} color={colors.background} />
+          </Pressable>
+        </Animated.View>
+      )}
+
       {availableMeds.length > 0 && activeTab === "meds" && (
         <Animated.View entering={FadeIn.duration(200)} exiting={FadeOut.duration(150)} style={styles.fab}>
           <Pressable
@@ -610,7 +797,7 @@ export default function DashboardScreen() {
                   </View>
                   <View style={{ flex: 1 }}>
                     <Text style={[styles.quickDoseName, { color: colors.text }]}>{med.name}</Text>
-                    <Text style={[styles.quickDoseDosage, { color: colors.textSecondary }]}>{med.dosage}</Text>
+                    <Text style={[styles.quickDoseDosage, { color: colors.textSecondary }]}>{getDosageAt(med, Date.now()).dosage}</Text>
                   </View>
                   <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
                 </Pressable>
@@ -819,6 +1006,16 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontFamily: "Inter_400Regular",
   },
+  medInstructions: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginTop: 4,
+    gap: 4,
+  },
+  medInstructionsText: {
+    flex: 1,
+    fontFamily: "Inter_600SemiBold",
+  },
   metaDot: {
     width: 3,
     height: 3,
@@ -938,6 +1135,27 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_600SemiBold",
     color: "#fff",
   },
+  undoBar: {
+    position: "absolute",
+    bottom: 100,
+    left: 20,
+    right: 88,
+    height: 56,
+    borderRadius: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 14,
+  },
+  undoText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+  },
+  undoAction: {
+    fontSize: 14,
+    fontFamily: "Inter_700Bold",
+  },
   fab: {
     position: "absolute",
     bottom: 100,
@@ -980,6 +1198,17 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_700Bold",
     marginBottom: 4,
   },
+  takenEarlierLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginBottom: 16,
+  },
+  takenEarlierText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
   quickDoseSubtitle: {
     fontSize: 13,
     fontFamily: "Inter_400Regular",
@@ -8,6 +8,7 @@ import {
   ActivityIndicator,
   RefreshControl,
   Platform,
+  TextInput,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -19,18 +20,63 @@ import { apiRequest, queryClient } from "@/lib/query-client";
 import { useTheme } from "@/lib/theme-context";
 import { cardShadow, smallShadow } from "@/lib/shadows";
 import ConfirmDialog from "@/components/ConfirmDialog";
+import DoseTimeInput, { parseDoseTimeDraft, toDoseTimeDraft, type DoseTimeDraft } from "@/components/DoseTimeInput";
 import { SkeletonList } from "@/components/SkeletonCard";
-import { cancelMedicationNotifications } from "@/lib/push-notifications";
+import { scheduleNextDoseNotification, cancelMedicationNotifications } from "@/lib/push-notifications";
+import {
+  formatDosageLabel,
+  formatPauseLabel,
+  formatRunOutLabel,
+  formatScheduleLabel,
+  formatTreatmentLabel,
+  getMedicationStockStatus,
+  maskDateInput,
+  parseDateInput,
+} from "@/lib/medication-schedule";
+import { formatQuantity } from "@shared/dose-units";
+import { formatInstructions, formatMedicationDetails } from "@shared/medication-info";
+import { getNextDoseTime, getNextReminderTime, type DoseEdit, type DosePhase } from "@shared/dose-schedule";
 
 interface Medication {
   id: string;
   name: string;
   dosage: string;
+  doseQuantity: number;
+  doseUnit: string;
   currentStock: number;
   alertThreshold: number;
   intervalInHours: number;
+  scheduleType: string;
+  scheduleTimes: string[];
+  timeZone: string;
+  recurrenceType: string;
+  recurrenceWeekdays: number[];
+  recurrenceEveryNDays: number;
+  startDate: string | null;
+  endDate: string | null;
+  totalDoses: number | null;
+  dosePhases: DosePhase[];
+  completedAt: string | null;
+  archivedAt: string | null;
+  pausedAt: string | null;
+  resumeOn: string | null;
+  resumedAt: string | null;
+  maxDosesPer24h: number | null;
+  minHoursBetweenDoses: number | null;
+  form: string | null;
+  strengthValue: number | null;
+  strengthUnit: string | null;
+  administrationRoute: string | null;
+  instructions: string[];
+  instructionsNote: string | null;
+  prescriber: string | null;
+  condition: string | null;
   ownerId: string;
+  refillAlertDays: number | null;
+  createdAt: string | null;
   lastDoseAt?: number | null;
+  daysOfSupply?: number | null;
+  runsOutOn?: string | null;
 }
 
 interface HistoryEntry {
@@ -39,19 +85,30 @@ interface HistoryEntry {
   timeMillis: number;
   status: string;
   confirmedAt: string;
+  skipReason: string | null;
+  takenEarly: boolean;
+  edits: DoseEdit[];
   medicationName: string;
   medicationDosage: string;
 }
 
-function MedicationDetailCard({ med, onDeleteRequest, onEdit, colors }: { med: Medication; onDeleteRequest: (med: Medication) => void; onEdit: (id: string) => void; colors: typeof Colors.light }) {
-  const isLowStock = med.currentStock <= med.alertThreshold;
-  const isOutOfStock = med.currentStock === 0;
+function MedicationDetailCard({ med, onArchiveRequest, onPauseToggle, onEdit, colors }: { med: Medication; onArchiveRequest: (med: Medication) => void; onPauseToggle: (med: Medication) => void; onEdit: (id: string) => void; colors: typeof Colors.light }) {
+  const stockStatus = getMedicationStockStatus(med, Date.now());
+  const isLowStock = stockStatus !== "OK";
+  const isOutOfStock = stockStatus === "EMPTY";
   const stockPercentage = med.alertThreshold > 0
     ? Math.min((med.currentStock / (med.alertThreshold * 3)) * 100, 100)
     : 100;
-  const nextDoseTime = med.lastDoseAt ? med.lastDoseAt + med.intervalInHours * 3600000 : null;
+  const now = Date.now();
+  const isAsNeeded = med.scheduleType === "AS_NEEDED";
+  const pauseLabel = formatPauseLabel(med);
+  const nextDoseTime = med.completedAt || pauseLabel ? null : getNextDoseTime(med, med.lastDoseAt ?? null, now);
+  const treatmentLabel = med.completedAt ? "Tratamento concluído" : formatTreatmentLabel(med);
+  const runOutLabel = formatRunOutLabel(med);
+  const details = formatMedicationDetails(med);
+  const isRefillDue = med.refillAlertDays !== null && med.daysOfSupply != null && med.daysOfSupply <= med.refillAlertDays;
 
-  const barColor = isOutOfStock ? colors.danger : isLowStock ? colors.warning : colors.tint;
+  const barColor = pauseLabel ? colors.textSecondary : isOutOfStock ? colors.danger : isLowStock ? colors.warning : colors.tint;
 
   return (
     <Pressable
@@ -72,36 +129,64 @@ function MedicationDetailCard({ med, onDeleteRequest, onEdit, colors }: { med: M
         </View>
         <View style={styles.detailInfo}>
           <Text style={[styles.detailName, { color: colors.text }]}>{med.name}</Text>
-          <Text style={[styles.detailDosage, { color: colors.textSecondary }]}>{med.dosage}</Text>
-          {nextDoseTime && (
+          <Text style={[styles.detailDosage, { color: colors.textSecondary }]}>{formatDosageLabel(med, now)}</Text>
+          {details && (
+            <Text style={[styles.detailDosage, { color: colors.textSecondary, fontSize: 12 }]} numberOfLines={2}>{details}</Text>
+          )}
+          {nextDoseTime !== null && (!isAsNeeded || nextDoseTime > now) && (
             <Text style={[styles.detailDosage, { color: colors.warning, marginTop: 2, fontSize: 12 }]}>
-              Próxima: {new Date(nextDoseTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              {isAsNeeded ? "Liberada às" : "Próxima:"} {new Date(nextDoseTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
             </Text>
           )}
+          {pauseLabel && (
+            <Text style={[styles.detailDosage, { color: colors.textSecondary, marginTop: 2, fontSize: 12 }]}>{pauseLabel}</Text>
+          )}
         </View>
         <Pressable
+          style={styles.cardAction}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            onPauseToggle(med);
+          }}
+        >
+          <Ionicons name={pauseLabel ? "play-circle-outline" : "pause-circle-outline"} size={22} color={colors.textSecondary} />
+        </Pressable>
+        <Pressable
+          style={styles.cardAction}
           onPress={() => {
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            onDeleteRequest(med);
+            onArchiveRequest(med);
           }}
         >
-          <Ionicons name="trash-outline" size={20} color={colors.danger} />
+          <Ionicons name="archive-outline" size={20} color={colors.textSecondary} />
         </Pressable>
       </View>
 
       <View style={styles.detailStats}>
         <View style={styles.detailStat}>
           <Ionicons name="time-outline" size={16} color={colors.textSecondary} />
-          <Text style={[styles.detailStatText, { color: colors.textSecondary }]}>A cada {med.intervalInHours}h</Text>
+          <Text style={[styles.detailStatText, { color: colors.textSecondary }]}>{formatScheduleLabel(med)}</Text>
         </View>
+        {treatmentLabel && (
+          <View style={styles.detailStat}>
+            <Ionicons name="flag-outline" size={16} color={med.completedAt ? colors.success : colors.textSecondary} />
+            <Text style={[styles.detailStatText, { color: med.completedAt ? colors.success : colors.textSecondary }]}>{treatmentLabel}</Text>
+          </View>
+        )}
         <View style={styles.detailStat}>
           <Ionicons name="cube-outline" size={16} color={colors.textSecondary} />
-          <Text style={[styles.detailStatText, { color: colors.textSecondary }]}>{med.currentStock} unidades</Text>
+          <Text style={[styles.detailStatText, { color: colors.textSecondary }]}>{formatQuantity(med.currentStock, med.doseUnit)}</Text>
         </View>
         <View style={styles.detailStat}>
           <Ionicons name="notifications-outline" size={16} color={colors.textSecondary} />
-          <Text style={[styles.detailStatText, { color: colors.textSecondary }]}>Alerta: {med.alertThreshold} un.</Text>
+          <Text style={[styles.detailStatText, { color: colors.textSecondary }]}>Alerta: {formatQuantity(med.alertThreshold, med.doseUnit, true)}</Text>
         </View>
+        {runOutLabel && (
+          <View style={styles.detailStat}>
+            <Ionicons name="hourglass-outline" size={16} color={isRefillDue ? colors.warning : colors.textSecondary} />
+            <Text style={[styles.detailStatText, { color: isRefillDue ? colors.warning : colors.textSecondary }]}>{runOutLabel}</Text>
+          </View>
+        )}
       </View>
 
       <View style={styles.stockBarContainer}>
@@ -128,7 +213,7 @@ function MedicationDetailCard({ med, onDeleteRequest, onEdit, colors }: { med: M
   );
 }
 
-function HistoryItem({ entry, colors }: { entry: HistoryEntry; colors: typeof Colors.light }) {
+function HistoryItem({ entry, onEdit, colors }: { entry: HistoryEntry; onEdit: (entry: HistoryEntry) => void; colors: typeof Colors.light }) {
   const confirmedDate = entry.confirmedAt ? new Date(entry.confirmedAt) : new Date(entry.timeMillis);
   const formattedDate = confirmedDate.toLocaleDateString("pt-BR", {
     day: "2-digit",
@@ -140,19 +225,61 @@ function HistoryItem({ entry, colors }: { entry: HistoryEntry; colors: typeof Co
     minute: "2-digit",
   });
 
+  const isSkipped = entry.status === "SKIPPED";
+  const isEdited = entry.edits.some((edit) => edit.action !== "BACKDATED");
+
   return (
-    <View style={[styles.historyCard, { backgroundColor: colors.surface }, cardShadow(colors.cardShadow)]}>
-      <View style={[styles.historyIcon, { backgroundColor: colors.successLight }]}>
-        <Ionicons name="checkmark-circle" size={22} color={colors.success} />
+    <Pressable
+      style={({ pressed }) => [styles.historyCard, { backgroundColor: colors.surface }, cardShadow(colors.cardShadow), pressed && !isSkipped && { opacity: 0.8 }]}
+      disabled={isSkipped}
+      onPress={() => onEdit(entry)}
+    >
+      <View style={[styles.historyIcon, { backgroundColor: isSkipped ? colors.warningLight : colors.successLight }]}>
+        <Ionicons name={isSkipped ? "play-skip-forward" : "checkmark-circle"} size={22} color={isSkipped ? colors.warning : colors.success} />
       </View>
       <View style={styles.historyInfo}>
         <Text style={[styles.historyName, { color: colors.text }]}>{entry.medicationName}</Text>
         <Text style={[styles.historyDosage, { color: colors.textSecondary }]}>{entry.medicationDosage}</Text>
+        {isSkipped && (
+          <Text style={[styles.historyDosage, { color: colors.warning }]}>Pulada · {entry.skipReason}</Text>
+        )}
+        {entry.takenEarly && (
+          <Text style={[styles.historyDosage, { color: colors.warning }]}>Antes do horário</Text>
+        )}
       </View>
       <View style={styles.historyTime}>
         <Text style={[styles.historyDate, { color: colors.textSecondary }]}>{formattedDate}</Text>
         <Text style={[styles.historyHour, { color: colors.text }]}>{formattedTime}</Text>
+        {isEdited && <Text style={[styles.historyDate, { color: colors.textSecondary }]}>editado</Text>}
       </View>
+    </Pressable>
+  );
+}
+
+function ArchivedMedicationRow({ med, onRestore, restoring, colors }: { med: Medication; onRestore: (med: Medication) => void; restoring: boolean; colors: typeof Colors.light }) {
+  const archivedOn = med.archivedAt ? new Date(med.archivedAt).toLocaleDateString("pt-BR") : "";
+
+  return (
+    <View style={[styles.archivedRow, { backgroundColor: colors.surface }]}>
+      <Ionicons name="archive-outline" size={18} color={colors.textSecondary} />
+      <View style={styles.detailInfo}>
+        <Text style={[styles.archivedName, { color: colors.text }]}>{med.name}</Text>
+        <Text style={[styles.archivedMeta, { color: colors.textSecondary }]}>{med.dosage} · arquivado em {archivedOn}</Text>
+      </View>
+      <Pressable
+        style={({ pressed }) => [styles.restoreBtn, { backgroundColor: colors.tintLight }, pressed && { opacity: 0.7 }]}
+        disabled={restoring}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          onRestore(med);
+        }}
+      >
+        {restoring ? (
+          <ActivityIndicator size="small" color={colors.tint} />
+        ) : (
+          <Text style={[styles.restoreBtnText, { color: colors.tint }]}>Restaurar</Text>
+        )}
+      </Pressable>
     </View>
   );
 }
@@ -162,32 +289,171 @@ export default function MedicationsScreen() {
   const [activeTab, setActiveTab] = useState<"remedios" | "historico">("remedios");
   const { isDark } = useTheme();
   const colors = isDark ? Colors.dark : Colors.light;
-  const [confirmDelete, setConfirmDelete] = useState<Medication | null>(null);
+  const [confirmArchive, setConfirmArchive] = useState<Medication | null>(null);
+  const [pauseTarget, setPauseTarget] = useState<Medication | null>(null);
+  const [resumeOnText, setResumeOnText] = useState("");
+  const [actionError, setActionError] = useState<{ title: string; message: string } | null>(null);
+  const [doseEditTarget, setDoseEditTarget] = useState<HistoryEntry | null>(null);
+  const [doseTimeDraft, setDoseTimeDraft] = useState<DoseTimeDraft>({ daysAgo: 0, timeText: "" });
+  const [doseDeleteTarget, setDoseDeleteTarget] = useState<HistoryEntry | null>(null);
 
   const medsQuery = useQuery<Medication[]>({
     queryKey: ["/api/medications"],
   });
 
+  const archivedQuery = useQuery<Medication[]>({
+    queryKey: ["/api/medications", "archived"],
+  });
+
   const historyQuery = useQuery<HistoryEntry[]>({
     queryKey: ["/api/schedules/history"],
     enabled: activeTab === "historico",
     staleTime: 0,
   });
 
-  const deleteMutation = useMutation({
+  const archiveMutation = useMutation({
     mutationFn: async (id: string) => {
-      await apiRequest("DELETE", `/api/medications/${id}`);
+      await apiRequest("POST", `/api/medications/${id}/archive`);
       return id;
     },
-    onSuccess: async (deletedId) => {
-      setConfirmDelete(null);
-      await cancelMedicationNotifications(deletedId);
+    onSuccess: async (archivedId) => {
+      setConfirmArchive(null);
+      await cancelMedicationNotifications(archivedId);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
     },
   });
 
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/medications/${id}/restore`);
+      return res.json();
+    },
+    onSuccess: async (med) => {
+      const nextDoseTime = getNextReminderTime(med, Date.now());
+      if (nextDoseTime) {
+        await scheduleNextDoseNotification(med.id, med.name, nextDoseTime, formatInstructions(med));
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+    },
+    onError: (err: any) => {
+      setActionError({ title: "Não foi possível restaurar", message: err?.message || "Falha ao restaurar medicamento" });
+    },
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async ({ id, resumeOn }: { id: string; resumeOn: string | null }) => {
+      const res = await apiRequest("POST", `/api/medications/${id}/pause`, { resumeOn });
+      return res.json();
+    },
+    onSuccess: async (med) => {
+      setPauseTarget(null);
+      await cancelMedicationNotifications(med.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+    },
+    onError: (err: any) => {
+      setPauseTarget(null);
+      setActionError({ title: "Não foi possível pausar", message: err?.message || "Falha ao pausar medicamento" });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/medications/${id}/resume`);
+      return res.json();
+    },
+    onSuccess: async (med) => {
+      const nextDoseTime = getNextReminderTime(med, Date.now());
+      if (nextDoseTime) {
+        await scheduleNextDoseNotification(med.id, med.name, nextDoseTime, formatInstructions(med));
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+    },
+    onError: (err: any) => {
+      setActionError({ title: "Não foi possível retomar", message: err?.message || "Falha ao retomar medicamento" });
+    },
+  });
+
+  // Editing a dose moves the next due time, so the device reminder is rescheduled from the server's answer.
+  const refreshAfterDoseEdit = async (medId: string, result: { medName: string | null; instructions: string | null; nextDoseAt: number | null }) => {
+    await cancelMedicationNotifications(medId);
+    if (result.medName && result.nextDoseAt) {
+      await scheduleNextDoseNotification(medId, result.medName, result.nextDoseAt, result.instructions);
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedules/history"] });
+  };
+
+  const correctDoseMutation = useMutation({
+    mutationFn: async ({ entry, takenAt }: { entry: HistoryEntry; takenAt: number }) => {
+      const res = await apiRequest("PATCH", `/api/schedules/${entry.id}`, { takenAt });
+      const result: { medName: string | null; instructions: string | null; nextDoseAt: number | null } = await res.json();
+      return { entry, result };
+    },
+    onSuccess: async ({ entry, result }) => {
+      setDoseEditTarget(null);
+      await refreshAfterDoseEdit(entry.medId, result);
+    },
+    onError: (err: any) => {
+      setDoseEditTarget(null);
+      setActionError({ title: "Não foi possível corrigir", message: err?.message || "Falha ao corrigir o horário da dose" });
+    },
+  });
+
+  const deleteDoseMutation = useMutation({
+    mutationFn: async (entry: HistoryEntry) => {
+      const res = await apiRequest("DELETE", `/api/schedules/${entry.id}`);
+      const result: { medName: string | null; instructions: string | null; nextDoseAt: number | null } = await res.json();
+      return { entry, result };
+    },
+    onSuccess: async ({ entry, result }) => {
+      setDoseDeleteTarget(null);
+      await refreshAfterDoseEdit(entry.medId, result);
+    },
+    onError: (err: any) => {
+      setDoseDeleteTarget(null);
+      setActionError({ title: "Não foi possível excluir", message: err?.message || "Falha ao excluir o registro da dose" });
+    },
+  });
+
+  const handleEditDose = (entry: HistoryEntry) => {
+    Haptics.selectionAsync();
+    setDoseTimeDraft(toDoseTimeDraft(Number(entry.confirmedAt ?? entry.timeMillis)));
+    setDoseEditTarget(entry);
+  };
+
+  const handleConfirmDoseTime = () => {
+    if (!doseEditTarget) return;
+    const takenAt = parseDoseTimeDraft(doseTimeDraft);
+    if (takenAt !== null) correctDoseMutation.mutate({ entry: doseEditTarget, takenAt });
+  };
+
+  const handlePauseToggle = (med: Medication) => {
+    if (med.pausedAt) {
+      resumeMutation.mutate(med.id);
+      return;
+    }
+    setResumeOnText("");
+    setPauseTarget(med);
+  };
+
+  const handleConfirmPause = () => {
+    if (!pauseTarget) return;
+    const resumeOn = resumeOnText.trim() ? parseDateInput(resumeOnText) : null;
+    if (resumeOnText.trim() && !resumeOn) {
+      setPauseTarget(null);
+      setActionError({ title: "Data inválida", message: "Informe a data de retomada no formato DD/MM/AAAA." });
+      return;
+    }
+    pauseMutation.mutate({ id: pauseTarget.id, resumeOn });
+  };
+
   const medications = medsQuery.data || [];
+  const archivedMeds = archivedQuery.data || [];
   const history = historyQuery.data || [];
 
   return (
@@ -233,7 +499,7 @@ export default function MedicationsScreen() {
         <>
           {medsQuery.isLoading ? (
             <SkeletonList count={3} />
-          ) : medications.length === 0 ? (
+          ) : medications.length === 0 && archivedMeds.length === 0 ? (
             <View style={styles.emptyContainer}>
               <Ionicons name="medkit-outline" size={56} color={colors.border} />
               <Text style={[styles.emptyTitle, { color: colors.text }]}>Lista vazia</Text>
@@ -247,12 +513,29 @@ export default function MedicationsScreen() {
                 <MedicationDetailCard
                   med={item}
                   colors={colors}
-                  onDeleteRequest={(med) => setConfirmDelete(med)}
+                  onArchiveRequest={(med) => setConfirmArchive(med)}
+                  onPauseToggle={handlePauseToggle}
                   onEdit={(id) => router.push(`/edit-medication?id=${id}`)}
                 />
               )}
               contentContainerStyle={styles.listContent}
               showsVerticalScrollIndicator={false}
+              ListFooterComponent={
+                archivedMeds.length > 0 ? (
+                  <View style={styles.archivedSection}>
+                    <Text style={[styles.archivedTitle, { color: colors.textSecondary }]}>Arquivados</Text>
+                    {archivedMeds.map((med) => (
+                      <ArchivedMedicationRow
+                        key={med.id}
+                        med={med}
+                        colors={colors}
+                        restoring={restoreMutation.isPending && restoreMutation.variables === med.id}
+                        onRestore={(item) => restoreMutation.mutate(item.id)}
+                      />
+                    ))}
+                  </View>
+                ) : null
+              }
               refreshControl={
                 <RefreshControl
                   refreshing={medsQuery.isFetching}
@@ -271,7 +554,7 @@ export default function MedicationsScreen() {
             <View style={styles.emptyContainer}>
               <Ionicons name="time-outline" size={56} color={colors.border} />
               <Text style={[styles.emptyTitle, { color: colors.text }]}>Nenhuma dose registrada</Text>
-              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>O histórico de doses confirmadas aparecerá aqui</Text>
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>O histórico de doses tomadas e puladas aparecerá aqui</Text>
               {historyQuery.isFetching && (
                 <ActivityIndicator size="small" color={colors.tint} style={{ marginTop: 12 }} />
               )}
@@ -280,7 +563,7 @@ export default function MedicationsScreen() {
             <FlatList
               data={history}
               keyExtractor={(item) => item.id}
-              renderItem={({ item }) => <HistoryItem entry={item} colors={colors} />}
+              renderItem={({ item }) => <HistoryItem entry={item} onEdit={handleEditDose} colors={colors} />}
               contentContainerStyle={styles.listContent}
               showsVerticalScrollIndicator={false}
               ListHeaderComponent={
@@ -304,22 +587,112 @@ export default function MedicationsScreen() {
       )}
 
       <ConfirmDialog
-        visible={!!confirmDelete}
-        title="Remover"
-        message={confirmDelete ? `Deseja remover ${confirmDelete.name}?` : ""}
+        visible={!!confirmArchive}
+        title="Arquivar"
+        message={confirmArchive ? `Arquivar ${confirmArchive.name}? Os lembretes param, mas o histórico de doses é mantido e você pode restaurá-lo depois.` : ""}
+        icon="archive-outline"
+        iconColor={colors.warning}
+        confirmLabel="Arquivar"
+        cancelLabel="Cancelar"
+        confirmColor={colors.warning}
+        loading={archiveMutation.isPending}
+        onConfirm={() => {
+          if (confirmArchive) archiveMutation.mutate(confirmArchive.id);
+        }}
+        onCancel={() => {
+          if (!archiveMutation.isPending) setConfirmArchive(null);
+        }}
+      />
+
+      <ConfirmDialog
+        visible={!!pauseTarget}
+        title="Pausar"
+        message={pauseTarget ? `Pausar ${pauseTarget.name}? Nenhum lembrete ou alerta de dose perdida será enviado durante a pausa.` : ""}
+        icon="pause-circle-outline"
+        iconColor={colors.warning}
+        confirmLabel="Pausar"
+        cancelLabel="Cancelar"
+        confirmColor={colors.warning}
+        loading={pauseMutation.isPending}
+        onConfirm={handleConfirmPause}
+        onCancel={() => {
+          if (!pauseMutation.isPending) setPauseTarget(null);
+        }}
+      >
+        <Text style={[styles.pauseLabel, { color: colors.text }]}>Retomar automaticamente em (opcional)</Text>
+        <View style={[styles.pauseInputWrapper, { backgroundColor: colors.inputBg, borderColor: colors.border }]}>
+          <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} />
+          <TextInput
+            style={[styles.pauseInput, { color: colors.text }]}
+            placeholder="DD/MM/AAAA"
+            placeholderTextColor={colors.textSecondary}
+            value={resumeOnText}
+            onChangeText={(text) => setResumeOnText(maskDateInput(text))}
+            keyboardType="number-pad"
+            maxLength={10}
+          />
+        </View>
+      </ConfirmDialog>
+
+      <ConfirmDialog
+        visible={!!doseEditTarget}
+        title="Corrigir dose"
+        message={doseEditTarget ? `Quando você tomou ${doseEditTarget.medicationName}?` : ""}
+        icon="time-outline"
+        iconColor={colors.tint}
+        confirmLabel="Salvar horário"
+        cancelLabel="Cancelar"
+        confirmColor={colors.tint}
+        loading={correctDoseMutation.isPending}
+        onConfirm={handleConfirmDoseTime}
+        onCancel={() => {
+          if (!correctDoseMutation.isPending) setDoseEditTarget(null);
+        }}
+      >
+        <DoseTimeInput value={doseTimeDraft} onChange={setDoseTimeDraft} />
+        <Pressable
+          style={styles.deleteDoseLink}
+          onPress={() => {
+            setDoseDeleteTarget(doseEditTarget);
+            setDoseEditTarget(null);
+          }}
+          hitSlop={6}
+        >
+          <Ionicons name="trash-outline" size={14} color={colors.danger} />
+          <Text style={[styles.deleteDoseText, { color: colors.danger }]}>Não tomei, excluir registro</Text>
+        </Pressable>
+      </ConfirmDialog>
+
+      <ConfirmDialog
+        visible={!!doseDeleteTarget}
+        title="Excluir registro"
+        message={doseDeleteTarget ? `Excluir a dose de ${doseDeleteTarget.medicationName}? O estoque usado por ela volta para o remédio.` : ""}
         icon="trash-outline"
         iconColor={colors.danger}
-        confirmLabel="Remover"
+        confirmLabel="Excluir"
         cancelLabel="Cancelar"
         confirmColor={colors.danger}
-        loading={deleteMutation.isPending}
+        loading={deleteDoseMutation.isPending}
         onConfirm={() => {
-          if (confirmDelete) deleteMutation.mutate(confirmDelete.id);
+          if (doseDeleteTarget) deleteDoseMutation.mutate(doseDeleteTarget);
         }}
         onCancel={() => {
-          if (!deleteMutation.isPending) setConfirmDelete(null);
+          if (!deleteDoseMutation.isPending) setDoseDeleteTarget(null);
         }}
       />
+
+      <ConfirmDialog
+        visible={!!actionError}
+        title={actionError?.title ?? ""}
+        message={actionError?.message ?? ""}
+        icon="alert-circle"
+        iconColor={colors.danger}
+        confirmLabel="OK"
+        confirmColor={colors.danger}
+        singleAction
+        onConfirm={() => setActionError(null)}
+        onCancel={() => setActionError(null)}
+      />
     </View>
   );
 }
@@ -451,6 +824,67 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  cardAction: {
+    marginLeft: 10,
+  },
+  pauseLabel: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 6,
+  },
+  pauseInputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    height: 46,
+    marginBottom: 20,
+  },
+  pauseInput: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+  archivedSection: {
+    marginTop: 10,
+    gap: 10,
+  },
+  archivedTitle: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  archivedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    borderRadius: 14,
+    padding: 14,
+    opacity: 0.85,
+  },
+  archivedName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  archivedMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    marginTop: 2,
+  },
+  restoreBtn: {
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minWidth: 84,
+    alignItems: "center",
+  },
+  restoreBtnText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
   emptyContainer: {
     flex: 1,
     alignItems: "center",
@@ -494,6 +928,17 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_400Regular",
     marginTop: 1,
   },
+  deleteDoseLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginBottom: 16,
+  },
+  deleteDoseText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
   historyTime: {
     alignItems: "flex-end",
   },
@@ -154,6 +154,16 @@ export default function ProfileScreen() {
     router.push("/connections");
   };
 
+  const handleShoppingListPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push("/shopping-list");
+  };
+
+  const handleSpendingPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push("/spending");
+  };
+
   const handleThemePress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setThemePickerVisible(true);
@@ -229,6 +239,26 @@ export default function ProfileScreen() {
               <Text style={[styles.menuLabel, { color: colors.text }]}>Conexões</Text>
               <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
             </Pressable>
+
+            <View style={[styles.menuDivider, { backgroundColor: colors.border }]} />
+
+            <Pressable style={styles.menuItem} onPress={handleShoppingListPress}>
+              <View style={[styles.menuIcon, { backgroundColor: colors.warningLight }]}>
+                <Ionicons name="cart-outline" size={18} color={colors.warning} />
+              </View>
+              <Text style={[styles.menuLabel, { color: colors.text }]}>Lista de compras</Text>
+              <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+            </Pressable>
+
+            <View style={[styles.menuDivider, { backgroundColor: colors.border }]} />
+
+            <Pressable style={styles.menuItem} onPress={handleSpendingPress}>
+              <View style={[styles.menuIcon, { backgroundColor: colors.successLight }]}>
+                <Ionicons name="wallet-outline" size={18} color={colors.success} />
+              </View>
+              <Text style={[styles.menuLabel, { color: colors.text }]}>Gastos com remédios</Text>
+              <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+            </Pressable>
           </View>
         </View>
 
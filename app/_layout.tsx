@@ -47,6 +47,61 @@ function RootLayoutNav() {
           headerTitleStyle: { color: colors.text },
         }}
       />
+      <Stack.Screen
+        name="medication-stock"
+        options={{
+          presentation: "modal",
+          headerShown: true,
+          headerTitle: "Estoque e Validade",
+          headerTintColor: colors.tint,
+          headerStyle: { backgroundColor: colors.surface },
+          headerTitleStyle: { color: colors.text },
+        }}
+      />
+      <Stack.Screen
+        name="medication-restocks"
+        options={{
+          presentation: "modal",
+          headerShown: true,
+          headerTitle: "Compras",
+          headerTintColor: colors.tint,
+          headerStyle: { backgroundColor: colors.surface },
+          headerTitleStyle: { color: colors.text },
+        }}
+      />
+      <Stack.Screen
+        name="stock-movements"
+        options={{
+          presentation: "modal",
+          headerShown: true,
+          headerTitle: "Movimentações",
+          headerTintColor: colors.tint,
+          headerStyle: { backgroundColor: colors.surface },
+          headerTitleStyle: { color: colors.text },
+        }}
+      />
+      <Stack.Screen
+        name="spending"
+        options={{
+          presentation: "modal",
+          headerShown: true,
+          headerTitle: "Gastos com Remédios",
+          headerTintColor: colors.tint,
+          headerStyle: { backgroundColor: colors.surface },
+          headerTitleStyle: { color: colors.text },
+        }}
+      />
+      <Stack.Screen
+        name="shopping-list"
+        options={{
+          presentation: "modal",
+          headerShown: true,
+          headerTitle: "Lista de Compras",
+          headerTintColor: colors.tint,
+          headerStyle: { backgroundColor: colors.surface },
+          headerTitleStyle: { color: colors.text },
+        }}
+      />
       <Stack.Screen
         name="edit-profile"
         options={{
@@ -17,7 +17,7 @@ import Animated, {
   withTiming,
   Easing,
 } from "react-native-reanimated";
-import { router } from "expo-router";
+import { router, useLocalSearchParams } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { useMutation, useQuery } from "@tanstack/react-query";
@@ -27,7 +27,33 @@ import { apiRequest, queryClient } from "@/lib/query-client";
 import { useTheme } from "@/lib/theme-context";
 import { useAuth } from "@/lib/auth-context";
 import ConfirmDialog from "@/components/ConfirmDialog";
+import ScheduleTimesEditor from "@/components/ScheduleTimesEditor";
+import RecurrenceEditor, { type RecurrenceValue } from "@/components/RecurrenceEditor";
+import AsNeededLimitsEditor, { type AsNeededLimits } from "@/components/AsNeededLimitsEditor";
+import TreatmentDurationEditor, { type TreatmentDurationValue } from "@/components/TreatmentDurationEditor";
+import ReminderRepeatEditor, { formatReminderRepeat } from "@/components/ReminderRepeatEditor";
+import MissedDoseTimingEditor, { type MissedDoseTimingValue } from "@/components/MissedDoseTimingEditor";
+import RefillAlertEditor from "@/components/RefillAlertEditor";
+import DosePhasesEditor, { parseDosePhaseDrafts, type DosePhaseDraft } from "@/components/DosePhasesEditor";
+import DoseQuantityEditor, { type DoseQuantityValue } from "@/components/DoseQuantityEditor";
+import MedicationInfoEditor, {
+  EMPTY_MEDICATION_INFO,
+  parseMedicationInfoDraft,
+  type MedicationInfoDraft,
+} from "@/components/MedicationInfoEditor";
 import { scheduleNextDoseNotification } from "@/lib/push-notifications";
+import { formatScheduleLabel, formatTreatmentLabel, getDeviceTimeZone, parseDateInput, parseDecimalInput } from "@/lib/medication-schedule";
+import {
+  DEFAULT_EARLY_WINDOW_MINUTES,
+  DEFAULT_MISSED_GRACE_MINUTES,
+  DEFAULT_REPEAT_REMINDER_MINUTES,
+  getNextReminderTime,
+  isEarlyWindowWithinGaps,
+  type ReminderRepeatSettings,
+  type ScheduleType,
+} from "@shared/dose-schedule";
+import { formatQuantity, getDoseUnitLabel } from "@shared/dose-units";
+import { formatInstructions } from "@shared/medication-info";
 
 const TOTAL_STEPS = 3;
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
@@ -37,13 +63,48 @@ export default function AddMedicationScreen() {
   const { isDark } = useTheme();
   const colors = isDark ? Colors.dark : Colors.light;
   const { user } = useAuth();
+  // Set when a caregiver adds a medication for one of their dependents.
+  const { dependentId, dependentName } = useLocalSearchParams<{ dependentId?: string; dependentName?: string }>();
 
   const [step, setStep] = useState<1 | 2 | 3>(1);
   const [name, setName] = useState("");
   const [dosage, setDosage] = useState("");
+  const [doseQuantity, setDoseQuantity] = useState<DoseQuantityValue>({ quantityText: "1", unit: "TABLET" });
+  const [medicationInfo, setMedicationInfo] = useState<MedicationInfoDraft>(EMPTY_MEDICATION_INFO);
   const [currentStock, setCurrentStock] = useState("");
   const [alertThreshold, setAlertThreshold] = useState("5");
+  const [refillAlertDays, setRefillAlertDays] = useState<number | null>(null);
   const [intervalInHours, setIntervalInHours] = useState(8);
+  const [scheduleType, setScheduleType] = useState<ScheduleType>("INTERVAL");
+  const [scheduleTimes, setScheduleTimes] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>({
+    recurrenceType: "DAILY",
+    recurrenceWeekdays: [],
+    recurrenceEveryNDays: 1,
+    startDateText: "",
+  });
+  const [asNeededLimits, setAsNeededLimits] = useState<AsNeededLimits>({
+    maxDosesPer24h: null,
+    minHoursBetweenDoses: null,
+  });
+  const [duration, setDuration] = useState<TreatmentDurationValue>({
+    mode: "CONTINUOUS",
+    endDateText: "",
+    totalDosesText: "",
+  });
+  const [dosePhases, setDosePhases] = useState<DosePhaseDraft[]>([]);
+  const [reminderRepeat, setReminderRepeat] = useState<ReminderRepeatSettings | null>(null);
+  const [missedDoseTiming, setMissedDoseTiming] = useState<MissedDoseTimingValue>({
+    earlyWindowMinutes: DEFAULT_EARLY_WINDOW_MINUTES,
+    missedGraceMinutes: DEFAULT_MISSED_GRACE_MINUTES,
+    caregiverAlertDelayMinutes: 0,
+  });
+  const profileReminderLabel = dependentId
+    ? `Segue o padrão do perfil de ${dependentName || "dependente"}`
+    : formatReminderRepeat({
+        repeatReminderMinutes: user?.repeatReminderMinutes ?? DEFAULT_REPEAT_REMINDER_MINUTES,
+        repeatReminderLimit: user?.repeatReminderLimit ?? 0,
+      });
   const [dialog, setDialog] = useState<{
     title: string;
     message: string;
@@ -62,12 +123,16 @@ export default function AddMedicationScreen() {
   }));
 
   const medsQuery = useQuery<any[]>({
-    queryKey: ["/api/medications"],
+    queryKey: dependentId ? ["/api/dependents", dependentId, "medications"] : ["/api/medications"],
   });
 
   const medCount = medsQuery.data?.length || 0;
-  const isFree = user?.planType === "FREE";
+  const isFree = !dependentId && user?.planType === "FREE";
   const atLimit = isFree && medCount >= 10;
+  const treatmentLabel = formatTreatmentLabel({
+    endDate: duration.mode === "END_DATE" ? parseDateInput(duration.endDateText) : null,
+    totalDoses: duration.mode === "TOTAL_DOSES" ? parseInt(duration.totalDosesText, 10) || null : null,
+  });
   const canDecrementInterval = intervalInHours > 1;
   const canIncrementInterval = intervalInHours < 24;
 
@@ -109,19 +174,46 @@ export default function AddMedicationScreen() {
 
   const createMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/medications", {
+      const res = await apiRequest("POST", dependentId ? `/api/dependents/${dependentId}/medications` : "/api/medications", {
         name: name.trim(),
         dosage: dosage.trim(),
-        currentStock: parseInt(currentStock, 10) || 0,
+        doseQuantity: parseDecimalInput(doseQuantity.quantityText) ?? 1,
+        doseUnit: doseQuantity.unit,
+        currentStock: parseDecimalInput(currentStock) ?? 0,
         alertThreshold: parseInt(alertThreshold, 10) || 5,
+        refillAlertDays: scheduleType === "AS_NEEDED" ? null : refillAlertDays,
         intervalInHours,
+        scheduleType,
+        scheduleTimes,
+        timeZone: getDeviceTimeZone(),
+        recurrenceType: recurrence.recurrenceType,
+        recurrenceWeekdays: recurrence.recurrenceWeekdays,
+        recurrenceEveryNDays: recurrence.recurrenceEveryNDays,
+        startDate: parseDateInput(recurrence.startDateText),
+        maxDosesPer24h: scheduleType === "AS_NEEDED" ? asNeededLimits.maxDosesPer24h : null,
+        minHoursBetweenDoses: scheduleType === "AS_NEEDED" ? asNeededLimits.minHoursBetweenDoses : null,
+        endDate: duration.mode === "END_DATE" ? parseDateInput(duration.endDateText) : null,
+        totalDoses: duration.mode === "TOTAL_DOSES" ? parseInt(duration.totalDosesText, 10) || null : null,
+        dosePhases: parseDosePhaseDrafts(dosePhases) ?? [],
+        repeatReminderMinutes: reminderRepeat?.repeatReminderMinutes ?? null,
+        repeatReminderLimit: reminderRepeat?.repeatReminderLimit ?? null,
+        ...missedDoseTiming,
+        ...parseMedicationInfoDraft(medicationInfo),
       });
       return res.json();
     },
     onSuccess: async (data) => {
+      if (dependentId) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+        router.back();
+        return;
+      }
       if (data && data.id) {
-        const nextDoseTime = Date.now() + intervalInHours * 60 * 60 * 1000;
-        await scheduleNextDoseNotification(data.id, data.name, nextDoseTime);
+        const nextDoseTime = getNextReminderTime(data, Date.now());
+        if (nextDoseTime) {
+          await scheduleNextDoseNotification(data.id, data.name, nextDoseTime, formatInstructions(data));
+        }
       }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
@@ -129,7 +221,7 @@ export default function AddMedicationScreen() {
     },
     onError: (err: any) => {
       const msg = err.message || "";
-      if (msg.includes("requiresUpgrade") || msg.includes("Limite")) {
+      if (!dependentId && (msg.includes("requiresUpgrade") || msg.includes("Limite"))) {
         showLimitDialog();
       } else {
         showInfoDialog("Não foi possível salvar", msg || "Falha ao salvar medicamento", "alert-circle", colors.danger, colors.danger);
@@ -154,9 +246,53 @@ export default function AddMedicationScreen() {
         showInfoDialog("Campo obrigatório", "Informe a dosagem", "alert-circle", colors.danger, colors.danger);
         return;
       }
+      if (!((parseDecimalInput(doseQuantity.quantityText) ?? 0) > 0)) {
+        showInfoDialog("Campo obrigatório", "Informe a quantidade por dose", "alert-circle", colors.danger, colors.danger);
+        return;
+      }
+      if (!parseMedicationInfoDraft(medicationInfo)) {
+        showInfoDialog("Concentração inválida", "Informe a concentração como um número, ex: 500", "alert-circle", colors.danger, colors.danger);
+        return;
+      }
       Haptics.selectionAsync();
       animateToStep(2, "forward");
     } else if (step === 2) {
+      if (scheduleType === "FIXED_TIMES" && scheduleTimes.length === 0) {
+        showInfoDialog("Campo obrigatório", "Adicione pelo menos um horário", "alert-circle", colors.danger, colors.danger);
+        return;
+      }
+      if (scheduleType === "FIXED_TIMES" && !isEarlyWindowWithinGaps(missedDoseTiming.earlyWindowMinutes, scheduleTimes)) {
+        showInfoDialog("Janela muito longa", "A janela da dose precisa ser menor que o intervalo entre os horários", "alert-circle", colors.danger, colors.danger);
+        return;
+      }
+      if (recurrence.recurrenceType === "DAYS_OF_WEEK" && recurrence.recurrenceWeekdays.length === 0) {
+        showInfoDialog("Campo obrigatório", "Selecione pelo menos um dia da semana", "alert-circle", colors.danger, colors.danger);
+        return;
+      }
+      if (recurrence.startDateText && !parseDateInput(recurrence.startDateText)) {
+        showInfoDialog("Data inválida", "Informe a data de início no formato DD/MM/AAAA", "alert-circle", colors.danger, colors.danger);
+        return;
+      }
+      if (duration.mode === "END_DATE") {
+        const endDate = parseDateInput(duration.endDateText);
+        const startDate = parseDateInput(recurrence.startDateText);
+        if (!endDate) {
+          showInfoDialog("Data inválida", "Informe o último dia do tratamento no formato DD/MM/AAAA", "alert-circle", colors.danger, colors.danger);
+          return;
+        }
+        if (startDate && endDate < startDate) {
+          showInfoDialog("Data inválida", "O último dia não pode ser anterior ao início", "alert-circle", colors.danger, colors.danger);
+          return;
+        }
+      }
+      if (duration.mode === "TOTAL_DOSES" && !(parseInt(duration.totalDosesText, 10) > 0)) {
+        showInfoDialog("Campo obrigatório", "Informe o total de doses do tratamento", "alert-circle", colors.danger, colors.danger);
+        return;
+      }
+      if (!parseDosePhaseDrafts(dosePhases)) {
+        showInfoDialog("Campo obrigatório", "Preencha a dosagem, as unidades e os dias de cada fase", "alert-circle", colors.danger, colors.danger);
+        return;
+      }
       Haptics.selectionAsync();
       animateToStep(3, "forward");
     }
@@ -224,6 +360,9 @@ export default function AddMedicationScreen() {
               <Ionicons name={stepIcons[step - 1]} size={32} color={colors.tint} />
             </View>
             <Text style={[styles.stepTitle, { color: colors.text }]}>{stepTitles[step - 1]}</Text>
+            {dependentId && (
+              <Text style={[styles.limitText, { color: colors.textSecondary }]}>Para {dependentName || "dependente"}</Text>
+            )}
             {isFree && step === 1 && (
               <View style={[styles.limitBanner, { backgroundColor: atLimit ? colors.dangerLight : colors.warningLight }]}>
                 <Ionicons name={atLimit ? "alert-circle" : "information-circle"} size={16} color={atLimit ? colors.danger : colors.warning} />
@@ -261,58 +400,118 @@ export default function AddMedicationScreen() {
                   onChangeText={setDosage}
                 />
               </View>
+
+              <Text style={[styles.label, { color: colors.text }]}>Quantidade por dose</Text>
+              <DoseQuantityEditor value={doseQuantity} onChange={setDoseQuantity} />
+
+              <Text style={[styles.label, { color: colors.text }]}>Detalhes da receita (opcional)</Text>
+              <MedicationInfoEditor value={medicationInfo} onChange={setMedicationInfo} />
             </>
           )}
 
-          {/* Step 2: Intervalo */}
+          {/* Step 2: Agendamento */}
           {step === 2 && (
             <>
-              <Text style={[styles.label, { color: colors.text }]}>Intervalo entre doses</Text>
-              <View style={styles.intervalControlRow}>
-                <Pressable
-                  style={({ pressed }) => [
-                    styles.intervalAdjustBtn,
-                    { backgroundColor: colors.surface, borderColor: colors.border },
-                    !canDecrementInterval && { opacity: 0.5 },
-                    pressed && canDecrementInterval && styles.intervalBtnPressed,
-                  ]}
-                  disabled={!canDecrementInterval}
-                  onPress={() => {
-                    if (!canDecrementInterval) return;
-                    Haptics.selectionAsync();
-                    setIntervalInHours((prev) => Math.max(1, prev - 1));
-                  }}
-                >
-                  <Ionicons name="remove" size={20} color={colors.text} />
-                </Pressable>
-
-                <View style={[styles.intervalValueBox, { backgroundColor: colors.tintLight, borderColor: colors.tint }]}>
-                  <Text style={[styles.intervalValueText, { color: colors.tint }]}>{intervalInHours}h</Text>
-                  <Text style={[styles.intervalSubText, { color: colors.tint }]}>entre doses</Text>
-                </View>
-
-                <Pressable
-                  style={({ pressed }) => [
-                    styles.intervalAdjustBtn,
-                    { backgroundColor: colors.surface, borderColor: colors.border },
-                    !canIncrementInterval && { opacity: 0.5 },
-                    pressed && canIncrementInterval && styles.intervalBtnPressed,
-                  ]}
-                  disabled={!canIncrementInterval}
-                  onPress={() => {
-                    if (!canIncrementInterval) return;
-                    Haptics.selectionAsync();
-                    setIntervalInHours((prev) => Math.min(24, prev + 1));
-                  }}
-                >
-                  <Ionicons name="add" size={20} color={colors.text} />
-                </Pressable>
+              <Text style={[styles.label, { color: colors.text }]}>Tipo de agendamento</Text>
+              <View style={[styles.typeSelector, { backgroundColor: colors.inputBg }]}>
+                {([["INTERVAL", "Intervalo"], ["FIXED_TIMES", "Horários fixos"], ["AS_NEEDED", "Se necessário"]] as [ScheduleType, string][]).map(([value, label]) => (
+                  <Pressable
+                    key={value}
+                    style={[styles.typeOption, scheduleType === value && { backgroundColor: colors.surface }]}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      setScheduleType(value);
+                    }}
+                  >
+                    <Text style={[styles.typeOptionText, { color: scheduleType === value ? colors.tint : colors.textSecondary }]}>{label}</Text>
+                  </Pressable>
+                ))}
               </View>
 
+              {scheduleType === "INTERVAL" ? (
+                <>
+                  <Text style={[styles.label, { color: colors.text }]}>Intervalo entre doses</Text>
+                  <View style={styles.intervalControlRow}>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.intervalAdjustBtn,
+                        { backgroundColor: colors.surface, borderColor: colors.border },
+                        !canDecrementInterval && { opacity: 0.5 },
+                        pressed && canDecrementInterval && styles.intervalBtnPressed,
+                      ]}
+                      disabled={!canDecrementInterval}
+                      onPress={() => {
+                        if (!canDecrementInterval) return;
+                        Haptics.selectionAsync();
+                        setIntervalInHours((prev) => Math.max(1, prev - 1));
+                      }}
+                    >
+                      <Ionicons name="remove" size={20} color={colors.text} />
+                    </Pressable>
+
+                    <View style={[styles.intervalValueBox, { backgroundColor: colors.tintLight, borderColor: colors.tint }]}>
+                      <Text style={[styles.intervalValueText, { color: colors.tint }]}>{intervalInHours}h</Text>
+                      <Text style={[styles.intervalSubText, { color: colors.tint }]}>entre doses</Text>
+                    </View>
+
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.intervalAdjustBtn,
+                        { backgroundColor: colors.surface, borderColor: colors.border },
+                        !canIncrementInterval && { opacity: 0.5 },
+                        pressed && canIncrementInterval && styles.intervalBtnPressed,
+                      ]}
+                      disabled={!canIncrementInterval}
+                      onPress={() => {
+                        if (!canIncrementInterval) return;
+                        Haptics.selectionAsync();
+                        setIntervalInHours((prev) => Math.min(24, prev + 1));
+                      }}
+                    >
+                      <Ionicons name="add" size={20} color={colors.text} />
+                    </Pressable>
+                  </View>
+                </>
+              ) : scheduleType === "FIXED_TIMES" ? (
+                <>
+                  <Text style={[styles.label, { color: colors.text }]}>Horários do dia</Text>
+                  <ScheduleTimesEditor times={scheduleTimes} onChange={setScheduleTimes} />
+                </>
+              ) : (
+                <AsNeededLimitsEditor value={asNeededLimits} onChange={setAsNeededLimits} />
+              )}
+
+              {scheduleType !== "AS_NEEDED" && (
+                <>
+                  <Text style={[styles.label, { color: colors.text }]}>Repetição</Text>
+                  <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+
+                  <Text style={[styles.label, { color: colors.text }]}>Lembretes repetidos</Text>
+                  <ReminderRepeatEditor value={reminderRepeat} onChange={setReminderRepeat} inheritLabel={profileReminderLabel} />
+
+                  <Text style={[styles.label, { color: colors.text }]}>Janela da dose</Text>
+                  <MissedDoseTimingEditor
+                    value={missedDoseTiming}
+                    onChange={setMissedDoseTiming}
+                    scheduleTimes={scheduleType === "FIXED_TIMES" ? scheduleTimes : []}
+                  />
+                </>
+              )}
+
+              <Text style={[styles.label, { color: colors.text }]}>Duração do tratamento</Text>
+              <TreatmentDurationEditor value={duration} onChange={setDuration} />
+
+              <Text style={[styles.label, { color: colors.text }]}>Fases de dose (opcional)</Text>
+              <DosePhasesEditor phases={dosePhases} onChange={setDosePhases} />
+
               <View style={[styles.infoBox, { backgroundColor: colors.tintLight, marginTop: 20 }]}>
                 <Ionicons name="information-circle-outline" size={18} color={colors.tint} />
                 <Text style={[styles.infoText, { color: colors.tint }]}>
-                  A cada {intervalInHours} hora{intervalInHours !== 1 ? "s" : ""} você receberá um lembrete para tomar {name || "o medicamento"}.
+                  {scheduleType === "INTERVAL"
+                    ? `A cada ${intervalInHours} hora${intervalInHours !== 1 ? "s" : ""} você receberá um lembrete para tomar ${name || "o medicamento"}.`
+                    : scheduleType === "FIXED_TIMES"
+                      ? `Você receberá um lembrete para tomar ${name || "o medicamento"} em cada horário escolhido.`
+                      : `Sem lembretes automáticos. Os limites impedem que ${name || "o medicamento"} seja tomado além do permitido.`}
                 </Text>
               </View>
             </>
@@ -323,7 +522,7 @@ export default function AddMedicationScreen() {
             <>
               <View style={styles.stockRow}>
                 <View style={styles.stockField}>
-                  <Text style={[styles.label, { color: colors.text }]}>Estoque atual</Text>
+                  <Text style={[styles.label, { color: colors.text }]}>Estoque atual ({getDoseUnitLabel(doseQuantity.unit)})</Text>
                   <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
                     <Ionicons name="cube-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
                     <TextInput
@@ -332,7 +531,7 @@ export default function AddMedicationScreen() {
                       placeholderTextColor={colors.textSecondary}
                       value={currentStock}
                       onChangeText={setCurrentStock}
-                      keyboardType="number-pad"
+                      keyboardType="decimal-pad"
                     />
                   </View>
                 </View>
@@ -356,24 +555,45 @@ export default function AddMedicationScreen() {
               <View style={[styles.infoBox, { backgroundColor: colors.tintLight, marginTop: 8 }]}>
                 <Ionicons name="notifications-outline" size={18} color={colors.tint} />
                 <Text style={[styles.infoText, { color: colors.tint }]}>
-                  Você será alertado quando o estoque atingir {alertThreshold || "5"} unidades
+                  Você será alertado quando o estoque atingir {formatQuantity(parseInt(alertThreshold, 10) || 5, doseQuantity.unit)}
                 </Text>
               </View>
 
+              {scheduleType !== "AS_NEEDED" && (
+                <>
+                  <Text style={[styles.label, { color: colors.text, marginTop: 16 }]}>Previsão de reposição</Text>
+                  <RefillAlertEditor value={refillAlertDays} onChange={setRefillAlertDays} />
+                </>
+              )}
+
               {/* Resumo */}
               <View style={[styles.summaryCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
                 <Text style={[styles.summaryTitle, { color: colors.textSecondary }]}>Resumo do cadastro</Text>
                 <View style={styles.summaryRow}>
                   <Ionicons name="medkit-outline" size={16} color={colors.tint} />
-                  <Text style={[styles.summaryText, { color: colors.text }]}>{name} — {dosage}</Text>
+                  <Text style={[styles.summaryText, { color: colors.text }]}>{name} — {dosage} · {formatQuantity(parseDecimalInput(doseQuantity.quantityText) ?? 1, doseQuantity.unit)} por dose</Text>
                 </View>
                 <View style={styles.summaryRow}>
                   <Ionicons name="time-outline" size={16} color={colors.tint} />
-                  <Text style={[styles.summaryText, { color: colors.text }]}>A cada {intervalInHours}h</Text>
+                  <Text style={[styles.summaryText, { color: colors.text }]}>{formatScheduleLabel({ scheduleType, intervalInHours, scheduleTimes, ...recurrence, ...asNeededLimits })}</Text>
                 </View>
+                {dosePhases.length > 0 && (
+                  <View style={styles.summaryRow}>
+                    <Ionicons name="trending-down-outline" size={16} color={colors.tint} />
+                    <Text style={[styles.summaryText, { color: colors.text }]}>
+                      {dosePhases.map((phase) => `${phase.dosage} × ${phase.durationDaysText}d`).join(" → ")}
+                    </Text>
+                  </View>
+                )}
+                {treatmentLabel && (
+                  <View style={styles.summaryRow}>
+                    <Ionicons name="flag-outline" size={16} color={colors.tint} />
+                    <Text style={[styles.summaryText, { color: colors.text }]}>{treatmentLabel}</Text>
+                  </View>
+                )}
                 <View style={styles.summaryRow}>
                   <Ionicons name="cube-outline" size={16} color={colors.tint} />
-                  <Text style={[styles.summaryText, { color: colors.text }]}>{currentStock || "0"} un. · Alerta: {alertThreshold || "5"} un.</Text>
+                  <Text style={[styles.summaryText, { color: colors.text }]}>{formatQuantity(parseDecimalInput(currentStock) ?? 0, doseQuantity.unit)} · Alerta: {formatQuantity(parseInt(alertThreshold, 10) || 5, doseQuantity.unit)}</Text>
                 </View>
               </View>
             </>
@@ -541,6 +761,23 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontFamily: "Inter_400Regular",
   },
+  typeSelector: {
+    flexDirection: "row",
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 4,
+  },
+  typeOption: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 10,
+    paddingVertical: 10,
+  },
+  typeOptionText: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
   intervalControlRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -21,15 +21,18 @@ import { useAuth } from "@/lib/auth-context";
 import { useTheme } from "@/lib/theme-context";
 import { cardShadow } from "@/lib/shadows";
 import ConfirmDialog from "@/components/ConfirmDialog";
+import { MAX_ESCALATION_LEVEL } from "@shared/dose-schedule";
 
 interface Connection {
   id: string;
   masterId: string;
   dependentId: string;
   status: "PENDING" | "ACCEPTED";
+  escalationLevel: number;
   linkedName: string;
   linkedEmail: string;
   linkedRole: string;
+  linkedManaged?: boolean;
 }
 
 interface SearchedUser {
@@ -50,20 +53,24 @@ function ConnectionItem({
   userId,
   onDelete,
   onAccept,
+  onChangeLevel,
   deletingId,
   acceptingId,
   colors,
 }: {
   item: Connection;
   userId: string | undefined;
-  onDelete: (id: string) => void;
+  onDelete: (item: Connection) => void;
   onAccept: (id: string) => void;
+  onChangeLevel: (item: Connection) => void;
   deletingId: string | null;
   acceptingId: string | null;
   colors: typeof Colors.light;
 }) {
   const isPending = item.status === "PENDING";
   const canAccept = isPending && item.dependentId === userId;
+  // The dependent orders their caregivers; a caregiver can also move their own place in the chain.
+  const canChangeLevel = !isPending && (item.dependentId === userId || item.masterId === userId);
 
   return (
     <View style={[styles.connectionCard, { backgroundColor: colors.surface }, cardShadow(colors.cardShadow)]}>
@@ -74,7 +81,9 @@ function ConnectionItem({
       </View>
       <View style={styles.connectionInfo}>
         <Text style={[styles.connectionName, { color: colors.text }]}>{item.linkedName}</Text>
-        <Text style={[styles.connectionEmail, { color: colors.textSecondary }]}>{item.linkedEmail}</Text>
+        <Text style={[styles.connectionEmail, { color: colors.textSecondary }]}>
+          {item.linkedManaged ? "Perfil gerenciado, sem login" : item.linkedEmail}
+        </Text>
         <View style={styles.connectionMeta}>
           <View style={[styles.statusBadge, { backgroundColor: isPending ? colors.warningLight : colors.successLight }]}>
             <Text style={[styles.statusText, { color: isPending ? colors.warning : colors.success }]}>
@@ -84,6 +93,17 @@ function ConnectionItem({
           <Text style={[styles.roleText, { color: colors.textSecondary }]}>
             {ROLE_LABELS[item.linkedRole] || item.linkedRole}
           </Text>
+          {!isPending && (
+            <Pressable
+              style={[styles.levelBadge, { backgroundColor: colors.tintLight }]}
+              onPress={() => onChangeLevel(item)}
+              disabled={!canChangeLevel}
+              hitSlop={6}
+            >
+              <Ionicons name="git-network-outline" size={11} color={colors.tint} />
+              <Text style={[styles.statusText, { color: colors.tint }]}>Nível {item.escalationLevel}</Text>
+            </Pressable>
+          )}
         </View>
       </View>
       <View style={styles.connectionActions}>
@@ -103,7 +123,7 @@ function ConnectionItem({
         )}
         <Pressable
           style={styles.deleteBtn}
-          onPress={() => onDelete(item.id)}
+          onPress={() => onDelete(item)}
           disabled={deletingId === item.id}
           hitSlop={8}
         >
@@ -127,6 +147,7 @@ export default function ConnectionsScreen() {
   const [searching, setSearching] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [acceptingId, setAcceptingId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState<string | null>(null);
   const [dialog, setDialog] = useState<{
     title: string;
     message: string;
@@ -183,6 +204,28 @@ export default function ConnectionsScreen() {
     },
   });
 
+  const createProfileMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/managed-profiles", { name });
+      return res.json();
+    },
+    onSuccess: () => {
+      setProfileName(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+    },
+    onError: (err: any) => {
+      setProfileName(null);
+      const msg = err.message || "";
+      if (msg.includes("requiresUpgrade") || msg.includes("Limite")) {
+        showUpgradeDialog();
+      } else {
+        showInfoDialog("Não foi possível criar o perfil", msg || "Não foi possível criar o perfil.", "alert-circle", colors.danger, colors.danger);
+      }
+    },
+  });
+
   const showUpgradeDialog = () => {
     setDialog({
       title: "Limite do Plano Free",
@@ -244,10 +287,13 @@ export default function ConnectionsScreen() {
     }
   };
 
-  const handleDelete = (connectionId: string) => {
+  const handleDelete = (item: Connection) => {
+    const connectionId = item.id;
     setDialog({
-      title: "Remover Conexao",
-      message: "Deseja realmente remover esta conexão?",
+      title: item.linkedManaged ? "Remover Perfil" : "Remover Conexao",
+      message: item.linkedManaged
+        ? `Remover o perfil de ${item.linkedName}? Os remédios e todo o histórico dele serão apagados.`
+        : "Deseja realmente remover esta conexão?",
       icon: "trash-outline",
       iconColor: colors.danger,
       confirmLabel: "Remover",
@@ -257,7 +303,12 @@ export default function ConnectionsScreen() {
         setDialog((prev) => (prev ? { ...prev, loading: true } : prev));
         setDeletingId(connectionId);
         try {
-          await apiRequest("DELETE", `/api/connections/${connectionId}`);
+          if (item.linkedManaged) {
+            await apiRequest("DELETE", `/api/managed-profiles/${item.dependentId}`);
+            queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+          } else {
+            await apiRequest("DELETE", `/api/connections/${connectionId}`);
+          }
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
           queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
           setDialog(null);
@@ -296,6 +347,25 @@ export default function ConnectionsScreen() {
     });
   };
 
+  const escalationMutation = useMutation({
+    mutationFn: async ({ id, escalationLevel }: { id: string; escalationLevel: number }) => {
+      await apiRequest("PATCH", `/api/connections/${id}/escalation`, { escalationLevel });
+    },
+    onSuccess: () => {
+      Haptics.selectionAsync();
+      queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
+    },
+    onError: (err: any) => {
+      showInfoDialog("Não foi possível alterar", err.message || "Não foi possível alterar o nível de alerta.", "alert-circle", colors.danger, colors.danger);
+    },
+  });
+
+  // Level 1 is alerted first about a missed dose; the next level only if nobody acknowledges it.
+  const handleChangeLevel = (item: Connection) => {
+    const escalationLevel = item.escalationLevel >= MAX_ESCALATION_LEVEL ? 1 : item.escalationLevel + 1;
+    escalationMutation.mutate({ id: item.id, escalationLevel });
+  };
+
   const connections = connectionsQuery.data || [];
 
   const renderItem = ({ item }: { item: Connection }) => (
@@ -304,6 +374,7 @@ export default function ConnectionsScreen() {
       userId={user?.id}
       onDelete={handleDelete}
       onAccept={handleAccept}
+      onChangeLevel={handleChangeLevel}
       deletingId={deletingId}
       acceptingId={acceptingId}
       colors={colors}
@@ -371,6 +442,12 @@ export default function ConnectionsScreen() {
             )}
           </Pressable>
         </View>
+        {user?.role === "MASTER" && (
+          <Pressable style={styles.managedLink} onPress={() => setProfileName("")} hitSlop={6}>
+            <Ionicons name="happy-outline" size={15} color={colors.tint} />
+            <Text style={[styles.managedLinkText, { color: colors.tint }]}>Criar perfil para quem não usa o app</Text>
+          </Pressable>
+        )}
       </View>
 
       <FlatList
@@ -406,6 +483,33 @@ export default function ConnectionsScreen() {
         }
       />
 
+      <ConfirmDialog
+        visible={profileName !== null}
+        title="Perfil gerenciado"
+        message="Para crianças, pets ou quem não tem celular. Você cadastra os remédios e recebe os lembretes no lugar dele."
+        icon="happy"
+        iconColor={colors.tint}
+        confirmLabel="Criar"
+        cancelLabel="Cancelar"
+        confirmColor={colors.tint}
+        loading={createProfileMutation.isPending}
+        onConfirm={() => {
+          const name = profileName?.trim();
+          if (name) createProfileMutation.mutate(name);
+        }}
+        onCancel={() => { if (!createProfileMutation.isPending) setProfileName(null); }}
+      >
+        <TextInput
+          style={[styles.profileNameInput, { color: colors.text, backgroundColor: colors.inputBg, borderColor: colors.border }]}
+          placeholder="Nome"
+          placeholderTextColor={colors.textSecondary}
+          value={profileName ?? ""}
+          onChangeText={setProfileName}
+          maxLength={80}
+          autoFocus
+        />
+      </ConfirmDialog>
+
       <ConfirmDialog
         visible={!!dialog}
         title={dialog?.title || ""}
@@ -487,6 +591,25 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  managedLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 12,
+  },
+  managedLinkText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  profileNameInput: {
+    height: 46,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    marginBottom: 20,
+  },
   listContent: {
     padding: 20,
   },
@@ -544,6 +667,14 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontFamily: "Inter_700Bold",
   },
+  levelBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 3,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
   roleText: {
     fontSize: 11,
     fontFamily: "Inter_400Regular",
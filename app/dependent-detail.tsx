@@ -8,14 +8,23 @@ import {
   Platform,
   RefreshControl,
   Pressable,
+  TextInput,
 } from "react-native";
 import { router, useLocalSearchParams } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import SkipDoseDialog from "@/components/SkipDoseDialog";
 import { useTheme } from "@/lib/theme-context";
 import { cardShadow, smallShadow } from "@/lib/shadows";
+import { apiRequest, queryClient } from "@/lib/query-client";
+import { parseDecimalInput } from "@/lib/medication-schedule";
+import { DEFAULT_SNOOZE_MINUTES, getNextDoseTime, isDoseAvailable, type DosePhase } from "@shared/dose-schedule";
+import { formatQuantity } from "@shared/dose-units";
+import { formatInstructions } from "@shared/medication-info";
 
 interface HistoryEntry {
   id: string;
@@ -23,28 +32,73 @@ interface HistoryEntry {
   timeMillis: number;
   status: string;
   confirmedAt: number | null;
+  skipReason: string | null;
   medicationName: string;
   medicationDosage: string;
+  performedByName: string | null;
+  takenEarly: boolean;
+}
+
+interface DependentMedication {
+  id: string;
+  name: string;
+  dosage: string;
+  scheduleType: string;
+  intervalInHours: number;
+  scheduleTimes: string[];
+  timeZone: string;
+  recurrenceType: string;
+  recurrenceWeekdays: number[];
+  recurrenceEveryNDays: number;
+  startDate: string | null;
+  endDate: string | null;
+  totalDoses: number | null;
+  dosePhases: DosePhase[];
+  maxDosesPer24h: number | null;
+  minHoursBetweenDoses: number | null;
+  earlyWindowMinutes: number;
+  instructions: string[];
+  instructionsNote: string | null;
+  currentStock: number;
+  doseUnit: string;
+  pausedAt: string | null;
+  resumedAt: string | null;
+  createdAt: string | null;
+  lastDoseAt: number | null;
+}
+
+type DoseAction = "take" | "skip" | "snooze";
+type ManageAction = "edit" | "stock" | "archive";
+
+function getHistoryStatusStyle(status: string, colors: typeof Colors.light) {
+  if (status === "TAKEN") return { icon: "checkmark-circle" as const, label: "Tomou", color: colors.success, bg: colors.successLight };
+  if (status === "SKIPPED") return { icon: "play-skip-forward" as const, label: "Pulou", color: colors.warning, bg: colors.warningLight };
+  return { icon: "close-circle" as const, label: "Perdeu", color: colors.danger, bg: colors.dangerLight };
 }
 
 function HistoryItem({ item, colors }: { item: HistoryEntry; colors: typeof Colors.light }) {
-  const isTaken = item.status === "TAKEN";
+  const statusStyle = getHistoryStatusStyle(item.status, colors);
   const date = new Date(item.confirmedAt || item.timeMillis);
   const day = date.toLocaleDateString("pt-BR", { day: "2-digit", month: "short" });
   const time = date.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
 
   return (
     <View style={[styles.historyCard, { backgroundColor: colors.surface }, cardShadow(colors.cardShadow)]}>
-      <View style={[styles.historyIcon, { backgroundColor: isTaken ? colors.successLight : colors.dangerLight }]}>
-        <Ionicons
-          name={isTaken ? "checkmark-circle" : "close-circle"}
-          size={22}
-          color={isTaken ? colors.success : colors.danger}
-        />
+      <View style={[styles.historyIcon, { backgroundColor: statusStyle.bg }]}>
+        <Ionicons name={statusStyle.icon} size={22} color={statusStyle.color} />
       </View>
       <View style={styles.historyInfo}>
         <Text style={[styles.historyMedName, { color: colors.text }]}>{item.medicationName}</Text>
         <Text style={[styles.historyDosage, { color: colors.textSecondary }]}>{item.medicationDosage}</Text>
+        {item.skipReason && (
+          <Text style={[styles.historyDosage, { color: colors.warning }]}>Motivo: {item.skipReason}</Text>
+        )}
+        {item.takenEarly && (
+          <Text style={[styles.historyDosage, { color: colors.warning }]}>Tomada antes do horário</Text>
+        )}
+        {item.performedByName && item.status !== "MISSED" && (
+          <Text style={[styles.historyDosage, { color: colors.tint }]}>Registrado por {item.performedByName}</Text>
+        )}
         <View style={styles.historyMeta}>
           <Ionicons name="calendar-outline" size={12} color={colors.textSecondary} />
           <Text style={[styles.historyMetaText, { color: colors.textSecondary }]}>{day}</Text>
@@ -53,15 +107,82 @@ function HistoryItem({ item, colors }: { item: HistoryEntry; colors: typeof Colo
           <Text style={[styles.historyMetaText, { color: colors.textSecondary }]}>{time}</Text>
         </View>
       </View>
-      <View style={[styles.statusBadge, { backgroundColor: isTaken ? colors.successLight : colors.dangerLight }]}>
-        <Text style={[styles.statusText, { color: isTaken ? colors.success : colors.danger }]}>
-          {isTaken ? "Tomou" : "Perdeu"}
+      <View style={[styles.statusBadge, { backgroundColor: statusStyle.bg }]}>
+        <Text style={[styles.statusText, { color: statusStyle.color }]}>
+          {statusStyle.label}
         </Text>
       </View>
     </View>
   );
 }
 
+function MedicationActions({
+  med, colors, busyAction, onAction, onManage,
+}: {
+  med: DependentMedication;
+  colors: typeof Colors.light;
+  busyAction: DoseAction | null;
+  onAction: (action: DoseAction) => void;
+  onManage: (action: ManageAction) => void;
+}) {
+  const instructions = formatInstructions(med);
+  const lastDose = med.lastDoseAt
+    ? new Date(med.lastDoseAt).toLocaleString("pt-BR", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" })
+    : null;
+  const actions: [DoseAction, keyof typeof Ionicons.glyphMap, string, string][] = med.pausedAt ? [] : [
+    ["take", "checkmark", "Dei a dose", colors.success],
+    ...(med.scheduleType === "AS_NEEDED"
+      ? []
+      : ([
+          ["skip", "play-skip-forward", "Pular", colors.warning],
+          ["snooze", "alarm-outline", "Adiar", colors.tint],
+        ] as [DoseAction, keyof typeof Ionicons.glyphMap, string, string][])),
+  ];
+
+  return (
+    <View style={[styles.medCard, { backgroundColor: colors.surface }, cardShadow(colors.cardShadow)]}>
+      <View style={styles.medHeader}>
+        <View style={styles.medInfo}>
+          <Text style={[styles.historyMedName, { color: colors.text }]}>{med.name}</Text>
+          <Text style={[styles.historyDosage, { color: colors.textSecondary }]}>
+            {med.dosage} · estoque {formatQuantity(med.currentStock, med.doseUnit)}
+          </Text>
+          {lastDose && <Text style={[styles.historyDosage, { color: colors.textSecondary }]}>Última dose {lastDose}</Text>}
+          {instructions && <Text style={[styles.historyDosage, { color: colors.tint }]}>{instructions}</Text>}
+        </View>
+        {([["edit", "create-outline"], ["stock", "cube-outline"], ["archive", "archive-outline"]] as const).map(([action, icon]) => (
+          <Pressable
+            key={action}
+            style={[styles.manageBtn, { backgroundColor: colors.inputBg }]}
+            onPress={() => onManage(action)}
+            hitSlop={4}
+          >
+            <Ionicons name={icon} size={16} color={colors.textSecondary} />
+          </Pressable>
+        ))}
+      </View>
+      {med.pausedAt && <Text style={[styles.historyDosage, { color: colors.warning }]}>Pausado</Text>}
+      <View style={styles.medActions}>
+        {actions.map(([action, icon, label, color]) => (
+          <Pressable
+            key={action}
+            style={({ pressed }) => [styles.medActionBtn, { borderColor: color }, pressed && { opacity: 0.7 }]}
+            disabled={busyAction !== null}
+            onPress={() => onAction(action)}
+          >
+            {busyAction === action ? (
+              <ActivityIndicator size="small" color={color} />
+            ) : (
+              <Ionicons name={icon} size={14} color={color} />
+            )}
+            <Text style={[styles.medActionText, { color }]}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
 type PeriodFilter = "7d" | "30d" | "all";
 
 export default function DependentDetailScreen() {
@@ -70,19 +191,102 @@ export default function DependentDetailScreen() {
   const colors = isDark ? Colors.dark : Colors.light;
   const { id, name } = useLocalSearchParams<{ id: string; name: string }>();
   const [period, setPeriod] = useState<PeriodFilter>("7d");
+  const [takeTarget, setTakeTarget] = useState<DependentMedication | null>(null);
+  const [skipTarget, setSkipTarget] = useState<DependentMedication | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ medId: string; action: DoseAction } | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [stockTarget, setStockTarget] = useState<DependentMedication | null>(null);
+  const [stockText, setStockText] = useState("");
+  const [archiveTarget, setArchiveTarget] = useState<DependentMedication | null>(null);
 
   const historyQuery = useQuery<HistoryEntry[]>({
     queryKey: ["/api/dependents", id, "history"],
     enabled: !!id,
   });
 
-  const medsQuery = useQuery({
+  const medsQuery = useQuery<DependentMedication[]>({
     queryKey: ["/api/dependents", id, "medications"],
     enabled: !!id,
   });
 
+  const doseActionMutation = useMutation({
+    mutationFn: async ({ med, action, reason, takeEarly }: { med: DependentMedication; action: DoseAction; reason?: string; takeEarly?: boolean }) => {
+      setPendingAction({ medId: med.id, action });
+      if (action === "take") {
+        await apiRequest("POST", `/api/medications/${med.id}/take-dose`, takeEarly ? { takeEarly } : undefined);
+      } else if (action === "skip") {
+        await apiRequest("POST", `/api/medications/${med.id}/skip-dose`, { reason });
+      } else {
+        await apiRequest("POST", `/api/medications/${med.id}/snooze-dose`, { minutes: DEFAULT_SNOOZE_MINUTES });
+      }
+    },
+    onSuccess: () => {
+      setPendingAction(null);
+      setTakeTarget(null);
+      setSkipTarget(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+    },
+    onError: (err: any) => {
+      setPendingAction(null);
+      setTakeTarget(null);
+      setSkipTarget(null);
+      setActionError(err?.message || "Não foi possível registrar a ação");
+    },
+  });
+
+  const manageMutation = useMutation({
+    mutationFn: async ({ med, action, currentStock }: { med: DependentMedication; action: "stock" | "archive"; currentStock?: number }) => {
+      if (action === "stock") {
+        await apiRequest("PATCH", `/api/dependents/${id}/medications/${med.id}/stock`, { currentStock });
+      } else {
+        await apiRequest("POST", `/api/dependents/${id}/medications/${med.id}/archive`);
+      }
+    },
+    onSuccess: () => {
+      setStockTarget(null);
+      setArchiveTarget(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+    },
+    onError: (err: any) => {
+      setStockTarget(null);
+      setArchiveTarget(null);
+      setActionError(err?.message || "Não foi possível atualizar o remédio");
+    },
+  });
+
+  const handleManage = (med: DependentMedication, action: ManageAction) => {
+    Haptics.selectionAsync();
+    if (action === "edit") {
+      router.push({ pathname: "/edit-medication", params: { id: med.id, dependentId: id, dependentName: name } });
+    } else if (action === "stock") {
+      setStockText(String(med.currentStock).replace(".", ","));
+      setStockTarget(med);
+    } else {
+      setArchiveTarget(med);
+    }
+  };
+
+  const handleSaveStock = () => {
+    const currentStock = parseDecimalInput(stockText);
+    if (stockTarget && currentStock !== null) {
+      manageMutation.mutate({ med: stockTarget, action: "stock", currentStock });
+    }
+  };
+
+  const handleMedAction = (med: DependentMedication, action: DoseAction) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (action === "take") setTakeTarget(med);
+    else if (action === "skip") setSkipTarget(med);
+    else doseActionMutation.mutate({ med, action });
+  };
+
+  const takeNextDoseTime = takeTarget ? getNextDoseTime(takeTarget, takeTarget.lastDoseAt, Date.now()) : null;
+  const isEarlyTake = !!takeTarget && takeTarget.scheduleType !== "AS_NEEDED" && !isDoseAvailable(takeTarget, takeNextDoseTime, Date.now());
+
   const allHistory = historyQuery.data || [];
-  const meds = (medsQuery.data as any[]) || [];
+  const meds = medsQuery.data || [];
 
   const history = allHistory.filter((entry) => {
     if (period === "all") return true;
@@ -107,7 +311,13 @@ export default function DependentDetailScreen() {
             <Text style={[styles.headerTitle, { color: colors.text }]}>{name || "Dependente"}</Text>
             <Text style={[styles.headerSubtitle, { color: colors.textSecondary }]}>Histórico de doses</Text>
           </View>
-          <View style={{ width: 36 }} />
+          <Pressable
+            onPress={() => router.push({ pathname: "/add-medication", params: { dependentId: id, dependentName: name } })}
+            hitSlop={12}
+            style={[styles.backBtn, { backgroundColor: colors.tintLight }]}
+          >
+            <Ionicons name="add" size={24} color={colors.tint} />
+          </Pressable>
         </View>
       </View>
 
@@ -127,6 +337,11 @@ export default function DependentDetailScreen() {
           <Text style={[styles.summaryValue, { color: colors.danger }]}>{history.filter(h => h.status === "MISSED").length}</Text>
           <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Perdeu</Text>
         </View>
+        <View style={[styles.summaryCard, { backgroundColor: colors.surface }, cardShadow(colors.cardShadow)]}>
+          <Ionicons name="play-skip-forward" size={20} color={colors.warning} />
+          <Text style={[styles.summaryValue, { color: colors.warning }]}>{history.filter(h => h.status === "SKIPPED").length}</Text>
+          <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Pulou</Text>
+        </View>
       </View>
 
       <View style={[styles.periodFilter, { backgroundColor: colors.inputBg }]}>
@@ -170,11 +385,28 @@ export default function DependentDetailScreen() {
             />
           }
           ListHeaderComponent={
-            history.length > 0 ? (
-              <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
-                {history.length} {history.length === 1 ? "registro" : "registros"}
-              </Text>
-            ) : null
+            <>
+              {meds.length > 0 && (
+                <>
+                  <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>Remédios de {name || "dependente"}</Text>
+                  {meds.map((med) => (
+                    <MedicationActions
+                      key={med.id}
+                      med={med}
+                      colors={colors}
+                      busyAction={pendingAction?.medId === med.id ? pendingAction.action : null}
+                      onAction={(action) => handleMedAction(med, action)}
+                      onManage={(action) => handleManage(med, action)}
+                    />
+                  ))}
+                </>
+              )}
+              {history.length > 0 && (
+                <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+                  {history.length} {history.length === 1 ? "registro" : "registros"}
+                </Text>
+              )}
+            </>
           }
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
@@ -189,6 +421,88 @@ export default function DependentDetailScreen() {
           }
         />
       )}
+
+      <ConfirmDialog
+        visible={!!takeTarget}
+        title={isEarlyTake ? "Antes do horário" : "Registrar dose"}
+        message={
+          !takeTarget
+            ? ""
+            : isEarlyTake && takeNextDoseTime !== null
+              ? `A próxima dose de ${takeTarget.name} é às ${new Date(takeNextDoseTime).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}. Se der agora, ela fica registrada como antecipada e os outros cuidadores são avisados.`
+              : `Confirmar que ${name || "o dependente"} tomou ${takeTarget.name} (${takeTarget.dosage}) agora?`
+        }
+        icon={isEarlyTake ? "alarm-outline" : "medical"}
+        iconColor={isEarlyTake ? colors.warning : colors.success}
+        confirmLabel={isEarlyTake ? "Dar mesmo assim" : "Dei a dose"}
+        cancelLabel="Cancelar"
+        confirmColor={isEarlyTake ? colors.warning : colors.success}
+        loading={doseActionMutation.isPending}
+        onConfirm={() => {
+          if (takeTarget) doseActionMutation.mutate({ med: takeTarget, action: "take", takeEarly: isEarlyTake });
+        }}
+        onCancel={() => { if (!doseActionMutation.isPending) setTakeTarget(null); }}
+      />
+
+      <SkipDoseDialog
+        visible={!!skipTarget}
+        loading={doseActionMutation.isPending}
+        onConfirm={(reason) => {
+          if (skipTarget) doseActionMutation.mutate({ med: skipTarget, action: "skip", reason });
+        }}
+        onCancel={() => { if (!doseActionMutation.isPending) setSkipTarget(null); }}
+      />
+
+      <ConfirmDialog
+        visible={!!stockTarget}
+        title="Atualizar estoque"
+        message={stockTarget ? `Quanto de ${stockTarget.name} ${name || "o dependente"} tem agora?` : ""}
+        icon="cube"
+        iconColor={colors.tint}
+        confirmLabel="Salvar"
+        cancelLabel="Cancelar"
+        confirmColor={colors.tint}
+        loading={manageMutation.isPending}
+        onConfirm={handleSaveStock}
+        onCancel={() => { if (!manageMutation.isPending) setStockTarget(null); }}
+      >
+        <TextInput
+          style={[styles.stockInput, { color: colors.text, backgroundColor: colors.inputBg, borderColor: colors.border }]}
+          value={stockText}
+          onChangeText={(text) => setStockText(text.replace(/[^\d.,]/g, "").slice(0, 7))}
+          keyboardType="decimal-pad"
+          autoFocus
+        />
+      </ConfirmDialog>
+
+      <ConfirmDialog
+        visible={!!archiveTarget}
+        title="Arquivar remédio"
+        message={archiveTarget ? `${archiveTarget.name} deixará de aparecer para ${name || "o dependente"} e os lembretes param. O histórico é mantido.` : ""}
+        icon="archive"
+        iconColor={colors.warning}
+        confirmLabel="Arquivar"
+        cancelLabel="Cancelar"
+        confirmColor={colors.warning}
+        loading={manageMutation.isPending}
+        onConfirm={() => {
+          if (archiveTarget) manageMutation.mutate({ med: archiveTarget, action: "archive" });
+        }}
+        onCancel={() => { if (!manageMutation.isPending) setArchiveTarget(null); }}
+      />
+
+      <ConfirmDialog
+        visible={!!actionError}
+        title="Ação não registrada"
+        message={actionError ?? ""}
+        icon="hand-left"
+        iconColor={colors.warning}
+        confirmLabel="OK"
+        confirmColor={colors.warning}
+        singleAction
+        onConfirm={() => setActionError(null)}
+        onCancel={() => setActionError(null)}
+      />
     </View>
   );
 }
@@ -332,6 +646,54 @@ const styles = StyleSheet.create({
     borderRadius: 2,
     marginHorizontal: 2,
   },
+  medCard: {
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    gap: 10,
+  },
+  medHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 6,
+  },
+  medInfo: {
+    flex: 1,
+  },
+  manageBtn: {
+    width: 30,
+    height: 30,
+    borderRadius: 8,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stockInput: {
+    height: 46,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    marginBottom: 20,
+  },
+  medActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  medActionBtn: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 4,
+    height: 34,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  medActionText: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+  },
   statusBadge: {
     borderRadius: 8,
     paddingHorizontal: 10,
@@ -19,30 +19,123 @@ import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
 import { apiRequest, queryClient } from "@/lib/query-client";
 import { useTheme } from "@/lib/theme-context";
+import { useAuth } from "@/lib/auth-context";
 import ConfirmDialog from "@/components/ConfirmDialog";
+import ScheduleTimesEditor from "@/components/ScheduleTimesEditor";
+import RecurrenceEditor, { type RecurrenceValue } from "@/components/RecurrenceEditor";
+import AsNeededLimitsEditor, { type AsNeededLimits } from "@/components/AsNeededLimitsEditor";
+import TreatmentDurationEditor, { type TreatmentDurationValue } from "@/components/TreatmentDurationEditor";
+import ReminderRepeatEditor, { formatReminderRepeat } from "@/components/ReminderRepeatEditor";
+import MissedDoseTimingEditor, { type MissedDoseTimingValue } from "@/components/MissedDoseTimingEditor";
+import RefillAlertEditor from "@/components/RefillAlertEditor";
+import DosePhasesEditor, { parseDosePhaseDrafts, toDosePhaseDrafts, type DosePhaseDraft } from "@/components/DosePhasesEditor";
+import DoseQuantityEditor, { type DoseQuantityValue } from "@/components/DoseQuantityEditor";
+import MedicationInfoEditor, {
+  EMPTY_MEDICATION_INFO,
+  parseMedicationInfoDraft,
+  toMedicationInfoDraft,
+  type MedicationInfoDraft,
+} from "@/components/MedicationInfoEditor";
 import { scheduleNextDoseNotification, cancelMedicationNotifications } from "@/lib/push-notifications";
+import { formatDateInput, getDeviceTimeZone, parseDateInput, parseDecimalInput } from "@/lib/medication-schedule";
+import {
+  DEFAULT_EARLY_WINDOW_MINUTES,
+  DEFAULT_MISSED_GRACE_MINUTES,
+  DEFAULT_REPEAT_REMINDER_MINUTES,
+  getNextReminderTime,
+  isEarlyWindowWithinGaps,
+  type DosePhase,
+  type RecurrenceType,
+  type ReminderRepeatSettings,
+  type ScheduleType,
+} from "@shared/dose-schedule";
+import { DOSE_UNITS, formatQuantity, getDoseUnitLabel, roundStock, type DoseUnit } from "@shared/dose-units";
+import { formatInstructions } from "@shared/medication-info";
 
 interface Medication {
   id: string;
   name: string;
   dosage: string;
+  doseQuantity: number;
+  doseUnit: string;
   currentStock: number;
   alertThreshold: number;
+  refillAlertDays: number | null;
   intervalInHours: number;
+  scheduleType: string;
+  scheduleTimes: string[];
+  timeZone: string;
+  recurrenceType: string;
+  recurrenceWeekdays: number[];
+  recurrenceEveryNDays: number;
+  startDate: string | null;
+  endDate: string | null;
+  totalDoses: number | null;
+  dosePhases: DosePhase[];
+  maxDosesPer24h: number | null;
+  minHoursBetweenDoses: number | null;
+  repeatReminderMinutes: number | null;
+  repeatReminderLimit: number | null;
+  earlyWindowMinutes: number;
+  missedGraceMinutes: number;
+  caregiverAlertDelayMinutes: number;
+  form: string | null;
+  strengthValue: number | null;
+  strengthUnit: string | null;
+  administrationRoute: string | null;
+  instructions: string[];
+  instructionsNote: string | null;
+  prescriber: string | null;
+  condition: string | null;
   ownerId: string;
 }
 
 export default function EditMedicationScreen() {
   const insets = useSafeAreaInsets();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, dependentId, dependentName } = useLocalSearchParams<{ id: string; dependentId?: string; dependentName?: string }>();
   const { isDark } = useTheme();
+  const { user } = useAuth();
   const colors = isDark ? Colors.dark : Colors.light;
 
   const [name, setName] = useState("");
   const [dosage, setDosage] = useState("");
+  const [doseQuantity, setDoseQuantity] = useState<DoseQuantityValue>({ quantityText: "1", unit: "TABLET" });
+  const [medicationInfo, setMedicationInfo] = useState<MedicationInfoDraft>(EMPTY_MEDICATION_INFO);
   const [currentStock, setCurrentStock] = useState("");
+  const [loadedStock, setLoadedStock] = useState("");
   const [alertThreshold, setAlertThreshold] = useState("");
+  const [refillAlertDays, setRefillAlertDays] = useState<number | null>(null);
   const [intervalInHours, setIntervalInHours] = useState(8);
+  const [scheduleType, setScheduleType] = useState<ScheduleType>("INTERVAL");
+  const [scheduleTimes, setScheduleTimes] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>({
+    recurrenceType: "DAILY",
+    recurrenceWeekdays: [],
+    recurrenceEveryNDays: 1,
+    startDateText: "",
+  });
+  const [asNeededLimits, setAsNeededLimits] = useState<AsNeededLimits>({
+    maxDosesPer24h: null,
+    minHoursBetweenDoses: null,
+  });
+  const [duration, setDuration] = useState<TreatmentDurationValue>({
+    mode: "CONTINUOUS",
+    endDateText: "",
+    totalDosesText: "",
+  });
+  const [dosePhases, setDosePhases] = useState<DosePhaseDraft[]>([]);
+  const [reminderRepeat, setReminderRepeat] = useState<ReminderRepeatSettings | null>(null);
+  const [missedDoseTiming, setMissedDoseTiming] = useState<MissedDoseTimingValue>({
+    earlyWindowMinutes: DEFAULT_EARLY_WINDOW_MINUTES,
+    missedGraceMinutes: DEFAULT_MISSED_GRACE_MINUTES,
+    caregiverAlertDelayMinutes: 0,
+  });
+  const profileReminderLabel = dependentId
+    ? `Segue o padrão do perfil de ${dependentName || "dependente"}`
+    : formatReminderRepeat({
+        repeatReminderMinutes: user?.repeatReminderMinutes ?? DEFAULT_REPEAT_REMINDER_MINUTES,
+        repeatReminderLimit: user?.repeatReminderLimit ?? 0,
+      });
   const [loaded, setLoaded] = useState(false);
   const [dialog, setDialog] = useState<{ title: string; message: string } | null>(null);
   const canDecrementInterval = intervalInHours > 1;
@@ -53,7 +146,7 @@ export default function EditMedicationScreen() {
   };
 
   const medQuery = useQuery<Medication>({
-    queryKey: ["/api/medications", id],
+    queryKey: dependentId ? ["/api/dependents", dependentId, "medications", id] : ["/api/medications", id],
     enabled: !!id,
   });
 
@@ -62,29 +155,102 @@ export default function EditMedicationScreen() {
       const med = medQuery.data;
       setName(med.name);
       setDosage(med.dosage);
-      setCurrentStock(String(med.currentStock));
+      setDoseQuantity({
+        quantityText: String(med.doseQuantity ?? 1).replace(".", ","),
+        unit: DOSE_UNITS.includes(med.doseUnit as DoseUnit) ? (med.doseUnit as DoseUnit) : "TABLET",
+      });
+      setMedicationInfo(toMedicationInfoDraft(med));
+      setCurrentStock(String(med.currentStock).replace(".", ","));
+      setLoadedStock(String(med.currentStock).replace(".", ","));
       setAlertThreshold(String(med.alertThreshold));
+      setRefillAlertDays(med.refillAlertDays ?? null);
       setIntervalInHours(med.intervalInHours);
+      setScheduleType((med.scheduleType as ScheduleType) ?? "INTERVAL");
+      setScheduleTimes(med.scheduleTimes ?? []);
+      setRecurrence({
+        recurrenceType: (med.recurrenceType as RecurrenceType) ?? "DAILY",
+        recurrenceWeekdays: med.recurrenceWeekdays ?? [],
+        recurrenceEveryNDays: med.recurrenceEveryNDays ?? 1,
+        startDateText: formatDateInput(med.startDate),
+      });
+      setDuration({
+        mode: med.totalDoses ? "TOTAL_DOSES" : med.endDate ? "END_DATE" : "CONTINUOUS",
+        endDateText: formatDateInput(med.endDate),
+        totalDosesText: med.totalDoses ? String(med.totalDoses) : "",
+      });
+      setDosePhases(toDosePhaseDrafts(med.dosePhases));
+      setAsNeededLimits({
+        maxDosesPer24h: med.maxDosesPer24h ?? null,
+        minHoursBetweenDoses: med.minHoursBetweenDoses ?? null,
+      });
+      setReminderRepeat(
+        med.repeatReminderLimit !== null
+          ? { repeatReminderLimit: med.repeatReminderLimit, repeatReminderMinutes: med.repeatReminderMinutes ?? DEFAULT_REPEAT_REMINDER_MINUTES }
+          : null
+      );
+      setMissedDoseTiming({
+        earlyWindowMinutes: med.earlyWindowMinutes,
+        missedGraceMinutes: med.missedGraceMinutes,
+        caregiverAlertDelayMinutes: med.caregiverAlertDelayMinutes,
+      });
       setLoaded(true);
     }
   }, [medQuery.data, loaded]);
 
+  // Doses and batches change the stock while the form is open; follow them until the field is edited by hand.
+  useEffect(() => {
+    if (!loaded || !medQuery.data) return;
+    const freshStock = String(medQuery.data.currentStock).replace(".", ",");
+    if (currentStock === loadedStock && freshStock !== loadedStock) {
+      setCurrentStock(freshStock);
+      setLoadedStock(freshStock);
+    }
+  }, [medQuery.data, loaded, currentStock, loadedStock]);
+
   const updateMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("PATCH", `/api/medications/${id}`, {
+      const res = await apiRequest("PATCH", dependentId ? `/api/dependents/${dependentId}/medications/${id}` : `/api/medications/${id}`, {
         name: name.trim(),
         dosage: dosage.trim(),
-        currentStock: parseInt(currentStock, 10) || 0,
+        doseQuantity: parseDecimalInput(doseQuantity.quantityText) ?? 1,
+        doseUnit: doseQuantity.unit,
+        currentStock: currentStock !== loadedStock ? parseDecimalInput(currentStock) ?? 0 : undefined,
         alertThreshold: parseInt(alertThreshold, 10) || 0,
+        refillAlertDays: scheduleType === "AS_NEEDED" ? null : refillAlertDays,
         intervalInHours,
+        scheduleType,
+        scheduleTimes,
+        // The dependent's reminders keep following their own time zone, not the caregiver's phone.
+        timeZone: dependentId ? medQuery.data?.timeZone ?? getDeviceTimeZone() : getDeviceTimeZone(),
+        recurrenceType: recurrence.recurrenceType,
+        recurrenceWeekdays: recurrence.recurrenceWeekdays,
+        recurrenceEveryNDays: recurrence.recurrenceEveryNDays,
+        startDate: parseDateInput(recurrence.startDateText),
+        maxDosesPer24h: scheduleType === "AS_NEEDED" ? asNeededLimits.maxDosesPer24h : null,
+        minHoursBetweenDoses: scheduleType === "AS_NEEDED" ? asNeededLimits.minHoursBetweenDoses : null,
+        endDate: duration.mode === "END_DATE" ? parseDateInput(duration.endDateText) : null,
+        totalDoses: duration.mode === "TOTAL_DOSES" ? parseInt(duration.totalDosesText, 10) || null : null,
+        dosePhases: parseDosePhaseDrafts(dosePhases) ?? [],
+        repeatReminderMinutes: reminderRepeat?.repeatReminderMinutes ?? null,
+        repeatReminderLimit: reminderRepeat?.repeatReminderLimit ?? null,
+        ...missedDoseTiming,
+        ...parseMedicationInfoDraft(medicationInfo),
       });
       return res.json();
     },
     onSuccess: async (data) => {
+      if (dependentId) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+        router.back();
+        return;
+      }
       if (data && data.id) {
         await cancelMedicationNotifications(data.id);
-        const nextDoseTime = Date.now() + intervalInHours * 60 * 60 * 1000;
-        await scheduleNextDoseNotification(data.id, data.name, nextDoseTime);
+        const nextDoseTime = data.pausedAt ? null : getNextReminderTime(data, Date.now());
+        if (nextDoseTime) {
+          await scheduleNextDoseNotification(data.id, data.name, nextDoseTime, formatInstructions(data));
+        }
       }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
@@ -104,34 +270,79 @@ export default function EditMedicationScreen() {
       showError("Informe a dosagem");
       return;
     }
+    if (!((parseDecimalInput(doseQuantity.quantityText) ?? 0) > 0)) {
+      showError("Informe a quantidade por dose");
+      return;
+    }
+    if (!parseMedicationInfoDraft(medicationInfo)) {
+      showError("Informe a concentração como um número, ex: 500");
+      return;
+    }
+    if (scheduleType === "FIXED_TIMES" && scheduleTimes.length === 0) {
+      showError("Adicione pelo menos um horário");
+      return;
+    }
+    if (scheduleType === "FIXED_TIMES" && !isEarlyWindowWithinGaps(missedDoseTiming.earlyWindowMinutes, scheduleTimes)) {
+      showError("A janela da dose precisa ser menor que o intervalo entre os horários");
+      return;
+    }
+    if (recurrence.recurrenceType === "DAYS_OF_WEEK" && recurrence.recurrenceWeekdays.length === 0) {
+      showError("Selecione pelo menos um dia da semana");
+      return;
+    }
+    if (recurrence.startDateText && !parseDateInput(recurrence.startDateText)) {
+      showError("Informe a data de início no formato DD/MM/AAAA");
+      return;
+    }
+    if (duration.mode === "END_DATE") {
+      const endDate = parseDateInput(duration.endDateText);
+      const startDate = parseDateInput(recurrence.startDateText);
+      if (!endDate) {
+        showError("Informe o último dia do tratamento no formato DD/MM/AAAA");
+        return;
+      }
+      if (startDate && endDate < startDate) {
+        showError("O último dia não pode ser anterior ao início");
+        return;
+      }
+    }
+    if (duration.mode === "TOTAL_DOSES" && !(parseInt(duration.totalDosesText, 10) > 0)) {
+      showError("Informe o total de doses do tratamento");
+      return;
+    }
+    if (!parseDosePhaseDrafts(dosePhases)) {
+      showError("Preencha a dosagem, as unidades e os dias de cada fase");
+      return;
+    }
     updateMutation.mutate();
   };
 
   const handleAddStock = () => {
     Haptics.selectionAsync();
-    const current = parseInt(currentStock, 10) || 0;
+    const current = parseDecimalInput(currentStock) ?? 0;
+    const unitLabel = getDoseUnitLabel(doseQuantity.unit);
     if (Alert.prompt) {
       Alert.prompt(
         "Adicionar estoque",
-        "Quantas unidades deseja adicionar?",
+        `Quanto deseja adicionar (${unitLabel})?`,
         [
           { text: "Cancelar", style: "cancel" },
           {
             text: "Adicionar",
             onPress: (val: string | undefined) => {
-              const add = parseInt(val || "0", 10);
-              if (add > 0) setCurrentStock(String(current + add));
+              const add = parseDecimalInput(val || "") ?? 0;
+              if (add > 0) setCurrentStock(String(roundStock(current + add)).replace(".", ","));
             },
           },
         ],
         "plain-text",
         "",
-        "number-pad"
+        "decimal-pad"
       );
       return;
     }
 
-    setCurrentStock(String(current + 10));
+    setCurrentStock(String(roundStock(current + 10)).replace(".", ","));
   };
 
   if (medQuery.isLoading) {
@@ -157,7 +368,9 @@ export default function EditMedicationScreen() {
           <View style={[styles.bigIcon, { backgroundColor: colors.tintLight }]}>
             <Ionicons name="create" size={36} color={colors.tint} />
           </View>
-          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>Edite os detalhes do medicamento</Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {dependentId ? `Edite o medicamento de ${dependentName || "dependente"}` : "Edite os detalhes do medicamento"}
+          </Text>
         </View>
 
         <Text style={[styles.label, { color: colors.text }]}>Nome do medicamento</Text>
@@ -184,50 +397,106 @@ export default function EditMedicationScreen() {
           />
         </View>
 
-        <Text style={[styles.label, { color: colors.text }]}>Intervalo entre doses</Text>
-        <View style={styles.intervalControlRow}>
-          <Pressable
-            style={({ pressed }) => [
-              styles.intervalAdjustBtn,
-              { backgroundColor: colors.surface, borderColor: colors.border },
-              !canDecrementInterval && { opacity: 0.5 },
-              pressed && canDecrementInterval && styles.intervalBtnPressed,
-            ]}
-            disabled={!canDecrementInterval}
-            onPress={() => {
-              if (!canDecrementInterval) return;
-              Haptics.selectionAsync();
-              setIntervalInHours((prev) => Math.max(1, prev - 1));
-            }}
-          >
-            <Ionicons name="remove" size={20} color={colors.text} />
-          </Pressable>
-
-          <View style={[styles.intervalValueBox, { backgroundColor: colors.tintLight, borderColor: colors.tint }]}>
-            <Text style={[styles.intervalValueText, { color: colors.tint }]}>{intervalInHours}h</Text>
-          </View>
+        <Text style={[styles.label, { color: colors.text }]}>Quantidade por dose</Text>
+        <DoseQuantityEditor value={doseQuantity} onChange={setDoseQuantity} />
 
-          <Pressable
-            style={({ pressed }) => [
-              styles.intervalAdjustBtn,
-              { backgroundColor: colors.surface, borderColor: colors.border },
-              !canIncrementInterval && { opacity: 0.5 },
-              pressed && canIncrementInterval && styles.intervalBtnPressed,
-            ]}
-            disabled={!canIncrementInterval}
-            onPress={() => {
-              if (!canIncrementInterval) return;
-              Haptics.selectionAsync();
-              setIntervalInHours((prev) => Math.min(24, prev + 1));
-            }}
-          >
-            <Ionicons name="add" size={20} color={colors.text} />
-          </Pressable>
+        <Text style={[styles.label, { color: colors.text }]}>Detalhes da receita (opcional)</Text>
+        <MedicationInfoEditor value={medicationInfo} onChange={setMedicationInfo} />
+
+        <Text style={[styles.label, { color: colors.text }]}>Tipo de agendamento</Text>
+        <View style={[styles.typeSelector, { backgroundColor: colors.inputBg }]}>
+          {([["INTERVAL", "Intervalo"], ["FIXED_TIMES", "Horários fixos"], ["AS_NEEDED", "Se necessário"]] as [ScheduleType, string][]).map(([value, label]) => (
+            <Pressable
+              key={value}
+              style={[styles.typeOption, scheduleType === value && { backgroundColor: colors.surface }]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setScheduleType(value);
+              }}
+            >
+              <Text style={[styles.typeOptionText, { color: scheduleType === value ? colors.tint : colors.textSecondary }]}>{label}</Text>
+            </Pressable>
+          ))}
         </View>
 
+        {scheduleType === "INTERVAL" ? (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Intervalo entre doses</Text>
+            <View style={styles.intervalControlRow}>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.intervalAdjustBtn,
+                  { backgroundColor: colors.surface, borderColor: colors.border },
+                  !canDecrementInterval && { opacity: 0.5 },
+                  pressed && canDecrementInterval && styles.intervalBtnPressed,
+                ]}
+                disabled={!canDecrementInterval}
+                onPress={() => {
+                  if (!canDecrementInterval) return;
+                  Haptics.selectionAsync();
+                  setIntervalInHours((prev) => Math.max(1, prev - 1));
+                }}
+              >
+                <Ionicons name="remove" size={20} color={colors.text} />
+              </Pressable>
+
+              <View style={[styles.intervalValueBox, { backgroundColor: colors.tintLight, borderColor: colors.tint }]}>
+                <Text style={[styles.intervalValueText, { color: colors.tint }]}>{intervalInHours}h</Text>
+              </View>
+
+              <Pressable
+                style={({ pressed }) => [
+                  styles.intervalAdjustBtn,
+                  { backgroundColor: colors.surface, borderColor: colors.border },
+                  !canIncrementInterval && { opacity: 0.5 },
+                  pressed && canIncrementInterval && styles.intervalBtnPressed,
+                ]}
+                disabled={!canIncrementInterval}
+                onPress={() => {
+                  if (!canIncrementInterval) return;
+                  Haptics.selectionAsync();
+                  setIntervalInHours((prev) => Math.min(24, prev + 1));
+                }}
+              >
+                <Ionicons name="add" size={20} color={colors.text} />
+              </Pressable>
+            </View>
+          </>
+        ) : scheduleType === "FIXED_TIMES" ? (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Horários do dia</Text>
+            <ScheduleTimesEditor times={scheduleTimes} onChange={setScheduleTimes} />
+          </>
+        ) : (
+          <AsNeededLimitsEditor value={asNeededLimits} onChange={setAsNeededLimits} />
+        )}
+
+        {scheduleType !== "AS_NEEDED" && (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Repetição</Text>
+            <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+
+            <Text style={[styles.label, { color: colors.text }]}>Lembretes repetidos</Text>
+            <ReminderRepeatEditor value={reminderRepeat} onChange={setReminderRepeat} inheritLabel={profileReminderLabel} />
+
+            <Text style={[styles.label, { color: colors.text }]}>Janela da dose</Text>
+            <MissedDoseTimingEditor
+              value={missedDoseTiming}
+              onChange={setMissedDoseTiming}
+              scheduleTimes={scheduleType === "FIXED_TIMES" ? scheduleTimes : []}
+            />
+          </>
+        )}
+
+        <Text style={[styles.label, { color: colors.text }]}>Duração do tratamento</Text>
+        <TreatmentDurationEditor value={duration} onChange={setDuration} />
+
+        <Text style={[styles.label, { color: colors.text }]}>Fases de dose (opcional)</Text>
+        <DosePhasesEditor phases={dosePhases} onChange={setDosePhases} />
+
         <View style={styles.stockRow}>
           <View style={styles.stockField}>
-            <Text style={[styles.label, { color: colors.text }]}>Estoque atual</Text>
+            <Text style={[styles.label, { color: colors.text }]}>Estoque atual ({getDoseUnitLabel(doseQuantity.unit)})</Text>
             <View style={styles.stockInputRow}>
               <View style={[styles.inputWrapper, { flex: 1, backgroundColor: colors.surface, borderColor: colors.border }]}>
                 <Ionicons name="cube-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
@@ -237,7 +506,7 @@ export default function EditMedicationScreen() {
                   placeholderTextColor={colors.textSecondary}
                   value={currentStock}
                   onChangeText={setCurrentStock}
-                  keyboardType="number-pad"
+                  keyboardType="decimal-pad"
                 />
               </View>
               <Pressable
@@ -265,13 +534,47 @@ export default function EditMedicationScreen() {
           </View>
         </View>
 
+        <Pressable
+          style={({ pressed }) => [styles.batchesLink, pressed && { opacity: 0.7 }]}
+          onPress={() => router.push({ pathname: "/medication-stock", params: { id } })}
+        >
+          <Ionicons name="calendar-outline" size={16} color={colors.tint} />
+          <Text style={[styles.batchesLinkText, { color: colors.tint }]}>Lotes e validade</Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.tint} />
+        </Pressable>
+
+        <Pressable
+          style={({ pressed }) => [styles.batchesLink, pressed && { opacity: 0.7 }]}
+          onPress={() => router.push({ pathname: "/medication-restocks", params: { id } })}
+        >
+          <Ionicons name="receipt-outline" size={16} color={colors.tint} />
+          <Text style={[styles.batchesLinkText, { color: colors.tint }]}>Compras e gastos</Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.tint} />
+        </Pressable>
+
+        <Pressable
+          style={({ pressed }) => [styles.batchesLink, pressed && { opacity: 0.7 }]}
+          onPress={() => router.push({ pathname: "/stock-movements", params: { id } })}
+        >
+          <Ionicons name="swap-vertical-outline" size={16} color={colors.tint} />
+          <Text style={[styles.batchesLinkText, { color: colors.tint }]}>Movimentações do estoque</Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.tint} />
+        </Pressable>
+
         <View style={[styles.infoBox, { backgroundColor: colors.tintLight }]}>
           <Ionicons name="information-circle-outline" size={18} color={colors.tint} />
           <Text style={[styles.infoText, { color: colors.tint }]}>
-            Você será alertado quando o estoque atingir {alertThreshold || "5"} unidades
+            Você será alertado quando o estoque atingir {formatQuantity(parseInt(alertThreshold, 10) || 5, doseQuantity.unit)}
           </Text>
         </View>
 
+        {scheduleType !== "AS_NEEDED" && (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Previsão de reposição</Text>
+            <RefillAlertEditor value={refillAlertDays} onChange={setRefillAlertDays} />
+          </>
+        )}
+
         <Pressable
           style={({ pressed }) => [
             styles.saveBtn,
@@ -358,6 +661,22 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontFamily: "Inter_400Regular",
   },
+  typeSelector: {
+    flexDirection: "row",
+    borderRadius: 12,
+    padding: 4,
+  },
+  typeOption: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 10,
+    paddingVertical: 10,
+  },
+  typeOptionText: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
   intervalControlRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -407,6 +726,16 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     borderWidth: 1,
   },
+  batchesLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 12,
+  },
+  batchesLinkText: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
   infoBox: {
     flexDirection: "row",
     alignItems: "center",
@@ -19,6 +19,8 @@ import Colors from "@/constants/colors";
 import { useAuth } from "@/lib/auth-context";
 import { useTheme } from "@/lib/theme-context";
 import { apiRequest } from "@/lib/query-client";
+import ReminderRepeatEditor from "@/components/ReminderRepeatEditor";
+import { DEFAULT_REPEAT_REMINDER_MINUTES, type ReminderRepeatSettings } from "@shared/dose-schedule";
 
 export default function EditProfileScreen() {
   const { user, refreshUser } = useAuth();
@@ -28,6 +30,10 @@ export default function EditProfileScreen() {
 
   const [name, setName] = useState(user?.name || "");
   const [email, setEmail] = useState(user?.email || "");
+  const [reminderRepeat, setReminderRepeat] = useState<ReminderRepeatSettings>({
+    repeatReminderMinutes: user?.repeatReminderMinutes ?? DEFAULT_REPEAT_REMINDER_MINUTES,
+    repeatReminderLimit: user?.repeatReminderLimit ?? 0,
+  });
   const [saving, setSaving] = useState(false);
 
   const handleSave = async () => {
@@ -40,6 +46,7 @@ export default function EditProfileScreen() {
       await apiRequest("PATCH", "/api/auth/profile", {
         name: name.trim(),
         email: email.trim(),
+        ...reminderRepeat,
       });
       await refreshUser();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -96,6 +103,12 @@ export default function EditProfileScreen() {
           />
         </View>
 
+        <Text style={[styles.label, { color: colors.text }]}>Lembretes repetidos</Text>
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          Enquanto uma dose não for confirmada, o lembrete é enviado de novo. Cada medicamento pode usar um valor próprio.
+        </Text>
+        <ReminderRepeatEditor value={reminderRepeat} onChange={(value) => value && setReminderRepeat(value)} />
+
         <View style={[styles.infoBox, { backgroundColor: colors.tintLight }]}>
           <Ionicons name="information-circle-outline" size={18} color={colors.tint} />
           <Text style={[styles.infoText, { color: colors.tint }]}>
@@ -156,6 +169,10 @@ const styles = StyleSheet.create({
     marginBottom: 6,
     marginTop: 12,
   },
+  hint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
   inputWrapper: {
     flexDirection: "row",
     alignItems: "center",
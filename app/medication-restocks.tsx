@@ -0,0 +1,520 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+  Platform,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { apiRequest, queryClient } from "@/lib/query-client";
+import { useTheme } from "@/lib/theme-context";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import { formatDateInput, maskDateInput, parseDateInput, parseDecimalInput } from "@/lib/medication-schedule";
+import { dayToDateString, getLocalDay } from "@shared/dose-schedule";
+import { formatQuantity, getDoseUnitLabel, roundStock } from "@shared/dose-units";
+import {
+  MAX_PHARMACY_LENGTH,
+  MAX_RESTOCK_NOTE_LENGTH,
+  SPENDING_MONTHS,
+  formatMonth,
+  formatPrice,
+  getRecentMonths,
+  parsePriceInput,
+  summarizeSpending,
+} from "@shared/restocks";
+
+interface Restock {
+  id: string;
+  medId: string;
+  quantity: number;
+  purchasedOn: string;
+  priceCents: number | null;
+  pharmacy: string | null;
+  note: string | null;
+}
+
+interface RestockLedger {
+  medName: string;
+  doseUnit: string;
+  timeZone: string;
+  restocks: Restock[];
+}
+
+interface RestockDraft {
+  quantityText: string;
+  purchasedOnText: string;
+  priceText: string;
+  pharmacy: string;
+  note: string;
+}
+
+const EMPTY_DRAFT: RestockDraft = { quantityText: "", purchasedOnText: "", priceText: "", pharmacy: "", note: "" };
+
+export default function MedicationRestocksScreen() {
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const [draft, setDraft] = useState<RestockDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [removeTarget, setRemoveTarget] = useState<Restock | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const ledgerQuery = useQuery<RestockLedger>({
+    queryKey: ["/api/medications", id, "restocks"],
+    enabled: !!id,
+  });
+
+  const onChanged = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/spending"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shopping-list"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (restock: {
+      quantity?: number;
+      purchasedOn: string;
+      priceCents: number | null;
+      pharmacy: string | null;
+      note: string | null;
+    }) => {
+      if (editingId) {
+        await apiRequest("PATCH", `/api/medications/${id}/restocks/${editingId}`, restock);
+      } else {
+        await apiRequest("POST", `/api/medications/${id}/restocks`, restock);
+      }
+    },
+    onSuccess: () => {
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+      onChanged();
+    },
+    onError: (err: any) => {
+      setError(err?.message || "Não foi possível salvar a compra");
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (restock: Restock) => {
+      await apiRequest("DELETE", `/api/medications/${id}/restocks/${restock.id}`);
+    },
+    onSuccess: () => {
+      setRemoveTarget(null);
+      onChanged();
+    },
+    onError: (err: any) => {
+      setRemoveTarget(null);
+      setError(err?.message || "Não foi possível remover a compra");
+    },
+  });
+
+  if (ledgerQuery.isLoading || !ledgerQuery.data) {
+    return (
+      <View style={[styles.container, styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </View>
+    );
+  }
+
+  const { medName, doseUnit, timeZone, restocks } = ledgerQuery.data;
+  const todayDate = dayToDateString(getLocalDay(Date.now(), timeZone));
+  const monthly = summarizeSpending(restocks, new Map([[id, medName]]), getRecentMonths(todayDate.slice(0, 7), SPENDING_MONTHS));
+  const periodTotal = monthly.reduce((sum, month) => sum + month.totalCents, 0);
+
+  const handleSave = () => {
+    const quantity = parseDecimalInput(draft.quantityText);
+    const purchasedOn = draft.purchasedOnText ? parseDateInput(draft.purchasedOnText) : todayDate;
+    const priceCents = draft.priceText.trim() ? parsePriceInput(draft.priceText) : null;
+    if (!editingId && (quantity === null || quantity <= 0)) {
+      setError("Informe a quantidade comprada");
+      return;
+    }
+    if (!purchasedOn) {
+      setError("Informe a data no formato DD/MM/AAAA");
+      return;
+    }
+    if (draft.priceText.trim() && priceCents === null) {
+      setError("Informe o preço no formato 0,00");
+      return;
+    }
+    saveMutation.mutate({
+      quantity: editingId || quantity === null ? undefined : roundStock(quantity),
+      purchasedOn,
+      priceCents,
+      pharmacy: draft.pharmacy.trim() || null,
+      note: draft.note.trim() || null,
+    });
+  };
+
+  const handleEdit = (restock: Restock) => {
+    Haptics.selectionAsync();
+    setEditingId(restock.id);
+    setDraft({
+      quantityText: String(restock.quantity).replace(".", ","),
+      purchasedOnText: formatDateInput(restock.purchasedOn),
+      priceText: restock.priceCents !== null ? (restock.priceCents / 100).toFixed(2).replace(".", ",") : "",
+      pharmacy: restock.pharmacy ?? "",
+      note: restock.note ?? "",
+    });
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      keyboardVerticalOffset={90}
+    >
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + (Platform.OS === "web" ? 34 : 0) + 24 }]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={[styles.summaryCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.summaryName, { color: colors.text }]}>{medName}</Text>
+          <Text style={[styles.summaryTotal, { color: colors.tint }]}>{formatPrice(monthly[0].totalCents)}</Text>
+          <Text style={[styles.summaryHint, { color: colors.textSecondary }]}>
+            gastos em {formatMonth(monthly[0].month)} · {formatPrice(periodTotal)} nos últimos {SPENDING_MONTHS} meses
+          </Text>
+        </View>
+
+        {periodTotal > 0 && (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Gastos por mês</Text>
+            <View style={[styles.monthCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              {monthly.map((month) => (
+                <View key={month.month} style={styles.monthRow}>
+                  <Text style={[styles.monthLabel, { color: colors.textSecondary }]}>{formatMonth(month.month)}</Text>
+                  <Text style={[styles.monthTotal, { color: colors.text }]}>{formatPrice(month.totalCents)}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={[styles.label, { color: colors.text }]}>Compras</Text>
+        {restocks.length === 0 && (
+          <Text style={[styles.summaryHint, { color: colors.textSecondary }]}>
+            Registre cada compra para acompanhar o estoque e quanto foi gasto.
+          </Text>
+        )}
+        {restocks.map((restock) => (
+          <Pressable
+            key={restock.id}
+            style={({ pressed }) => [
+              styles.restockCard,
+              { backgroundColor: colors.surface, borderColor: editingId === restock.id ? colors.tint : colors.border },
+              pressed && { opacity: 0.8 },
+            ]}
+            onPress={() => handleEdit(restock)}
+          >
+            <View style={styles.restockInfo}>
+              <Text style={[styles.restockTitle, { color: colors.text }]}>
+                {formatQuantity(restock.quantity, doseUnit)}
+                {restock.priceCents !== null ? ` · ${formatPrice(restock.priceCents)}` : ""}
+              </Text>
+              <Text style={[styles.restockMeta, { color: colors.textSecondary }]}>
+                {formatDateInput(restock.purchasedOn)}
+                {restock.pharmacy ? ` · ${restock.pharmacy}` : ""}
+              </Text>
+              {restock.note && (
+                <Text style={[styles.restockMeta, { color: colors.textSecondary }]}>{restock.note}</Text>
+              )}
+            </View>
+            <Pressable
+              style={[styles.removeBtn, { backgroundColor: colors.inputBg }]}
+              onPress={() => setRemoveTarget(restock)}
+              hitSlop={4}
+            >
+              <Ionicons name="trash-outline" size={16} color={colors.danger} />
+            </Pressable>
+          </Pressable>
+        ))}
+
+        <Text style={[styles.label, { color: colors.text }]}>{editingId ? "Editar compra" : "Nova compra"}</Text>
+        <View style={styles.formRow}>
+          <View
+            style={[
+              styles.inputWrapper,
+              { flex: 1, backgroundColor: colors.surface, borderColor: colors.border },
+              !!editingId && { opacity: 0.5 },
+            ]}
+          >
+            <Ionicons name="cube-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder={`Qtd. (${getDoseUnitLabel(doseUnit)})`}
+              placeholderTextColor={colors.textSecondary}
+              value={draft.quantityText}
+              onChangeText={(text) => setDraft({ ...draft, quantityText: text.replace(/[^\d.,]/g, "").slice(0, 7) })}
+              keyboardType="decimal-pad"
+              editable={!editingId}
+            />
+          </View>
+          <View style={[styles.inputWrapper, { flex: 1, backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder="Hoje"
+              placeholderTextColor={colors.textSecondary}
+              value={draft.purchasedOnText}
+              onChangeText={(text) => setDraft({ ...draft, purchasedOnText: maskDateInput(text) })}
+              keyboardType="number-pad"
+              maxLength={10}
+            />
+          </View>
+        </View>
+        {editingId && (
+          <Text style={[styles.summaryHint, { color: colors.textSecondary, marginTop: 6 }]}>
+            Para corrigir a quantidade, remova a compra e registre de novo.
+          </Text>
+        )}
+        <View style={[styles.formRow, { marginTop: 8 }]}>
+          <View style={[styles.inputWrapper, { flex: 1, backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="cash-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder="Preço (R$)"
+              placeholderTextColor={colors.textSecondary}
+              value={draft.priceText}
+              onChangeText={(text) => setDraft({ ...draft, priceText: text.replace(/[^\d.,]/g, "").slice(0, 10) })}
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={[styles.inputWrapper, { flex: 1, backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="storefront-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder="Farmácia"
+              placeholderTextColor={colors.textSecondary}
+              value={draft.pharmacy}
+              onChangeText={(pharmacy) => setDraft({ ...draft, pharmacy })}
+              maxLength={MAX_PHARMACY_LENGTH}
+            />
+          </View>
+        </View>
+        <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border, marginTop: 8 }]}>
+          <Ionicons name="create-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+          <TextInput
+            style={[styles.input, { color: colors.text }]}
+            placeholder="Observação (opcional)"
+            placeholderTextColor={colors.textSecondary}
+            value={draft.note}
+            onChangeText={(note) => setDraft({ ...draft, note })}
+            maxLength={MAX_RESTOCK_NOTE_LENGTH}
+          />
+        </View>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.saveBtn,
+            { backgroundColor: colors.tint },
+            pressed && styles.saveBtnPressed,
+            saveMutation.isPending && styles.saveBtnDisabled,
+          ]}
+          onPress={handleSave}
+          disabled={saveMutation.isPending}
+        >
+          {saveMutation.isPending ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name={editingId ? "checkmark" : "add"} size={22} color="#fff" />
+              <Text style={styles.saveBtnText}>{editingId ? "Salvar compra" : "Registrar compra"}</Text>
+            </>
+          )}
+        </Pressable>
+        {editingId && (
+          <Pressable
+            style={styles.cancelEdit}
+            onPress={() => {
+              setEditingId(null);
+              setDraft(EMPTY_DRAFT);
+            }}
+          >
+            <Text style={[styles.cancelEditText, { color: colors.textSecondary }]}>Cancelar edição</Text>
+          </Pressable>
+        )}
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={!!removeTarget}
+        title="Remover compra"
+        message={
+          removeTarget
+            ? `A compra de ${formatDateInput(removeTarget.purchasedOn)} sai do histórico e ${formatQuantity(removeTarget.quantity, doseUnit)} saem do estoque.`
+            : ""
+        }
+        icon="trash-outline"
+        iconColor={colors.danger}
+        confirmLabel="Remover"
+        cancelLabel="Cancelar"
+        confirmColor={colors.danger}
+        loading={removeMutation.isPending}
+        onConfirm={() => {
+          if (removeTarget) removeMutation.mutate(removeTarget);
+        }}
+        onCancel={() => { if (!removeMutation.isPending) setRemoveTarget(null); }}
+      />
+
+      <ConfirmDialog
+        visible={!!error}
+        title="Não foi possível salvar"
+        message={error ?? ""}
+        icon="alert-circle"
+        iconColor={colors.danger}
+        confirmLabel="OK"
+        confirmColor={colors.danger}
+        singleAction
+        onConfirm={() => setError(null)}
+        onCancel={() => setError(null)}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: 20,
+  },
+  summaryCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    alignItems: "center",
+    gap: 4,
+  },
+  summaryName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  summaryTotal: {
+    fontSize: 22,
+    fontFamily: "Inter_700Bold",
+  },
+  summaryHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 6,
+    marginTop: 20,
+  },
+  monthCard: {
+    borderRadius: 14,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  monthRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+  },
+  monthLabel: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+  },
+  monthTotal: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  restockCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 8,
+  },
+  restockInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  restockTitle: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  restockMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  removeBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    height: 52,
+    borderWidth: 1,
+  },
+  inputIcon: {
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 14,
+    height: 52,
+    marginTop: 16,
+    gap: 8,
+  },
+  saveBtnPressed: {
+    opacity: 0.85,
+    transform: [{ scale: 0.98 }],
+  },
+  saveBtnDisabled: {
+    opacity: 0.6,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: "#fff",
+  },
+  cancelEdit: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  cancelEditText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
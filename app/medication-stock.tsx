@@ -0,0 +1,426 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+  Platform,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { apiRequest, queryClient } from "@/lib/query-client";
+import { useTheme } from "@/lib/theme-context";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import { formatDateInput, maskDateInput, parseDateInput, parseDecimalInput } from "@/lib/medication-schedule";
+import { getLocalDay } from "@shared/dose-schedule";
+import { formatQuantity, getDoseUnitLabel, roundStock } from "@shared/dose-units";
+import { MAX_LOT_NUMBER_LENGTH, getBatchExpiryStatus, getBatchTotal, getDaysUntilExpiry } from "@shared/stock-batches";
+
+interface StockBatch {
+  id: string;
+  quantity: number;
+  expiresOn: string;
+  lotNumber: string | null;
+}
+
+interface StockOverview {
+  medName: string;
+  currentStock: number;
+  doseUnit: string;
+  timeZone: string;
+  batches: StockBatch[];
+}
+
+interface BatchDraft {
+  quantityText: string;
+  expiresOnText: string;
+  lotNumber: string;
+}
+
+const EMPTY_DRAFT: BatchDraft = { quantityText: "", expiresOnText: "", lotNumber: "" };
+
+function formatDaysLeft(daysLeft: number): string {
+  if (daysLeft < 0) return "Vencido";
+  if (daysLeft === 0) return "Vence hoje";
+  return `Vence em ${daysLeft} dia${daysLeft > 1 ? "s" : ""}`;
+}
+
+export default function MedicationStockScreen() {
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const [draft, setDraft] = useState<BatchDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [discardTarget, setDiscardTarget] = useState<StockBatch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stockQuery = useQuery<StockOverview>({
+    queryKey: ["/api/medications", id, "batches"],
+    enabled: !!id,
+  });
+
+  const onChanged = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (batch: { quantity: number; expiresOn: string; lotNumber: string | null }) => {
+      if (editingId) {
+        await apiRequest("PATCH", `/api/medications/${id}/batches/${editingId}`, batch);
+      } else {
+        await apiRequest("POST", `/api/medications/${id}/batches`, batch);
+      }
+    },
+    onSuccess: () => {
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+      onChanged();
+    },
+    onError: (err: any) => {
+      setError(err?.message || "Não foi possível salvar o lote");
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (batch: StockBatch) => {
+      await apiRequest("DELETE", `/api/medications/${id}/batches/${batch.id}`);
+    },
+    onSuccess: () => {
+      setDiscardTarget(null);
+      onChanged();
+    },
+    onError: (err: any) => {
+      setDiscardTarget(null);
+      setError(err?.message || "Não foi possível descartar o lote");
+    },
+  });
+
+  const handleSave = () => {
+    const quantity = parseDecimalInput(draft.quantityText);
+    const expiresOn = parseDateInput(draft.expiresOnText);
+    if (quantity === null || quantity <= 0) {
+      setError("Informe a quantidade do lote");
+      return;
+    }
+    if (!expiresOn) {
+      setError("Informe a validade no formato DD/MM/AAAA");
+      return;
+    }
+    saveMutation.mutate({ quantity: roundStock(quantity), expiresOn, lotNumber: draft.lotNumber.trim() || null });
+  };
+
+  const handleEdit = (batch: StockBatch) => {
+    Haptics.selectionAsync();
+    setEditingId(batch.id);
+    setDraft({
+      quantityText: String(batch.quantity).replace(".", ","),
+      expiresOnText: formatDateInput(batch.expiresOn),
+      lotNumber: batch.lotNumber ?? "",
+    });
+  };
+
+  if (stockQuery.isLoading || !stockQuery.data) {
+    return (
+      <View style={[styles.container, styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </View>
+    );
+  }
+
+  const { medName, currentStock, doseUnit, timeZone, batches } = stockQuery.data;
+  const today = getLocalDay(Date.now(), timeZone);
+  const untrackedStock = roundStock(Math.max(0, currentStock - getBatchTotal(batches)));
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      keyboardVerticalOffset={90}
+    >
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + (Platform.OS === "web" ? 34 : 0) + 24 }]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={[styles.summaryCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.summaryName, { color: colors.text }]}>{medName}</Text>
+          <Text style={[styles.summaryStock, { color: colors.tint }]}>{formatQuantity(currentStock, doseUnit)}</Text>
+          {untrackedStock > 0 && (
+            <Text style={[styles.summaryHint, { color: colors.textSecondary }]}>
+              {formatQuantity(untrackedStock, doseUnit)} sem lote cadastrado
+            </Text>
+          )}
+        </View>
+
+        <Text style={[styles.label, { color: colors.text }]}>Lotes</Text>
+        {batches.length === 0 && (
+          <Text style={[styles.summaryHint, { color: colors.textSecondary }]}>
+            Cadastre cada caixa com a validade para usar primeiro a que vence antes.
+          </Text>
+        )}
+        {batches.map((batch) => {
+          const status = getBatchExpiryStatus(batch, today);
+          const statusColor = status === "EXPIRED" ? colors.danger : status === "EXPIRING_SOON" ? colors.warning : colors.success;
+          return (
+            <Pressable
+              key={batch.id}
+              style={({ pressed }) => [
+                styles.batchCard,
+                { backgroundColor: colors.surface, borderColor: editingId === batch.id ? colors.tint : colors.border },
+                pressed && { opacity: 0.8 },
+              ]}
+              onPress={() => handleEdit(batch)}
+            >
+              <View style={styles.batchInfo}>
+                <Text style={[styles.batchQuantity, { color: colors.text }]}>{formatQuantity(batch.quantity, doseUnit)}</Text>
+                <Text style={[styles.batchMeta, { color: colors.textSecondary }]}>
+                  Validade {formatDateInput(batch.expiresOn)}
+                  {batch.lotNumber ? ` · lote ${batch.lotNumber}` : ""}
+                </Text>
+                <Text style={[styles.batchMeta, { color: statusColor, fontFamily: "Inter_600SemiBold" }]}>
+                  {formatDaysLeft(getDaysUntilExpiry(batch, today))}
+                </Text>
+              </View>
+              <Pressable
+                style={[styles.discardBtn, { backgroundColor: colors.inputBg }]}
+                onPress={() => setDiscardTarget(batch)}
+                hitSlop={4}
+              >
+                <Ionicons name="trash-outline" size={16} color={colors.danger} />
+              </Pressable>
+            </Pressable>
+          );
+        })}
+
+        <Text style={[styles.label, { color: colors.text }]}>{editingId ? "Editar lote" : "Novo lote"}</Text>
+        <View style={styles.formRow}>
+          <View style={[styles.inputWrapper, { flex: 1, backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="cube-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder={`Qtd. (${getDoseUnitLabel(doseUnit)})`}
+              placeholderTextColor={colors.textSecondary}
+              value={draft.quantityText}
+              onChangeText={(text) => setDraft({ ...draft, quantityText: text.replace(/[^\d.,]/g, "").slice(0, 7) })}
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={[styles.inputWrapper, { flex: 1, backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder="Validade"
+              placeholderTextColor={colors.textSecondary}
+              value={draft.expiresOnText}
+              onChangeText={(text) => setDraft({ ...draft, expiresOnText: maskDateInput(text) })}
+              keyboardType="number-pad"
+              maxLength={10}
+            />
+          </View>
+        </View>
+        <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border, marginTop: 8 }]}>
+          <Ionicons name="barcode-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+          <TextInput
+            style={[styles.input, { color: colors.text }]}
+            placeholder="Lote (opcional)"
+            placeholderTextColor={colors.textSecondary}
+            value={draft.lotNumber}
+            onChangeText={(lotNumber) => setDraft({ ...draft, lotNumber })}
+            maxLength={MAX_LOT_NUMBER_LENGTH}
+            autoCapitalize="characters"
+          />
+        </View>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.saveBtn,
+            { backgroundColor: colors.tint },
+            pressed && styles.saveBtnPressed,
+            saveMutation.isPending && styles.saveBtnDisabled,
+          ]}
+          onPress={handleSave}
+          disabled={saveMutation.isPending}
+        >
+          {saveMutation.isPending ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name={editingId ? "checkmark" : "add"} size={22} color="#fff" />
+              <Text style={styles.saveBtnText}>{editingId ? "Salvar lote" : "Adicionar lote"}</Text>
+            </>
+          )}
+        </Pressable>
+        {editingId && (
+          <Pressable
+            style={styles.cancelEdit}
+            onPress={() => {
+              setEditingId(null);
+              setDraft(EMPTY_DRAFT);
+            }}
+          >
+            <Text style={[styles.cancelEditText, { color: colors.textSecondary }]}>Cancelar edição</Text>
+          </Pressable>
+        )}
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={!!discardTarget}
+        title="Descartar lote"
+        message={
+          discardTarget
+            ? `${formatQuantity(discardTarget.quantity, doseUnit)} com validade ${formatDateInput(discardTarget.expiresOn)} saem do estoque.`
+            : ""
+        }
+        icon="trash-outline"
+        iconColor={colors.danger}
+        confirmLabel="Descartar"
+        cancelLabel="Cancelar"
+        confirmColor={colors.danger}
+        loading={discardMutation.isPending}
+        onConfirm={() => {
+          if (discardTarget) discardMutation.mutate(discardTarget);
+        }}
+        onCancel={() => { if (!discardMutation.isPending) setDiscardTarget(null); }}
+      />
+
+      <ConfirmDialog
+        visible={!!error}
+        title="Não foi possível salvar"
+        message={error ?? ""}
+        icon="alert-circle"
+        iconColor={colors.danger}
+        confirmLabel="OK"
+        confirmColor={colors.danger}
+        singleAction
+        onConfirm={() => setError(null)}
+        onCancel={() => setError(null)}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: 20,
+  },
+  summaryCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    alignItems: "center",
+    gap: 4,
+  },
+  summaryName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  summaryStock: {
+    fontSize: 22,
+    fontFamily: "Inter_700Bold",
+  },
+  summaryHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 6,
+    marginTop: 20,
+  },
+  batchCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 8,
+  },
+  batchInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  batchQuantity: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  batchMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  discardBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    height: 52,
+    borderWidth: 1,
+  },
+  inputIcon: {
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 14,
+    height: 52,
+    marginTop: 16,
+    gap: 8,
+  },
+  saveBtnPressed: {
+    opacity: 0.85,
+    transform: [{ scale: 0.98 }],
+  },
+  saveBtnDisabled: {
+    opacity: 0.6,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: "#fff",
+  },
+  cancelEdit: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  cancelEditText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
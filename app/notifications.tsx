@@ -19,6 +19,9 @@ import { useTheme } from "@/lib/theme-context";
 import { cardShadow } from "@/lib/shadows";
 import { apiRequest, queryClient } from "@/lib/query-client";
 import { scheduleNextDoseNotification, cancelMedicationNotifications } from "@/lib/push-notifications";
+import SkipDoseDialog from "@/components/SkipDoseDialog";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import { DEFAULT_SNOOZE_MINUTES } from "@shared/dose-schedule";
 
 interface Notification {
   id: string;
@@ -28,6 +31,8 @@ interface Notification {
   message: string;
   read: boolean;
   relatedId: string | null;
+  doseScheduleId: string | null;
+  acknowledgedAt: string | null;
   createdAt: string;
 }
 
@@ -90,10 +95,26 @@ function getNotificationIcon(type: string): { name: keyof typeof Ionicons.glyphM
       return { name: "alarm-outline", colorKey: "tint" };
     case "DOSE_MISSED":
       return { name: "alert-circle-outline", colorKey: "danger" };
+    case "DOSE_SKIPPED":
+      return { name: "play-skip-forward-outline", colorKey: "warning" };
+    case "DOSE_TAKEN_EARLY":
+      return { name: "timer-outline", colorKey: "warning" };
     case "STOCK_LOW":
       return { name: "cube-outline", colorKey: "warning" };
     case "STOCK_EMPTY":
       return { name: "cube", colorKey: "danger" };
+    case "EXPIRING_SOON":
+      return { name: "calendar-outline", colorKey: "warning" };
+    case "REFILL_DUE":
+      return { name: "hourglass-outline", colorKey: "warning" };
+    case "PRN_LIMIT_REACHED":
+      return { name: "hand-left-outline", colorKey: "warning" };
+    case "TREATMENT_FINISHED":
+      return { name: "flag-outline", colorKey: "success" };
+    case "MEDICATION_RESUMED":
+      return { name: "play-circle-outline", colorKey: "tint" };
+    case "MEDICATION_CHANGED":
+      return { name: "create-outline", colorKey: "tint" };
     case "CONNECTION_REQUEST":
       return { name: "person-add-outline", colorKey: "tint" };
     case "CONNECTION_ACCEPTED":
@@ -118,19 +139,29 @@ function NotificationCard({
   onPress,
   onTakeNow,
   onSkip,
+  onSnooze,
+  onAcknowledge,
   isTaking,
+  isSnoozing,
+  isAcknowledging,
 }: {
   notification: Notification;
   colors: typeof Colors.light;
   onPress: () => void;
   onTakeNow?: () => void;
   onSkip?: () => void;
+  onSnooze?: () => void;
+  onAcknowledge?: () => void;
   isTaking?: boolean;
+  isSnoozing?: boolean;
+  isAcknowledging?: boolean;
 }) {
   const icon = getNotificationIcon(notification.type);
   const iconColor = colors[icon.colorKey];
   const iconBg = getIconBgColor(icon.colorKey, colors);
-  const isDoseAction = notification.type === "DOSE_DUE" || notification.type === "DOSE_MISSED";
+  // Missed-dose alerts that belong to an escalation chain are acknowledged instead of acted on.
+  const canAcknowledge = notification.type === "DOSE_MISSED" && !!notification.doseScheduleId;
+  const isDoseAction = notification.type === "DOSE_DUE" || (notification.type === "DOSE_MISSED" && !canAcknowledge);
 
   return (
     <Pressable
@@ -183,6 +214,54 @@ function NotificationCard({
             >
               <Text style={[styles.actionBtnText, { color: colors.textSecondary }]}>Pular</Text>
             </Pressable>
+            {notification.type === "DOSE_DUE" && (
+              <Pressable
+                style={({ pressed }) => [styles.actionBtn, { backgroundColor: colors.warningLight }, pressed && { opacity: 0.7 }]}
+                onPress={(e) => {
+                  e.stopPropagation();
+                  onSnooze?.();
+                }}
+                disabled={isSnoozing}
+              >
+                {isSnoozing ? (
+                  <ActivityIndicator size="small" color={colors.warning} />
+                ) : (
+                  <>
+                    <Ionicons name="alarm-outline" size={14} color={colors.warning} />
+                    <Text style={[styles.actionBtnText, { color: colors.warning }]}>Adiar {DEFAULT_SNOOZE_MINUTES} min</Text>
+                  </>
+                )}
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        {canAcknowledge && (
+          <View style={styles.actionRow}>
+            {notification.acknowledgedAt ? (
+              <View style={[styles.actionBtn, { backgroundColor: colors.successLight }]}>
+                <Ionicons name="checkmark-done" size={14} color={colors.success} />
+                <Text style={[styles.actionBtnText, { color: colors.success }]}>Ciente</Text>
+              </View>
+            ) : (
+              <Pressable
+                style={({ pressed }) => [styles.actionBtn, { backgroundColor: colors.dangerLight }, pressed && { opacity: 0.7 }]}
+                onPress={(e) => {
+                  e.stopPropagation();
+                  onAcknowledge?.();
+                }}
+                disabled={isAcknowledging}
+              >
+                {isAcknowledging ? (
+                  <ActivityIndicator size="small" color={colors.danger} />
+                ) : (
+                  <>
+                    <Ionicons name="hand-right-outline" size={14} color={colors.danger} />
+                    <Text style={[styles.actionBtnText, { color: colors.danger }]}>Estou ciente</Text>
+                  </>
+                )}
+              </Pressable>
+            )}
           </View>
         )}
       </View>
@@ -195,6 +274,10 @@ export default function NotificationsScreen() {
   const { isDark } = useTheme();
   const colors = isDark ? Colors.dark : Colors.light;
   const [takingId, setTakingId] = React.useState<string | null>(null);
+  const [skipTarget, setSkipTarget] = React.useState<Notification | null>(null);
+  const [snoozingId, setSnoozingId] = React.useState<string | null>(null);
+  const [snoozeError, setSnoozeError] = React.useState<string | null>(null);
+  const [acknowledgingId, setAcknowledgingId] = React.useState<string | null>(null);
 
   const notificationsQuery = useQuery<Notification[]>({
     queryKey: ["/api/notifications"],
@@ -222,15 +305,17 @@ export default function NotificationsScreen() {
 
   const takeDoseMutation = useMutation({
     mutationFn: async ({ medId, notifId }: { medId: string; notifId: string }) => {
-      await apiRequest("POST", `/api/medications/${medId}/take-dose`);
-      return { medId, notifId };
+      const res = await apiRequest("POST", `/api/medications/${medId}/take-dose`);
+      const result: { medName: string; instructions: string | null; nextDoseAt: number | null } = await res.json();
+      return { medId, notifId, ...result };
     },
-    onSuccess: async ({ medId, notifId }) => {
+    onSuccess: async ({ medId, notifId, medName, instructions, nextDoseAt }) => {
       setTakingId(null);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       await cancelMedicationNotifications(medId);
-      const nextDoseTime = Date.now() + 8 * 60 * 60 * 1000; // fallback 8h
-      await scheduleNextDoseNotification(medId, "", nextDoseTime);
+      if (nextDoseAt) {
+        await scheduleNextDoseNotification(medId, medName, nextDoseAt, instructions);
+      }
       markReadMutation.mutate(notifId);
       queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
       queryClient.invalidateQueries({ queryKey: ["/api/schedules/history"] });
@@ -240,6 +325,62 @@ export default function NotificationsScreen() {
     },
   });
 
+  const skipDoseMutation = useMutation({
+    mutationFn: async ({ medId, notifId, reason }: { medId: string; notifId: string; reason: string }) => {
+      const res = await apiRequest("POST", `/api/medications/${medId}/skip-dose`, { reason });
+      const result: { medName: string; instructions: string | null; nextDoseAt: number | null } = await res.json();
+      return { medId, notifId, ...result };
+    },
+    onSuccess: async ({ medId, notifId, medName, instructions, nextDoseAt }) => {
+      setSkipTarget(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await cancelMedicationNotifications(medId);
+      if (nextDoseAt) {
+        await scheduleNextDoseNotification(medId, medName, nextDoseAt, instructions);
+      }
+      markReadMutation.mutate(notifId);
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules/history"] });
+    },
+    onError: () => {
+      setSkipTarget(null);
+    },
+  });
+
+  const snoozeDoseMutation = useMutation({
+    mutationFn: async ({ medId, notifId }: { medId: string; notifId: string }) => {
+      const res = await apiRequest("POST", `/api/medications/${medId}/snooze-dose`, { minutes: DEFAULT_SNOOZE_MINUTES });
+      const result: { medName: string; instructions: string | null; snoozedUntil: number } = await res.json();
+      return { medId, notifId, ...result };
+    },
+    onSuccess: async ({ medId, notifId, medName, instructions, snoozedUntil }) => {
+      setSnoozingId(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await cancelMedicationNotifications(medId);
+      await scheduleNextDoseNotification(medId, medName, snoozedUntil, instructions);
+      markReadMutation.mutate(notifId);
+    },
+    onError: (err: any) => {
+      setSnoozingId(null);
+      setSnoozeError(err?.message || "Não foi possível adiar a dose.");
+    },
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/acknowledge`);
+    },
+    onSuccess: () => {
+      setAcknowledgingId(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+    },
+    onError: () => {
+      setAcknowledgingId(null);
+    },
+  });
+
   const notifications = notificationsQuery.data || [];
   const sections = groupNotificationsByDate(notifications);
 
@@ -255,7 +396,23 @@ export default function NotificationsScreen() {
     takeDoseMutation.mutate({ medId: notification.relatedId, notifId: notification.id });
   };
 
+  const handleSnooze = (notification: Notification) => {
+    if (!notification.relatedId) return;
+    setSnoozingId(notification.id);
+    snoozeDoseMutation.mutate({ medId: notification.relatedId, notifId: notification.id });
+  };
+
+  const handleAcknowledge = (notification: Notification) => {
+    setAcknowledgingId(notification.id);
+    acknowledgeMutation.mutate(notification.id);
+  };
+
   const handleSkip = (notification: Notification) => {
+    // Caregivers dismiss missed-dose alerts; only the patient's own reminder can be skipped.
+    if (notification.type === "DOSE_DUE" && notification.relatedId) {
+      setSkipTarget(notification);
+      return;
+    }
     markReadMutation.mutate(notification.id);
   };
 
@@ -319,7 +476,11 @@ export default function NotificationsScreen() {
               onPress={() => handleNotificationPress(item)}
               onTakeNow={() => handleTakeNow(item)}
               onSkip={() => handleSkip(item)}
+              onSnooze={() => handleSnooze(item)}
+              onAcknowledge={() => handleAcknowledge(item)}
               isTaking={takingId === item.id}
+              isSnoozing={snoozingId === item.id}
+              isAcknowledging={acknowledgingId === item.id}
             />
           )}
           renderSectionHeader={({ section }) => (
@@ -344,6 +505,32 @@ export default function NotificationsScreen() {
           }
         />
       )}
+
+      <SkipDoseDialog
+        visible={!!skipTarget}
+        loading={skipDoseMutation.isPending}
+        onConfirm={(reason) => {
+          if (skipTarget?.relatedId) {
+            skipDoseMutation.mutate({ medId: skipTarget.relatedId, notifId: skipTarget.id, reason });
+          }
+        }}
+        onCancel={() => {
+          if (!skipDoseMutation.isPending) setSkipTarget(null);
+        }}
+      />
+
+      <ConfirmDialog
+        visible={!!snoozeError}
+        title="Não foi possível adiar"
+        message={snoozeError ?? ""}
+        icon="alarm-outline"
+        iconColor={colors.warning}
+        confirmLabel="OK"
+        confirmColor={colors.warning}
+        singleAction
+        onConfirm={() => setSnoozeError(null)}
+        onCancel={() => setSnoozeError(null)}
+      />
     </View>
   );
 }
@@ -444,6 +631,7 @@ const styles = StyleSheet.create({
   },
   actionRow: {
     flexDirection: "row",
+    flexWrap: "wrap",
     gap: 8,
     marginTop: 10,
   },
@@ -0,0 +1,384 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator, ScrollView, Platform } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { apiRequest, queryClient } from "@/lib/query-client";
+import { useAuth } from "@/lib/auth-context";
+import { useTheme } from "@/lib/theme-context";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import EmptyState from "@/components/EmptyState";
+import { formatRunOutLabel, parseDecimalInput } from "@/lib/medication-schedule";
+import { dayToDateString, getLocalDay } from "@shared/dose-schedule";
+import { formatQuantity, getDoseUnitLabel, roundStock } from "@shared/dose-units";
+import { MAX_PHARMACY_LENGTH, formatPrice, parsePriceInput } from "@shared/restocks";
+import { SHOPPING_LIST_DAY_OPTIONS, type ShoppingListReason } from "@shared/shopping-list";
+
+interface ShoppingListItem {
+  medId: string;
+  medName: string;
+  dosage: string;
+  doseUnit: string;
+  timeZone: string;
+  ownerId: string;
+  ownerName: string;
+  isOwn: boolean;
+  currentStock: number;
+  daysOfSupply: number | null;
+  runsOutOn: string | null;
+  reason: ShoppingListReason;
+  lastRestock: { quantity: number; priceCents: number | null; pharmacy: string | null } | null;
+}
+
+interface ShoppingList {
+  withinDays: number;
+  items: ShoppingListItem[];
+}
+
+interface PurchaseDraft {
+  quantityText: string;
+  priceText: string;
+  pharmacy: string;
+}
+
+const REASON_LABELS: Record<ShoppingListReason, string> = {
+  OUT_OF_STOCK: "Sem estoque",
+  LOW_STOCK: "Estoque baixo",
+  RUNS_OUT_SOON: "Acaba em breve",
+};
+
+export default function ShoppingListScreen() {
+  const insets = useSafeAreaInsets();
+  const { refreshUser } = useAuth();
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const [purchaseTarget, setPurchaseTarget] = useState<ShoppingListItem | null>(null);
+  const [draft, setDraft] = useState<PurchaseDraft>({ quantityText: "", priceText: "", pharmacy: "" });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const listQuery = useQuery<ShoppingList>({
+    queryKey: ["/api/shopping-list"],
+    staleTime: 0,
+  });
+
+  const daysMutation = useMutation({
+    mutationFn: async (shoppingListDays: number) => {
+      await apiRequest("PATCH", "/api/auth/profile", { shoppingListDays });
+    },
+    onSuccess: async () => {
+      await refreshUser();
+      queryClient.invalidateQueries({ queryKey: ["/api/shopping-list"] });
+    },
+  });
+
+  const purchaseMutation = useMutation({
+    mutationFn: async ({ item, ...restock }: {
+      item: ShoppingListItem;
+      quantity: number;
+      priceCents: number | null;
+      pharmacy: string | null;
+    }) => {
+      await apiRequest("POST", `/api/medications/${item.medId}/restocks`, {
+        ...restock,
+        purchasedOn: dayToDateString(getLocalDay(Date.now(), item.timeZone)),
+      });
+    },
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setPurchaseTarget(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/shopping-list"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/spending"] });
+    },
+    onError: (err: any) => {
+      setFormError(err?.message || "Não foi possível registrar a compra");
+    },
+  });
+
+  if (listQuery.isLoading || !listQuery.data) {
+    return (
+      <View style={[styles.container, styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </View>
+    );
+  }
+
+  const { withinDays, items } = listQuery.data;
+  const groups: { ownerId: string; title: string; items: ShoppingListItem[] }[] = [];
+  for (const item of items) {
+    let group = groups.find((g) => g.ownerId === item.ownerId);
+    if (!group) {
+      group = { ownerId: item.ownerId, title: item.isOwn ? "Seus medicamentos" : item.ownerName, items: [] };
+      if (item.isOwn) groups.unshift(group);
+      else groups.push(group);
+    }
+    group.items.push(item);
+  }
+
+  const handleTick = (item: ShoppingListItem) => {
+    Haptics.selectionAsync();
+    setFormError(null);
+    setDraft({
+      quantityText: item.lastRestock ? String(item.lastRestock.quantity).replace(".", ",") : "",
+      priceText:
+        item.lastRestock?.priceCents != null ? (item.lastRestock.priceCents / 100).toFixed(2).replace(".", ",") : "",
+      pharmacy: item.lastRestock?.pharmacy ?? "",
+    });
+    setPurchaseTarget(item);
+  };
+
+  const handleConfirmPurchase = () => {
+    if (!purchaseTarget) return;
+    const quantity = parseDecimalInput(draft.quantityText);
+    const priceCents = draft.priceText.trim() ? parsePriceInput(draft.priceText) : null;
+    if (quantity === null || quantity <= 0) {
+      setFormError("Informe a quantidade comprada");
+      return;
+    }
+    if (draft.priceText.trim() && priceCents === null) {
+      setFormError("Informe o preço no formato 0,00");
+      return;
+    }
+    purchaseMutation.mutate({
+      item: purchaseTarget,
+      quantity: roundStock(quantity),
+      priceCents,
+      pharmacy: draft.pharmacy.trim() || null,
+    });
+  };
+
+  const inputStyle = [styles.input, { color: colors.text, backgroundColor: colors.inputBg, borderColor: colors.border }];
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + (Platform.OS === "web" ? 34 : 0) + 24 }]}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          Remédios com estoque baixo ou que acabam nos próximos dias
+        </Text>
+        <View style={styles.chipRow}>
+          {SHOPPING_LIST_DAY_OPTIONS.map((days) => {
+            const selected = withinDays === days;
+            return (
+              <Pressable
+                key={days}
+                style={[
+                  styles.chip,
+                  { backgroundColor: selected ? colors.tint : colors.surface, borderColor: selected ? colors.tint : colors.border },
+                ]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  daysMutation.mutate(days);
+                }}
+                disabled={daysMutation.isPending}
+              >
+                <Text style={[styles.chipText, { color: selected ? "#fff" : colors.textSecondary }]}>{days} dias</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {groups.length === 0 ? (
+          <EmptyState
+            icon="cart-outline"
+            title="Nada para comprar"
+            subtitle={`Nenhum remédio está acabando nos próximos ${withinDays} dias.`}
+          />
+        ) : (
+          groups.map((group) => (
+            <View key={group.ownerId} style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{group.title}</Text>
+              <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                {group.items.map((item, index) => {
+                  const reasonColor = item.reason === "RUNS_OUT_SOON" ? colors.warning : colors.danger;
+                  const runOut = formatRunOutLabel(item);
+                  return (
+                    <View
+                      key={item.medId}
+                      style={[styles.itemRow, index > 0 && { borderTopColor: colors.border, borderTopWidth: StyleSheet.hairlineWidth }]}
+                    >
+                      <Pressable style={styles.tick} onPress={() => handleTick(item)} hitSlop={8}>
+                        <Ionicons name="ellipse-outline" size={26} color={colors.tint} />
+                      </Pressable>
+                      <View style={styles.itemInfo}>
+                        <Text style={[styles.itemName, { color: colors.text }]} numberOfLines={1}>
+                          {item.medName} <Text style={[styles.itemDosage, { color: colors.textSecondary }]}>{item.dosage}</Text>
+                        </Text>
+                        <Text style={[styles.itemMeta, { color: colors.textSecondary }]}>
+                          {formatQuantity(item.currentStock, item.doseUnit)} em estoque{runOut ? ` · ${runOut}` : ""}
+                        </Text>
+                        {item.lastRestock && (
+                          <Text style={[styles.itemMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                            Última compra: {formatQuantity(item.lastRestock.quantity, item.doseUnit)}
+                            {item.lastRestock.priceCents !== null ? ` · ${formatPrice(item.lastRestock.priceCents)}` : ""}
+                            {item.lastRestock.pharmacy ? ` · ${item.lastRestock.pharmacy}` : ""}
+                          </Text>
+                        )}
+                      </View>
+                      <View style={[styles.reasonBadge, { borderColor: reasonColor }]}>
+                        <Text style={[styles.reasonText, { color: reasonColor }]}>{REASON_LABELS[item.reason]}</Text>
+                      </View>
+                    </View>
+                  );
+                })}
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={!!purchaseTarget}
+        title="Registrar compra"
+        message={
+          purchaseTarget
+            ? `${purchaseTarget.medName} entra no estoque${purchaseTarget.isOwn ? "" : ` de ${purchaseTarget.ownerName}`} com a data de hoje.`
+            : ""
+        }
+        icon="cart"
+        iconColor={colors.tint}
+        confirmLabel="Comprado"
+        cancelLabel="Cancelar"
+        loading={purchaseMutation.isPending}
+        onConfirm={handleConfirmPurchase}
+        onCancel={() => setPurchaseTarget(null)}
+      >
+        <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>
+          Quantidade ({purchaseTarget ? getDoseUnitLabel(purchaseTarget.doseUnit, 2) : ""})
+        </Text>
+        <TextInput
+          style={inputStyle}
+          value={draft.quantityText}
+          onChangeText={(text) => setDraft({ ...draft, quantityText: text.replace(/[^\d.,]/g, "").slice(0, 7) })}
+          keyboardType="decimal-pad"
+          autoFocus
+        />
+        <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>Preço (opcional)</Text>
+        <TextInput
+          style={inputStyle}
+          value={draft.priceText}
+          onChangeText={(text) => setDraft({ ...draft, priceText: text.replace(/[^\d.,]/g, "").slice(0, 10) })}
+          placeholder="0,00"
+          placeholderTextColor={colors.textSecondary}
+          keyboardType="decimal-pad"
+        />
+        <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>Farmácia (opcional)</Text>
+        <TextInput
+          style={inputStyle}
+          value={draft.pharmacy}
+          onChangeText={(text) => setDraft({ ...draft, pharmacy: text })}
+          maxLength={MAX_PHARMACY_LENGTH}
+        />
+        {formError && <Text style={[styles.formError, { color: colors.danger }]}>{formError}</Text>}
+      </ConfirmDialog>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: 20,
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 8,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+  },
+  tick: {
+    width: 28,
+    alignItems: "center",
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  itemDosage: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+  },
+  itemMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  reasonBadge: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  reasonText: {
+    fontSize: 11,
+    fontFamily: "Inter_600SemiBold",
+  },
+  inputLabel: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    marginBottom: 6,
+  },
+  input: {
+    height: 46,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    marginBottom: 12,
+  },
+  formError: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    marginBottom: 12,
+  },
+});
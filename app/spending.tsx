@@ -0,0 +1,155 @@
+import React from "react";
+import { View, Text, StyleSheet, ActivityIndicator, ScrollView, Platform } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useQuery } from "@tanstack/react-query";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { SPENDING_MONTHS, formatMonth, formatPrice, type MonthlySpending } from "@shared/restocks";
+
+interface SpendingOverview {
+  months: MonthlySpending[];
+  dependents: { dependentId: string; name: string; months: MonthlySpending[] }[];
+}
+
+function SpendingSection({ title, months, colors }: { title: string; months: MonthlySpending[]; colors: typeof Colors.light }) {
+  const periodTotal = months.reduce((sum, month) => sum + month.totalCents, 0);
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{title}</Text>
+      <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <View style={styles.totalRow}>
+          <Text style={[styles.totalLabel, { color: colors.textSecondary }]}>Últimos {SPENDING_MONTHS} meses</Text>
+          <Text style={[styles.totalValue, { color: colors.tint }]}>{formatPrice(periodTotal)}</Text>
+        </View>
+        {periodTotal === 0 ? (
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>Nenhuma compra com preço registrada.</Text>
+        ) : (
+          months.map((month) => (
+            <View key={month.month} style={[styles.monthBlock, { borderTopColor: colors.border }]}>
+              <View style={styles.monthRow}>
+                <Text style={[styles.monthLabel, { color: colors.text }]}>{formatMonth(month.month)}</Text>
+                <Text style={[styles.monthTotal, { color: colors.text }]}>{formatPrice(month.totalCents)}</Text>
+              </View>
+              {month.medications.map((med) => (
+                <View key={med.medId} style={styles.medRow}>
+                  <Text style={[styles.medName, { color: colors.textSecondary }]} numberOfLines={1}>{med.medName}</Text>
+                  <Text style={[styles.medTotal, { color: colors.textSecondary }]}>{formatPrice(med.totalCents)}</Text>
+                </View>
+              ))}
+            </View>
+          ))
+        )}
+      </View>
+    </View>
+  );
+}
+
+export default function SpendingScreen() {
+  const insets = useSafeAreaInsets();
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const spendingQuery = useQuery<SpendingOverview>({
+    queryKey: ["/api/spending"],
+  });
+
+  if (spendingQuery.isLoading || !spendingQuery.data) {
+    return (
+      <View style={[styles.container, styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </View>
+    );
+  }
+
+  const { months, dependents } = spendingQuery.data;
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + (Platform.OS === "web" ? 34 : 0) + 24 }]}
+      showsVerticalScrollIndicator={false}
+    >
+      <SpendingSection title="Seus medicamentos" months={months} colors={colors} />
+      {dependents.map((dependent) => (
+        <SpendingSection key={dependent.dependentId} title={dependent.name} months={dependent.months} colors={colors} />
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 8,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  totalRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  totalLabel: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+  },
+  totalValue: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+  },
+  emptyText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    marginTop: 8,
+  },
+  monthBlock: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: 12,
+    paddingTop: 10,
+    gap: 4,
+  },
+  monthRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  monthLabel: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
+  monthTotal: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
+  medRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  medName: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  medTotal: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+});
@@ -0,0 +1,436 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+  Platform,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { apiRequest, queryClient } from "@/lib/query-client";
+import { useTheme } from "@/lib/theme-context";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import { parseDecimalInput } from "@/lib/medication-schedule";
+import { formatQuantity, getDoseUnitLabel, roundStock } from "@shared/dose-units";
+import {
+  MANUAL_STOCK_MOVEMENT_TYPES,
+  MAX_MOVEMENT_NOTE_LENGTH,
+  STOCK_MOVEMENT_LABELS,
+  type StockMovementType,
+  type StockReconciliation,
+} from "@shared/stock-movements";
+
+interface StockMovement {
+  id: string;
+  type: StockMovementType;
+  quantity: number;
+  stockAfter: number;
+  actorName: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface StockMovementLog {
+  medName: string;
+  currentStock: number;
+  doseUnit: string;
+  movements: StockMovement[];
+}
+
+type ManualMovementType = (typeof MANUAL_STOCK_MOVEMENT_TYPES)[number];
+
+const MOVEMENT_ICONS: Record<StockMovementType, keyof typeof Ionicons.glyphMap> = {
+  OPENING_BALANCE: "flag-outline",
+  DOSE: "medical-outline",
+  RESTOCK: "cart-outline",
+  CORRECTION: "create-outline",
+  EXPIRED_DISCARD: "calendar-outline",
+  LOST: "help-circle-outline",
+};
+
+function formatSignedQuantity(quantity: number, doseUnit: string): string {
+  return `${quantity > 0 ? "+" : "−"}${formatQuantity(Math.abs(quantity), doseUnit)}`;
+}
+
+export default function StockMovementsScreen() {
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const [type, setType] = useState<ManualMovementType>("LOST");
+  const [isIncoming, setIsIncoming] = useState(false);
+  const [quantityText, setQuantityText] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const logQuery = useQuery<StockMovementLog>({
+    queryKey: ["/api/medications", id, "stock-movements"],
+    enabled: !!id,
+  });
+  const reconciliationQuery = useQuery<StockReconciliation>({
+    queryKey: ["/api/medications", id, "stock-reconciliation"],
+    enabled: !!id,
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async (movement: { type: ManualMovementType; quantity: number; note: string | null }) => {
+      await apiRequest("POST", `/api/medications/${id}/stock-movements`, movement);
+    },
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setQuantityText("");
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+    },
+    onError: (err: any) => {
+      setError(err?.message || "Não foi possível registrar a movimentação");
+    },
+  });
+
+  const handleRecord = () => {
+    const quantity = parseDecimalInput(quantityText);
+    if (quantity === null || quantity <= 0) {
+      setError("Informe a quantidade");
+      return;
+    }
+    const signed = type === "CORRECTION" && isIncoming ? quantity : -quantity;
+    recordMutation.mutate({ type, quantity: roundStock(signed), note: note.trim() || null });
+  };
+
+  if (logQuery.isLoading || !logQuery.data) {
+    return (
+      <View style={[styles.container, styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </View>
+    );
+  }
+
+  const { medName, currentStock, doseUnit, movements } = logQuery.data;
+  const reconciliation = reconciliationQuery.data;
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      keyboardVerticalOffset={90}
+    >
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + (Platform.OS === "web" ? 34 : 0) + 24 }]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={[styles.summaryCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.summaryName, { color: colors.text }]}>{medName}</Text>
+          <Text style={[styles.summaryStock, { color: colors.tint }]}>{formatQuantity(currentStock, doseUnit)}</Text>
+        </View>
+
+        {reconciliation && (
+          <View
+            style={[
+              styles.reconciliationBox,
+              { backgroundColor: reconciliation.isBalanced ? colors.successLight : colors.warningLight },
+            ]}
+          >
+            <Ionicons
+              name={reconciliation.isBalanced ? "checkmark-circle-outline" : "alert-circle-outline"}
+              size={18}
+              color={reconciliation.isBalanced ? colors.success : colors.warning}
+            />
+            <Text style={[styles.reconciliationText, { color: reconciliation.isBalanced ? colors.success : colors.warning }]}>
+              {reconciliation.isBalanced
+                ? "O estoque confere com o histórico de movimentações."
+                : reconciliation.difference !== 0
+                  ? `O histórico soma ${formatQuantity(reconciliation.ledgerStock, doseUnit)}: ${formatSignedQuantity(reconciliation.difference, doseUnit)} sem registro.`
+                  : `${reconciliation.gaps.length} alteraç${reconciliation.gaps.length > 1 ? "ões" : "ão"} de estoque sem registro no histórico.`}
+            </Text>
+          </View>
+        )}
+
+        <Text style={[styles.label, { color: colors.text }]}>Registrar saída ou ajuste</Text>
+        <View style={styles.chipRow}>
+          {MANUAL_STOCK_MOVEMENT_TYPES.map((option) => {
+            const selected = type === option;
+            return (
+              <Pressable
+                key={option}
+                style={[
+                  styles.chip,
+                  { backgroundColor: selected ? colors.tint : colors.surface, borderColor: selected ? colors.tint : colors.border },
+                ]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setType(option);
+                }}
+              >
+                <Text style={[styles.chipText, { color: selected ? "#fff" : colors.textSecondary }]}>{STOCK_MOVEMENT_LABELS[option]}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        {type === "CORRECTION" && (
+          <View style={[styles.chipRow, { marginTop: 8 }]}>
+            {([false, true] as const).map((incoming) => {
+              const selected = isIncoming === incoming;
+              return (
+                <Pressable
+                  key={String(incoming)}
+                  style={[
+                    styles.chip,
+                    { backgroundColor: selected ? colors.tintLight : colors.surface, borderColor: selected ? colors.tint : colors.border },
+                  ]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setIsIncoming(incoming);
+                  }}
+                >
+                  <Text style={[styles.chipText, { color: selected ? colors.tint : colors.textSecondary }]}>
+                    {incoming ? "Entrada" : "Saída"}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+        <View style={[styles.formRow, { marginTop: 8 }]}>
+          <View style={[styles.inputWrapper, { flex: 1, backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="cube-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder={`Qtd. (${getDoseUnitLabel(doseUnit)})`}
+              placeholderTextColor={colors.textSecondary}
+              value={quantityText}
+              onChangeText={(text) => setQuantityText(text.replace(/[^\d.,]/g, "").slice(0, 7))}
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={[styles.inputWrapper, { flex: 2, backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder="Motivo (opcional)"
+              placeholderTextColor={colors.textSecondary}
+              value={note}
+              onChangeText={setNote}
+              maxLength={MAX_MOVEMENT_NOTE_LENGTH}
+            />
+          </View>
+        </View>
+        <Pressable
+          style={({ pressed }) => [
+            styles.saveBtn,
+            { backgroundColor: colors.tint },
+            pressed && styles.saveBtnPressed,
+            recordMutation.isPending && styles.saveBtnDisabled,
+          ]}
+          onPress={handleRecord}
+          disabled={recordMutation.isPending}
+        >
+          {recordMutation.isPending ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="checkmark" size={22} color="#fff" />
+              <Text style={styles.saveBtnText}>Registrar</Text>
+            </>
+          )}
+        </Pressable>
+
+        <Text style={[styles.label, { color: colors.text }]}>Histórico</Text>
+        {movements.length === 0 && (
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>Nenhuma movimentação registrada ainda.</Text>
+        )}
+        {movements.map((movement) => {
+          const date = new Date(movement.createdAt);
+          return (
+            <View key={movement.id} style={[styles.movementCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <View style={[styles.movementIcon, { backgroundColor: colors.inputBg }]}>
+                <Ionicons name={MOVEMENT_ICONS[movement.type] ?? "swap-vertical-outline"} size={16} color={colors.textSecondary} />
+              </View>
+              <View style={styles.movementInfo}>
+                <Text style={[styles.movementTitle, { color: colors.text }]}>{STOCK_MOVEMENT_LABELS[movement.type] ?? movement.type}</Text>
+                <Text style={[styles.movementMeta, { color: colors.textSecondary }]}>
+                  {date.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit" })}{" "}
+                  {date.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+                  {movement.actorName ? ` · ${movement.actorName}` : ""}
+                </Text>
+                {movement.note && <Text style={[styles.movementMeta, { color: colors.textSecondary }]}>{movement.note}</Text>}
+              </View>
+              <View style={styles.movementAmounts}>
+                <Text style={[styles.movementQuantity, { color: movement.quantity > 0 ? colors.success : colors.text }]}>
+                  {formatSignedQuantity(movement.quantity, doseUnit)}
+                </Text>
+                <Text style={[styles.movementMeta, { color: colors.textSecondary }]}>= {formatQuantity(movement.stockAfter, doseUnit)}</Text>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={!!error}
+        title="Não foi possível registrar"
+        message={error ?? ""}
+        icon="alert-circle"
+        iconColor={colors.danger}
+        confirmLabel="OK"
+        confirmColor={colors.danger}
+        singleAction
+        onConfirm={() => setError(null)}
+        onCancel={() => setError(null)}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: 20,
+  },
+  summaryCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    alignItems: "center",
+    gap: 4,
+  },
+  summaryName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  summaryStock: {
+    fontSize: 22,
+    fontFamily: "Inter_700Bold",
+  },
+  reconciliationBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+    gap: 8,
+  },
+  reconciliationText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 6,
+    marginTop: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    height: 52,
+    borderWidth: 1,
+  },
+  inputIcon: {
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 14,
+    height: 52,
+    marginTop: 12,
+    gap: 8,
+  },
+  saveBtnPressed: {
+    opacity: 0.85,
+    transform: [{ scale: 0.98 }],
+  },
+  saveBtnDisabled: {
+    opacity: 0.6,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: "#fff",
+  },
+  emptyText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  movementCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 8,
+    gap: 10,
+  },
+  movementIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  movementInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  movementTitle: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
+  movementMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  movementAmounts: {
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  movementQuantity: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
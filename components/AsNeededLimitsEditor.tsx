@@ -0,0 +1,118 @@
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+
+export interface AsNeededLimits {
+  maxDosesPer24h: number | null;
+  minHoursBetweenDoses: number | null;
+}
+
+interface AsNeededLimitsEditorProps {
+  value: AsNeededLimits;
+  onChange: (value: AsNeededLimits) => void;
+}
+
+interface LimitStepperProps {
+  label: string;
+  value: number | null;
+  max: number;
+  format: (value: number) => string;
+  onChange: (value: number | null) => void;
+}
+
+// Stepping below 1 clears the limit, so each guardrail stays optional.
+function LimitStepper({ label, value, max, format, onChange }: LimitStepperProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+  const canDecrement = value !== null;
+  const canIncrement = value === null || value < max;
+
+  return (
+    <>
+      <Text style={[styles.label, { color: colors.text }]}>{label}</Text>
+      <View style={styles.stepperRow}>
+        <Pressable
+          style={[styles.stepperBtn, { backgroundColor: colors.surface, borderColor: colors.border }, !canDecrement && { opacity: 0.5 }]}
+          disabled={!canDecrement}
+          onPress={() => {
+            Haptics.selectionAsync();
+            onChange(value !== null && value > 1 ? value - 1 : null);
+          }}
+        >
+          <Ionicons name="remove" size={20} color={colors.text} />
+        </Pressable>
+        <View style={[styles.stepperValue, { backgroundColor: colors.tintLight, borderColor: colors.tint }]}>
+          <Text style={[styles.stepperValueText, { color: colors.tint }]}>{value === null ? "Sem limite" : format(value)}</Text>
+        </View>
+        <Pressable
+          style={[styles.stepperBtn, { backgroundColor: colors.surface, borderColor: colors.border }, !canIncrement && { opacity: 0.5 }]}
+          disabled={!canIncrement}
+          onPress={() => {
+            Haptics.selectionAsync();
+            onChange(value === null ? 1 : value + 1);
+          }}
+        >
+          <Ionicons name="add" size={20} color={colors.text} />
+        </Pressable>
+      </View>
+    </>
+  );
+}
+
+export default function AsNeededLimitsEditor({ value, onChange }: AsNeededLimitsEditorProps) {
+  return (
+    <View>
+      <LimitStepper
+        label="Máximo de doses em 24h"
+        value={value.maxDosesPer24h}
+        max={24}
+        format={(count) => `${count} dose${count !== 1 ? "s" : ""}`}
+        onChange={(maxDosesPer24h) => onChange({ ...value, maxDosesPer24h })}
+      />
+      <LimitStepper
+        label="Intervalo mínimo entre doses"
+        value={value.minHoursBetweenDoses}
+        max={72}
+        format={(hours) => `${hours}h`}
+        onChange={(minHoursBetweenDoses) => onChange({ ...value, minHoursBetweenDoses })}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  stepperBtn: {
+    width: 52,
+    height: 44,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  stepperValue: {
+    flex: 1,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperValueText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
@@ -27,6 +27,7 @@ interface ConfirmDialogProps {
   singleAction?: boolean;
   dismissOnBackdrop?: boolean;
   loading?: boolean;
+  children?: React.ReactNode;
   onConfirm: () => void;
   onCancel: () => void;
 }
@@ -43,6 +44,7 @@ export default function ConfirmDialog({
   singleAction = false,
   dismissOnBackdrop = true,
   loading = false,
+  children,
   onConfirm,
   onCancel,
 }: ConfirmDialogProps) {
@@ -96,6 +98,8 @@ export default function ConfirmDialog({
             {message}
           </Text>
 
+          {children}
+
           <View style={[styles.actions, shouldStackActions && styles.actionsStacked]}>
             {!singleAction && (
               <Pressable
@@ -0,0 +1,167 @@
+import React from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { parseDecimalInput } from "@/lib/medication-schedule";
+import type { DosePhase } from "@shared/dose-schedule";
+
+export interface DosePhaseDraft {
+  dosage: string;
+  quantityText: string;
+  durationDaysText: string;
+}
+
+interface DosePhasesEditorProps {
+  phases: DosePhaseDraft[];
+  onChange: (phases: DosePhaseDraft[]) => void;
+}
+
+const MAX_PHASES = 20;
+
+export function toDosePhaseDrafts(phases: DosePhase[] | null | undefined): DosePhaseDraft[] {
+  return (phases ?? []).map((phase) => ({
+    dosage: phase.dosage,
+    quantityText: String(phase.quantity).replace(".", ","),
+    durationDaysText: String(phase.durationDays),
+  }));
+}
+
+/** Converts the drafts into phases, or returns null when any of them is incomplete. */
+export function parseDosePhaseDrafts(drafts: DosePhaseDraft[]): DosePhase[] | null {
+  const phases = drafts.map((draft) => ({
+    dosage: draft.dosage.trim(),
+    quantity: parseDecimalInput(draft.quantityText) ?? 0,
+    durationDays: parseInt(draft.durationDaysText, 10),
+  }));
+  const isComplete = phases.every((phase) => phase.dosage && phase.quantity > 0 && phase.durationDays > 0);
+  return isComplete ? phases : null;
+}
+
+export default function DosePhasesEditor({ phases, onChange }: DosePhasesEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const updatePhase = (index: number, patch: Partial<DosePhaseDraft>) => {
+    onChange(phases.map((phase, i) => (i === index ? { ...phase, ...patch } : phase)));
+  };
+
+  const handleAdd = () => {
+    Haptics.selectionAsync();
+    onChange([...phases, { dosage: "", quantityText: "1", durationDaysText: "" }]);
+  };
+
+  const handleRemove = (index: number) => {
+    Haptics.selectionAsync();
+    onChange(phases.filter((_, i) => i !== index));
+  };
+
+  return (
+    <View>
+      {phases.map((phase, index) => (
+        <View key={index} style={[styles.phaseCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <View style={styles.phaseHeader}>
+            <Text style={[styles.phaseTitle, { color: colors.text }]}>Fase {index + 1}</Text>
+            <Pressable onPress={() => handleRemove(index)} hitSlop={8}>
+              <Ionicons name="close" size={18} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+          <TextInput
+            style={[styles.input, { color: colors.text, backgroundColor: colors.inputBg }]}
+            placeholder="Dosagem (ex: 40mg)"
+            placeholderTextColor={colors.textSecondary}
+            value={phase.dosage}
+            onChangeText={(dosage) => updatePhase(index, { dosage })}
+          />
+          <View style={styles.numberRow}>
+            <View style={styles.numberField}>
+              <Text style={[styles.numberLabel, { color: colors.textSecondary }]}>Quantidade por dose</Text>
+              <TextInput
+                style={[styles.input, { color: colors.text, backgroundColor: colors.inputBg }]}
+                placeholder="1"
+                placeholderTextColor={colors.textSecondary}
+                value={phase.quantityText}
+                onChangeText={(text) => updatePhase(index, { quantityText: text.replace(/[^\d.,]/g, "").slice(0, 6) })}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <View style={styles.numberField}>
+              <Text style={[styles.numberLabel, { color: colors.textSecondary }]}>Dias</Text>
+              <TextInput
+                style={[styles.input, { color: colors.text, backgroundColor: colors.inputBg }]}
+                placeholder="3"
+                placeholderTextColor={colors.textSecondary}
+                value={phase.durationDaysText}
+                onChangeText={(text) => updatePhase(index, { durationDaysText: text.replace(/\D/g, "").slice(0, 3) })}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+        </View>
+      ))}
+
+      {phases.length < MAX_PHASES && (
+        <Pressable
+          style={({ pressed }) => [styles.addBtn, { borderColor: colors.tint }, pressed && { opacity: 0.7 }]}
+          onPress={handleAdd}
+        >
+          <Ionicons name="add" size={18} color={colors.tint} />
+          <Text style={[styles.addBtnText, { color: colors.tint }]}>Adicionar fase</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  phaseCard: {
+    borderRadius: 14,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 10,
+    gap: 8,
+  },
+  phaseHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  phaseTitle: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  input: {
+    height: 44,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+  numberRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  numberField: {
+    flex: 1,
+    gap: 4,
+  },
+  numberLabel: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+  },
+  addBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  addBtnText: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
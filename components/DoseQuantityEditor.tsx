@@ -0,0 +1,99 @@
+import React from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { DOSE_UNITS, getDoseUnitLabel, type DoseUnit } from "@shared/dose-units";
+
+export interface DoseQuantityValue {
+  quantityText: string;
+  unit: DoseUnit;
+}
+
+interface DoseQuantityEditorProps {
+  value: DoseQuantityValue;
+  onChange: (value: DoseQuantityValue) => void;
+}
+
+export default function DoseQuantityEditor({ value, onChange }: DoseQuantityEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  return (
+    <View>
+      <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <Ionicons name="eyedrop-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+        <TextInput
+          style={[styles.input, { color: colors.text }]}
+          placeholder="1"
+          placeholderTextColor={colors.textSecondary}
+          value={value.quantityText}
+          onChangeText={(text) => onChange({ ...value, quantityText: text.replace(/[^\d.,]/g, "").slice(0, 6) })}
+          keyboardType="decimal-pad"
+        />
+        <Text style={[styles.unitSuffix, { color: colors.textSecondary }]}>{getDoseUnitLabel(value.unit)} por dose</Text>
+      </View>
+
+      <View style={styles.unitRow}>
+        {DOSE_UNITS.map((unit) => {
+          const selected = value.unit === unit;
+          return (
+            <Pressable
+              key={unit}
+              style={[
+                styles.unitChip,
+                { backgroundColor: selected ? colors.tint : colors.surface, borderColor: selected ? colors.tint : colors.border },
+              ]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                onChange({ ...value, unit });
+              }}
+            >
+              <Text style={[styles.unitChipText, { color: selected ? "#fff" : colors.textSecondary }]}>{getDoseUnitLabel(unit)}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    height: 52,
+    borderWidth: 1,
+  },
+  inputIcon: {
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+  unitSuffix: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+  },
+  unitRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 10,
+  },
+  unitChip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  unitChipText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
@@ -0,0 +1,120 @@
+import React from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { maskTimeInput } from "@/lib/medication-schedule";
+import { CLOCK_TIME_PATTERN } from "@shared/dose-schedule";
+
+export interface DoseTimeDraft {
+  daysAgo: 0 | 1;
+  timeText: string;
+}
+
+interface DoseTimeInputProps {
+  value: DoseTimeDraft;
+  onChange: (value: DoseTimeDraft) => void;
+}
+
+const DAY_OPTIONS = [
+  [0, "Hoje"],
+  [1, "Ontem"],
+] as const;
+
+export function toDoseTimeDraft(millis: number, now = Date.now()): DoseTimeDraft {
+  const date = new Date(millis);
+  const isToday = date.toDateString() === new Date(now).toDateString();
+  const timeText = date.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+  return { daysAgo: isToday ? 0 : 1, timeText };
+}
+
+/** Device-local time the draft points to, or null when the time is incomplete. */
+export function parseDoseTimeDraft(draft: DoseTimeDraft, now = Date.now()): number | null {
+  if (!CLOCK_TIME_PATTERN.test(draft.timeText)) return null;
+  const [hours, minutes] = draft.timeText.split(":").map(Number);
+  const date = new Date(now);
+  date.setDate(date.getDate() - draft.daysAgo);
+  date.setHours(hours, minutes, 0, 0);
+  return date.getTime();
+}
+
+export default function DoseTimeInput({ value, onChange }: DoseTimeInputProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  return (
+    <View style={styles.row}>
+      <View style={[styles.selector, { backgroundColor: colors.inputBg }]}>
+        {DAY_OPTIONS.map(([daysAgo, label]) => {
+          const selected = value.daysAgo === daysAgo;
+          return (
+            <Pressable
+              key={daysAgo}
+              style={[styles.option, selected && { backgroundColor: colors.surface }]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                onChange({ ...value, daysAgo });
+              }}
+            >
+              <Text style={[styles.optionText, { color: selected ? colors.tint : colors.textSecondary }]}>{label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <View style={[styles.inputWrapper, { backgroundColor: colors.inputBg, borderColor: colors.border }]}>
+        <Ionicons name="time-outline" size={16} color={colors.textSecondary} />
+        <TextInput
+          style={[styles.input, { color: colors.text }]}
+          placeholder="08:00"
+          placeholderTextColor={colors.textSecondary}
+          value={value.timeText}
+          onChangeText={(text) => onChange({ ...value, timeText: maskTimeInput(text) })}
+          keyboardType="number-pad"
+          maxLength={5}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 16,
+  },
+  selector: {
+    flex: 1,
+    flexDirection: "row",
+    borderRadius: 12,
+    padding: 4,
+  },
+  option: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 10,
+    paddingVertical: 8,
+  },
+  optionText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 10,
+    height: 44,
+    width: 100,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+});
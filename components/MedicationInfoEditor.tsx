@@ -0,0 +1,262 @@
+import React from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { parseDecimalInput } from "@/lib/medication-schedule";
+import {
+  ADMINISTRATION_ROUTES,
+  ADMINISTRATION_ROUTE_LABELS,
+  DOSE_INSTRUCTIONS,
+  DOSE_INSTRUCTION_LABELS,
+  MAX_CONDITION_LENGTH,
+  MAX_INSTRUCTIONS_NOTE_LENGTH,
+  MAX_PRESCRIBER_LENGTH,
+  MEDICATION_FORMS,
+  MEDICATION_FORM_LABELS,
+  STRENGTH_UNITS,
+  STRENGTH_UNIT_LABELS,
+  type AdministrationRoute,
+  type DoseInstruction,
+  type MedicationForm,
+  type StrengthUnit,
+} from "@shared/medication-info";
+
+export interface MedicationInfoDraft {
+  form: MedicationForm | null;
+  strengthText: string;
+  strengthUnit: StrengthUnit;
+  administrationRoute: AdministrationRoute | null;
+  instructions: DoseInstruction[];
+  instructionsNote: string;
+  prescriber: string;
+  condition: string;
+}
+
+export interface MedicationInfo {
+  form: MedicationForm | null;
+  strengthValue: number | null;
+  strengthUnit: StrengthUnit | null;
+  administrationRoute: AdministrationRoute | null;
+  instructions: DoseInstruction[];
+  instructionsNote: string | null;
+  prescriber: string | null;
+  condition: string | null;
+}
+
+interface MedicationInfoEditorProps {
+  value: MedicationInfoDraft;
+  onChange: (value: MedicationInfoDraft) => void;
+}
+
+export const EMPTY_MEDICATION_INFO: MedicationInfoDraft = {
+  form: null,
+  strengthText: "",
+  strengthUnit: "MG",
+  administrationRoute: null,
+  instructions: [],
+  instructionsNote: "",
+  prescriber: "",
+  condition: "",
+};
+
+export function toMedicationInfoDraft(med: {
+  form: string | null;
+  strengthValue: number | null;
+  strengthUnit: string | null;
+  administrationRoute: string | null;
+  instructions: string[];
+  instructionsNote: string | null;
+  prescriber: string | null;
+  condition: string | null;
+}): MedicationInfoDraft {
+  return {
+    form: med.form as MedicationForm | null,
+    strengthText: med.strengthValue !== null ? String(med.strengthValue).replace(".", ",") : "",
+    strengthUnit: (med.strengthUnit as StrengthUnit | null) ?? "MG",
+    administrationRoute: med.administrationRoute as AdministrationRoute | null,
+    instructions: med.instructions as DoseInstruction[],
+    instructionsNote: med.instructionsNote ?? "",
+    prescriber: med.prescriber ?? "",
+    condition: med.condition ?? "",
+  };
+}
+
+/** Converts the draft into the API fields, or returns null when the strength is not a positive number. */
+export function parseMedicationInfoDraft(draft: MedicationInfoDraft): MedicationInfo | null {
+  const strengthValue = draft.strengthText.trim() ? parseDecimalInput(draft.strengthText) : null;
+  if (draft.strengthText.trim() && !(strengthValue !== null && strengthValue > 0)) return null;
+  return {
+    form: draft.form,
+    strengthValue,
+    strengthUnit: strengthValue !== null ? draft.strengthUnit : null,
+    administrationRoute: draft.administrationRoute,
+    instructions: draft.instructions,
+    instructionsNote: draft.instructionsNote.trim() || null,
+    prescriber: draft.prescriber.trim() || null,
+    condition: draft.condition.trim() || null,
+  };
+}
+
+export default function MedicationInfoEditor({ value, onChange }: MedicationInfoEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      style={[
+        styles.chip,
+        { backgroundColor: selected ? colors.tint : colors.surface, borderColor: selected ? colors.tint : colors.border },
+      ]}
+      onPress={() => {
+        Haptics.selectionAsync();
+        onPress();
+      }}
+    >
+      <Text style={[styles.chipText, { color: selected ? "#fff" : colors.textSecondary }]}>{label}</Text>
+    </Pressable>
+  );
+
+  const toggleInstruction = (instruction: DoseInstruction) => {
+    const instructions = value.instructions.includes(instruction)
+      ? value.instructions.filter((item) => item !== instruction)
+      : [...value.instructions, instruction];
+    onChange({ ...value, instructions });
+  };
+
+  return (
+    <View>
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Forma farmacêutica</Text>
+      <View style={styles.chipRow}>
+        {MEDICATION_FORMS.map((form) =>
+          renderChip(form, MEDICATION_FORM_LABELS[form], value.form === form, () =>
+            onChange({ ...value, form: value.form === form ? null : form })
+          )
+        )}
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Concentração</Text>
+      <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <Ionicons name="beaker-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+        <TextInput
+          style={[styles.input, { color: colors.text }]}
+          placeholder="Ex: 500"
+          placeholderTextColor={colors.textSecondary}
+          value={value.strengthText}
+          onChangeText={(text) => onChange({ ...value, strengthText: text.replace(/[^\d.,]/g, "").slice(0, 8) })}
+          keyboardType="decimal-pad"
+        />
+        <Text style={[styles.unitSuffix, { color: colors.textSecondary }]}>{STRENGTH_UNIT_LABELS[value.strengthUnit]}</Text>
+      </View>
+      <View style={[styles.chipRow, styles.unitRow]}>
+        {STRENGTH_UNITS.map((unit) =>
+          renderChip(unit, STRENGTH_UNIT_LABELS[unit], value.strengthUnit === unit, () => onChange({ ...value, strengthUnit: unit }))
+        )}
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Via de administração</Text>
+      <View style={styles.chipRow}>
+        {ADMINISTRATION_ROUTES.map((route) =>
+          renderChip(route, ADMINISTRATION_ROUTE_LABELS[route], value.administrationRoute === route, () =>
+            onChange({ ...value, administrationRoute: value.administrationRoute === route ? null : route })
+          )
+        )}
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Como tomar</Text>
+      <View style={styles.chipRow}>
+        {DOSE_INSTRUCTIONS.map((instruction) =>
+          renderChip(instruction, DOSE_INSTRUCTION_LABELS[instruction], value.instructions.includes(instruction), () =>
+            toggleInstruction(instruction)
+          )
+        )}
+      </View>
+      <View style={[styles.inputWrapper, styles.unitRow, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <Ionicons name="information-circle-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+        <TextInput
+          style={[styles.input, { color: colors.text }]}
+          placeholder="Outra orientação (opcional)"
+          placeholderTextColor={colors.textSecondary}
+          value={value.instructionsNote}
+          onChangeText={(instructionsNote) => onChange({ ...value, instructionsNote })}
+          maxLength={MAX_INSTRUCTIONS_NOTE_LENGTH}
+        />
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Médico que receitou</Text>
+      <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <Ionicons name="person-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+        <TextInput
+          style={[styles.input, { color: colors.text }]}
+          placeholder="Ex: Dra. Ana Souza"
+          placeholderTextColor={colors.textSecondary}
+          value={value.prescriber}
+          onChangeText={(prescriber) => onChange({ ...value, prescriber })}
+          maxLength={MAX_PRESCRIBER_LENGTH}
+        />
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Para tratar</Text>
+      <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <Ionicons name="fitness-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+        <TextInput
+          style={[styles.input, { color: colors.text }]}
+          placeholder="Ex: Pressão alta"
+          placeholderTextColor={colors.textSecondary}
+          value={value.condition}
+          onChangeText={(condition) => onChange({ ...value, condition })}
+          maxLength={MAX_CONDITION_LENGTH}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  fieldLabel: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    height: 52,
+    borderWidth: 1,
+  },
+  inputIcon: {
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+  unitSuffix: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  unitRow: {
+    marginTop: 10,
+  },
+  chip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
@@ -0,0 +1,114 @@
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import {
+  CAREGIVER_ALERT_DELAY_MINUTE_OPTIONS,
+  EARLY_WINDOW_MINUTE_OPTIONS,
+  MISSED_GRACE_MINUTE_OPTIONS,
+  isEarlyWindowWithinGaps,
+} from "@shared/dose-schedule";
+
+export interface MissedDoseTimingValue {
+  earlyWindowMinutes: number;
+  missedGraceMinutes: number;
+  caregiverAlertDelayMinutes: number;
+}
+
+interface MissedDoseTimingEditorProps {
+  value: MissedDoseTimingValue;
+  onChange: (value: MissedDoseTimingValue) => void;
+  /** Fixed dose times; early windows that reach the next time are not offered. */
+  scheduleTimes?: string[];
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes === 0) return "Na hora";
+  if (minutes < 60) return `${minutes} min`;
+  return `${minutes / 60} h`;
+}
+
+export default function MissedDoseTimingEditor({ value, onChange, scheduleTimes = [] }: MissedDoseTimingEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const renderChips = (
+    options: readonly number[],
+    selectedValue: number,
+    onSelect: (minutes: number) => void,
+    isAllowed: (minutes: number) => boolean = () => true
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map((minutes) => {
+        const selected = selectedValue === minutes;
+        const allowed = isAllowed(minutes);
+        return (
+          <Pressable
+            key={minutes}
+            style={[
+              styles.chip,
+              { backgroundColor: selected ? colors.tint : colors.surface, borderColor: selected ? colors.tint : colors.border },
+              !allowed && styles.chipDisabled,
+            ]}
+            disabled={!allowed}
+            onPress={() => {
+              Haptics.selectionAsync();
+              onSelect(minutes);
+            }}
+          >
+            <Text style={[styles.chipText, { color: selected ? "#fff" : colors.textSecondary }]}>{formatMinutes(minutes)}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <View>
+      <Text style={[styles.hint, { color: colors.textSecondary }]}>Quanto tempo antes do horário a dose já pode ser tomada</Text>
+      {renderChips(
+        EARLY_WINDOW_MINUTE_OPTIONS,
+        value.earlyWindowMinutes,
+        (earlyWindowMinutes) => onChange({ ...value, earlyWindowMinutes }),
+        (minutes) => isEarlyWindowWithinGaps(minutes, scheduleTimes)
+      )}
+
+      <Text style={[styles.hint, { color: colors.textSecondary, marginTop: 12 }]}>Tempo após o horário até a dose contar como esquecida</Text>
+      {renderChips(MISSED_GRACE_MINUTE_OPTIONS, value.missedGraceMinutes, (missedGraceMinutes) =>
+        onChange({ ...value, missedGraceMinutes })
+      )}
+
+      <Text style={[styles.hint, { color: colors.textSecondary, marginTop: 12 }]}>Depois disso, avisar os cuidadores</Text>
+      {renderChips(CAREGIVER_ALERT_DELAY_MINUTE_OPTIONS, value.caregiverAlertDelayMinutes, (caregiverAlertDelayMinutes) =>
+        onChange({ ...value, caregiverAlertDelayMinutes })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
@@ -0,0 +1,213 @@
+import React from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { WEEKDAY_LABELS, maskDateInput } from "@/lib/medication-schedule";
+import { MAX_RECURRENCE_EVERY_N_DAYS, type RecurrenceType } from "@shared/dose-schedule";
+
+export interface RecurrenceValue {
+  recurrenceType: RecurrenceType;
+  recurrenceWeekdays: number[];
+  recurrenceEveryNDays: number;
+  startDateText: string;
+}
+
+interface RecurrenceEditorProps {
+  value: RecurrenceValue;
+  onChange: (value: RecurrenceValue) => void;
+}
+
+const RECURRENCE_OPTIONS: [RecurrenceType, string][] = [
+  ["DAILY", "Todo dia"],
+  ["DAYS_OF_WEEK", "Dias da semana"],
+  ["EVERY_N_DAYS", "A cada N dias"],
+];
+
+export default function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const update = (patch: Partial<RecurrenceValue>) => onChange({ ...value, ...patch });
+
+  const toggleWeekday = (day: number) => {
+    Haptics.selectionAsync();
+    const weekdays = value.recurrenceWeekdays.includes(day)
+      ? value.recurrenceWeekdays.filter((item) => item !== day)
+      : [...value.recurrenceWeekdays, day].sort((a, b) => a - b);
+    update({ recurrenceWeekdays: weekdays });
+  };
+
+  const canDecrement = value.recurrenceEveryNDays > 2;
+  const canIncrement = value.recurrenceEveryNDays < MAX_RECURRENCE_EVERY_N_DAYS;
+
+  return (
+    <View>
+      <View style={[styles.selector, { backgroundColor: colors.inputBg }]}>
+        {RECURRENCE_OPTIONS.map(([type, label]) => (
+          <Pressable
+            key={type}
+            style={[styles.option, value.recurrenceType === type && { backgroundColor: colors.surface }]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              update({
+                recurrenceType: type,
+                recurrenceEveryNDays: type === "EVERY_N_DAYS" ? Math.max(2, value.recurrenceEveryNDays) : value.recurrenceEveryNDays,
+              });
+            }}
+          >
+            <Text style={[styles.optionText, { color: value.recurrenceType === type ? colors.tint : colors.textSecondary }]}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {value.recurrenceType === "DAYS_OF_WEEK" && (
+        <View style={styles.weekdayRow}>
+          {WEEKDAY_LABELS.map((label, day) => {
+            const selected = value.recurrenceWeekdays.includes(day);
+            return (
+              <Pressable
+                key={label}
+                style={[
+                  styles.weekday,
+                  { backgroundColor: selected ? colors.tint : colors.surface, borderColor: selected ? colors.tint : colors.border },
+                ]}
+                onPress={() => toggleWeekday(day)}
+              >
+                <Text style={[styles.weekdayText, { color: selected ? "#fff" : colors.textSecondary }]}>{label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
+      {value.recurrenceType === "EVERY_N_DAYS" && (
+        <View style={styles.stepperRow}>
+          <Pressable
+            style={[styles.stepperBtn, { backgroundColor: colors.surface, borderColor: colors.border }, !canDecrement && { opacity: 0.5 }]}
+            disabled={!canDecrement}
+            onPress={() => {
+              Haptics.selectionAsync();
+              update({ recurrenceEveryNDays: value.recurrenceEveryNDays - 1 });
+            }}
+          >
+            <Ionicons name="remove" size={20} color={colors.text} />
+          </Pressable>
+          <View style={[styles.stepperValue, { backgroundColor: colors.tintLight, borderColor: colors.tint }]}>
+            <Text style={[styles.stepperValueText, { color: colors.tint }]}>A cada {value.recurrenceEveryNDays} dias</Text>
+          </View>
+          <Pressable
+            style={[styles.stepperBtn, { backgroundColor: colors.surface, borderColor: colors.border }, !canIncrement && { opacity: 0.5 }]}
+            disabled={!canIncrement}
+            onPress={() => {
+              Haptics.selectionAsync();
+              update({ recurrenceEveryNDays: value.recurrenceEveryNDays + 1 });
+            }}
+          >
+            <Ionicons name="add" size={20} color={colors.text} />
+          </Pressable>
+        </View>
+      )}
+
+      <Text style={[styles.label, { color: colors.text }]}>Início (opcional)</Text>
+      <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+        <TextInput
+          style={[styles.input, { color: colors.text }]}
+          placeholder="DD/MM/AAAA"
+          placeholderTextColor={colors.textSecondary}
+          value={value.startDateText}
+          onChangeText={(text) => update({ startDateText: maskDateInput(text) })}
+          keyboardType="number-pad"
+          maxLength={10}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  selector: {
+    flexDirection: "row",
+    borderRadius: 12,
+    padding: 4,
+  },
+  option: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 10,
+    paddingVertical: 10,
+  },
+  optionText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  weekdayRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 6,
+    marginTop: 12,
+  },
+  weekday: {
+    flex: 1,
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  weekdayText: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 12,
+  },
+  stepperBtn: {
+    width: 52,
+    height: 44,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  stepperValue: {
+    flex: 1,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperValueText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    height: 52,
+    borderWidth: 1,
+  },
+  inputIcon: {
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+});
@@ -0,0 +1,69 @@
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { REFILL_ALERT_DAY_OPTIONS } from "@shared/stock-forecast";
+
+interface RefillAlertEditorProps {
+  value: number | null;
+  onChange: (value: number | null) => void;
+}
+
+const OPTIONS: (number | null)[] = [null, ...REFILL_ALERT_DAY_OPTIONS];
+
+export default function RefillAlertEditor({ value, onChange }: RefillAlertEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  return (
+    <View>
+      <Text style={[styles.hint, { color: colors.textSecondary }]}>Avisar com antecedência antes do estoque acabar</Text>
+      <View style={styles.chipRow}>
+        {OPTIONS.map((days) => {
+          const selected = value === days;
+          return (
+            <Pressable
+              key={days ?? "off"}
+              style={[
+                styles.chip,
+                { backgroundColor: selected ? colors.tint : colors.surface, borderColor: selected ? colors.tint : colors.border },
+              ]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                onChange(days);
+              }}
+            >
+              <Text style={[styles.chipText, { color: selected ? "#fff" : colors.textSecondary }]}>
+                {days === null ? "Desligado" : `${days} dias`}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
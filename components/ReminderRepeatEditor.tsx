@@ -0,0 +1,193 @@
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import {
+  DEFAULT_REPEAT_REMINDER_MINUTES,
+  MAX_REPEAT_REMINDERS,
+  REPEAT_REMINDER_MINUTE_OPTIONS,
+  type ReminderRepeatSettings,
+} from "@shared/dose-schedule";
+
+interface ReminderRepeatEditorProps {
+  value: ReminderRepeatSettings | null;
+  onChange: (value: ReminderRepeatSettings | null) => void;
+  /** When set, `null` means the medication follows the profile defaults described by this label. */
+  inheritLabel?: string;
+}
+
+const DEFAULT_CUSTOM_REPEAT: ReminderRepeatSettings = {
+  repeatReminderMinutes: DEFAULT_REPEAT_REMINDER_MINUTES,
+  repeatReminderLimit: 3,
+};
+
+export default function ReminderRepeatEditor({ value, onChange, inheritLabel }: ReminderRepeatEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+  const isInherited = value === null;
+  const limit = value?.repeatReminderLimit ?? 0;
+
+  return (
+    <View>
+      {inheritLabel !== undefined && (
+        <>
+          <View style={[styles.selector, { backgroundColor: colors.inputBg }]}>
+            {([["inherit", "Padrão do perfil"], ["custom", "Personalizado"]] as const).map(([mode, label]) => {
+              const selected = (mode === "inherit") === isInherited;
+              return (
+                <Pressable
+                  key={mode}
+                  style={[styles.option, selected && { backgroundColor: colors.surface }]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    onChange(mode === "inherit" ? null : value ?? DEFAULT_CUSTOM_REPEAT);
+                  }}
+                >
+                  <Text style={[styles.optionText, { color: selected ? colors.tint : colors.textSecondary }]}>{label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {isInherited && <Text style={[styles.hint, { color: colors.textSecondary }]}>{inheritLabel}</Text>}
+        </>
+      )}
+
+      {value && (
+        <>
+          <Text style={[styles.label, { color: colors.text }]}>Repetir lembrete</Text>
+          <View style={styles.stepperRow}>
+            <Pressable
+              style={[styles.stepperBtn, { backgroundColor: colors.surface, borderColor: colors.border }, limit === 0 && { opacity: 0.5 }]}
+              disabled={limit === 0}
+              onPress={() => {
+                Haptics.selectionAsync();
+                onChange({ ...value, repeatReminderLimit: limit - 1 });
+              }}
+            >
+              <Ionicons name="remove" size={20} color={colors.text} />
+            </Pressable>
+            <View style={[styles.stepperValue, { backgroundColor: colors.tintLight, borderColor: colors.tint }]}>
+              <Text style={[styles.stepperValueText, { color: colors.tint }]}>
+                {limit === 0 ? "Desligado" : `${limit} vez${limit !== 1 ? "es" : ""}`}
+              </Text>
+            </View>
+            <Pressable
+              style={[styles.stepperBtn, { backgroundColor: colors.surface, borderColor: colors.border }, limit >= MAX_REPEAT_REMINDERS && { opacity: 0.5 }]}
+              disabled={limit >= MAX_REPEAT_REMINDERS}
+              onPress={() => {
+                Haptics.selectionAsync();
+                onChange({ ...value, repeatReminderLimit: limit + 1 });
+              }}
+            >
+              <Ionicons name="add" size={20} color={colors.text} />
+            </Pressable>
+          </View>
+
+          {limit > 0 && (
+            <>
+              <Text style={[styles.label, { color: colors.text }]}>Intervalo entre lembretes</Text>
+              <View style={styles.chipRow}>
+                {REPEAT_REMINDER_MINUTE_OPTIONS.map((minutes) => {
+                  const selected = value.repeatReminderMinutes === minutes;
+                  return (
+                    <Pressable
+                      key={minutes}
+                      style={[
+                        styles.chip,
+                        { backgroundColor: selected ? colors.tint : colors.surface, borderColor: selected ? colors.tint : colors.border },
+                      ]}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        onChange({ ...value, repeatReminderMinutes: minutes });
+                      }}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? "#fff" : colors.textSecondary }]}>{minutes} min</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+/** "Desligado" or "3x a cada 10 min", used to describe the profile defaults. */
+export function formatReminderRepeat(settings: ReminderRepeatSettings): string {
+  if (settings.repeatReminderLimit === 0) return "Sem lembretes repetidos";
+  return `Repete ${settings.repeatReminderLimit}x a cada ${settings.repeatReminderMinutes} min`;
+}
+
+const styles = StyleSheet.create({
+  selector: {
+    flexDirection: "row",
+    borderRadius: 12,
+    padding: 4,
+  },
+  option: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 10,
+    paddingVertical: 10,
+  },
+  optionText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  stepperBtn: {
+    width: 52,
+    height: 44,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  stepperValue: {
+    flex: 1,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperValueText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { maskTimeInput } from "@/lib/medication-schedule";
+import { CLOCK_TIME_PATTERN, normalizeScheduleTimes } from "@shared/dose-schedule";
+
+interface ScheduleTimesEditorProps {
+  times: string[];
+  onChange: (times: string[]) => void;
+}
+
+export default function ScheduleTimesEditor({ times, onChange }: ScheduleTimesEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+  const [draft, setDraft] = useState("");
+
+  const isDraftValid = CLOCK_TIME_PATTERN.test(draft);
+
+  const handleAdd = () => {
+    if (!isDraftValid) return;
+    Haptics.selectionAsync();
+    onChange(normalizeScheduleTimes([...times, draft]));
+    setDraft("");
+  };
+
+  const handleRemove = (time: string) => {
+    Haptics.selectionAsync();
+    onChange(times.filter((item) => item !== time));
+  };
+
+  return (
+    <View>
+      <View style={styles.addRow}>
+        <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Ionicons name="alarm-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+          <TextInput
+            style={[styles.input, { color: colors.text }]}
+            placeholder="08:00"
+            placeholderTextColor={colors.textSecondary}
+            value={draft}
+            onChangeText={(value) => setDraft(maskTimeInput(value))}
+            keyboardType="number-pad"
+            maxLength={5}
+            onSubmitEditing={handleAdd}
+          />
+        </View>
+        <Pressable
+          style={({ pressed }) => [
+            styles.addBtn,
+            { backgroundColor: colors.tintLight, borderColor: colors.tint },
+            !isDraftValid && { opacity: 0.5 },
+            pressed && isDraftValid && { opacity: 0.7 },
+          ]}
+          disabled={!isDraftValid}
+          onPress={handleAdd}
+        >
+          <Ionicons name="add" size={22} color={colors.tint} />
+        </Pressable>
+      </View>
+
+      {times.length > 0 ? (
+        <View style={styles.chipRow}>
+          {times.map((time) => (
+            <Pressable
+              key={time}
+              style={({ pressed }) => [styles.chip, { backgroundColor: colors.tintLight }, pressed && { opacity: 0.7 }]}
+              onPress={() => handleRemove(time)}
+            >
+              <Text style={[styles.chipText, { color: colors.tint }]}>{time}</Text>
+              <Ionicons name="close" size={14} color={colors.tint} />
+            </Pressable>
+          ))}
+        </View>
+      ) : (
+        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>Nenhum horário adicionado</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  inputWrapper: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    height: 52,
+    borderWidth: 1,
+  },
+  inputIcon: {
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+  addBtn: {
+    width: 52,
+    height: 52,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import ConfirmDialog from "@/components/ConfirmDialog";
+
+interface SkipDoseDialogProps {
+  visible: boolean;
+  loading?: boolean;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+}
+
+const SKIP_REASONS = ["Náusea ou mal-estar", "Orientação médica", "Sem o remédio comigo"];
+const OTHER_REASON = "Outro";
+
+export default function SkipDoseDialog({ visible, loading = false, onConfirm, onCancel }: SkipDoseDialogProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+  const [selected, setSelected] = useState(SKIP_REASONS[0]);
+  const [otherText, setOtherText] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setSelected(SKIP_REASONS[0]);
+      setOtherText("");
+    }
+  }, [visible]);
+
+  const reason = selected === OTHER_REASON ? otherText.trim() : selected;
+
+  return (
+    <ConfirmDialog
+      visible={visible}
+      title="Pular dose"
+      message="Por que você vai pular esta dose? Ela fica registrada no histórico e não conta como esquecida."
+      icon="play-skip-forward-outline"
+      iconColor={colors.warning}
+      confirmLabel="Pular dose"
+      cancelLabel="Cancelar"
+      confirmColor={colors.warning}
+      loading={loading}
+      onConfirm={() => {
+        if (reason) onConfirm(reason);
+      }}
+      onCancel={onCancel}
+    >
+      <View style={styles.reasonList}>
+        {[...SKIP_REASONS, OTHER_REASON].map((option) => {
+          const isSelected = selected === option;
+          return (
+            <Pressable
+              key={option}
+              style={[
+                styles.reasonChip,
+                { backgroundColor: isSelected ? colors.warningLight : colors.inputBg, borderColor: isSelected ? colors.warning : colors.border },
+              ]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setSelected(option);
+              }}
+            >
+              <Text style={[styles.reasonText, { color: isSelected ? colors.warning : colors.textSecondary }]}>{option}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      {selected === OTHER_REASON && (
+        <TextInput
+          style={[styles.otherInput, { color: colors.text, backgroundColor: colors.inputBg, borderColor: colors.border }]}
+          placeholder="Descreva o motivo"
+          placeholderTextColor={colors.textSecondary}
+          value={otherText}
+          onChangeText={setOtherText}
+          maxLength={120}
+          autoFocus
+        />
+      )}
+    </ConfirmDialog>
+  );
+}
+
+const styles = StyleSheet.create({
+  reasonList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  reasonChip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  reasonText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  otherInput: {
+    height: 46,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    marginBottom: 20,
+  },
+});
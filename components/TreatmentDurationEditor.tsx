@@ -0,0 +1,128 @@
+import React from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useTheme } from "@/lib/theme-context";
+import { maskDateInput } from "@/lib/medication-schedule";
+
+export type TreatmentDurationMode = "CONTINUOUS" | "END_DATE" | "TOTAL_DOSES";
+
+export interface TreatmentDurationValue {
+  mode: TreatmentDurationMode;
+  endDateText: string;
+  totalDosesText: string;
+}
+
+interface TreatmentDurationEditorProps {
+  value: TreatmentDurationValue;
+  onChange: (value: TreatmentDurationValue) => void;
+}
+
+const DURATION_OPTIONS: [TreatmentDurationMode, string][] = [
+  ["CONTINUOUS", "Contínuo"],
+  ["END_DATE", "Até uma data"],
+  ["TOTAL_DOSES", "Nº de doses"],
+];
+
+export default function TreatmentDurationEditor({ value, onChange }: TreatmentDurationEditorProps) {
+  const { isDark } = useTheme();
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const update = (patch: Partial<TreatmentDurationValue>) => onChange({ ...value, ...patch });
+
+  return (
+    <View>
+      <View style={[styles.selector, { backgroundColor: colors.inputBg }]}>
+        {DURATION_OPTIONS.map(([mode, label]) => (
+          <Pressable
+            key={mode}
+            style={[styles.option, value.mode === mode && { backgroundColor: colors.surface }]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              update({ mode });
+            }}
+          >
+            <Text style={[styles.optionText, { color: value.mode === mode ? colors.tint : colors.textSecondary }]}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {value.mode === "END_DATE" && (
+        <>
+          <Text style={[styles.label, { color: colors.text }]}>Último dia</Text>
+          <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="flag-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder="DD/MM/AAAA"
+              placeholderTextColor={colors.textSecondary}
+              value={value.endDateText}
+              onChangeText={(text) => update({ endDateText: maskDateInput(text) })}
+              keyboardType="number-pad"
+              maxLength={10}
+            />
+          </View>
+        </>
+      )}
+
+      {value.mode === "TOTAL_DOSES" && (
+        <>
+          <Text style={[styles.label, { color: colors.text }]}>Total de doses</Text>
+          <View style={[styles.inputWrapper, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="layers-outline" size={18} color={colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={[styles.input, { color: colors.text }]}
+              placeholder="Ex: 21"
+              placeholderTextColor={colors.textSecondary}
+              value={value.totalDosesText}
+              onChangeText={(text) => update({ totalDosesText: text.replace(/\D/g, "").slice(0, 4) })}
+              keyboardType="number-pad"
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  selector: {
+    flexDirection: "row",
+    borderRadius: 12,
+    padding: 4,
+  },
+  option: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 10,
+    paddingVertical: 10,
+  },
+  optionText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    height: 52,
+    borderWidth: 1,
+  },
+  inputIcon: {
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+  },
+});
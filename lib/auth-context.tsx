@@ -21,6 +21,9 @@ interface UserProfile {
   subscriptionCanceledAt?: string | null;
   subscriptionLastEventAt?: string | null;
   linkedMasterId: string | null;
+  repeatReminderMinutes: number;
+  repeatReminderLimit: number;
+  shoppingListDays: number;
 }
 
 interface AuthContextValue {
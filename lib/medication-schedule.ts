@@ -0,0 +1,120 @@
+import { DEFAULT_TIME_ZONE, getDosageAt, getDosePhase, type DoseScheduleRule } from "@shared/dose-schedule";
+import { getStockStatus, type StockStatus } from "@shared/dose-units";
+
+export const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+interface ScheduleLabelFields {
+  scheduleType: string;
+  intervalInHours: number;
+  scheduleTimes: string[];
+  recurrenceType: string;
+  recurrenceWeekdays: number[];
+  recurrenceEveryNDays: number;
+  maxDosesPer24h?: number | null;
+  minHoursBetweenDoses?: number | null;
+}
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+function formatRecurrenceLabel(med: ScheduleLabelFields): string | null {
+  if (med.recurrenceType === "DAYS_OF_WEEK") {
+    const days = [...med.recurrenceWeekdays].sort((a, b) => a - b);
+    if (days.length === 5 && days.every((day, index) => day === index + 1)) return "Seg a Sex";
+    return days.map((day) => WEEKDAY_LABELS[day]).join(", ");
+  }
+  if (med.recurrenceType === "EVERY_N_DAYS" && med.recurrenceEveryNDays > 1) {
+    return med.recurrenceEveryNDays === 2 ? "Dia sim, dia não" : `A cada ${med.recurrenceEveryNDays} dias`;
+  }
+  return null;
+}
+
+function formatAsNeededLabel(med: ScheduleLabelFields): string {
+  const limits = [
+    med.maxDosesPer24h ? `máx. ${med.maxDosesPer24h}/24h` : null,
+    med.minHoursBetweenDoses ? `intervalo ${med.minHoursBetweenDoses}h` : null,
+  ].filter(Boolean);
+  return limits.length > 0 ? `Se necessário · ${limits.join(" · ")}` : "Se necessário";
+}
+
+export function formatScheduleLabel(med: ScheduleLabelFields): string {
+  if (med.scheduleType === "AS_NEEDED") return formatAsNeededLabel(med);
+  const base =
+    med.scheduleType === "FIXED_TIMES"
+      ? med.scheduleTimes.length > 0 ? `Às ${med.scheduleTimes.join(", ")}` : "Sem horários"
+      : `A cada ${med.intervalInHours}h`;
+  const recurrence = formatRecurrenceLabel(med);
+  return recurrence ? `${base} · ${recurrence}` : base;
+}
+
+export function formatTreatmentLabel(med: { endDate?: string | null; totalDoses?: number | null }): string | null {
+  if (med.totalDoses) return `${med.totalDoses} doses no total`;
+  if (med.endDate) return `Até ${formatDateInput(med.endDate)}`;
+  return null;
+}
+
+export function formatPauseLabel(med: { pausedAt?: string | null; resumeOn?: string | null }): string | null {
+  if (!med.pausedAt) return null;
+  return med.resumeOn ? `Pausado · retoma em ${formatDateInput(med.resumeOn)}` : "Pausado";
+}
+
+export function formatRunOutLabel(med: { daysOfSupply?: number | null; runsOutOn?: string | null }): string | null {
+  if (med.daysOfSupply == null || !med.runsOutOn) return null;
+  if (med.daysOfSupply === 0) return "Acaba hoje";
+  const date = formatDateInput(med.runsOutOn).slice(0, 5);
+  return `Acaba em ${med.daysOfSupply} dia${med.daysOfSupply > 1 ? "s" : ""} (${date})`;
+}
+
+/** Dosage that applies at `at`, tagged with the tapering phase when the medication has phases. */
+export function formatDosageLabel(med: DoseScheduleRule & { dosage: string }, at: number): string {
+  const phase = getDosePhase(med, at);
+  return phase ? `${phase.dosage} · fase ${phase.index + 1}/${med.dosePhases.length}` : med.dosage;
+}
+
+export function getMedicationStockStatus(
+  med: DoseScheduleRule & { dosage: string; doseQuantity: number; currentStock: number; alertThreshold: number },
+  at: number
+): StockStatus {
+  return getStockStatus(med.currentStock, med.alertThreshold, getDosageAt(med, at).quantity);
+}
+
+/** "2026-10-19" → "19/10/2026" */
+export function formatDateInput(date: string | null | undefined): string {
+  if (!date) return "";
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+/** "19/10/2026" → "2026-10-19", or null when the text is not a valid date. */
+export function parseDateInput(text: string): string | null {
+  const match = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(text.trim());
+  if (!match) return null;
+  const [, day, month, year] = match;
+  const parsed = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (parsed.getUTCDate() !== Number(day) || parsed.getUTCMonth() !== Number(month) - 1) return null;
+  return `${year}-${month}-${day}`;
+}
+
+/** "2,5" or "2.5" → 2.5, or null when the text is not a number. */
+export function parseDecimalInput(text: string): number | null {
+  const value = Number(text.trim().replace(",", "."));
+  return text.trim() && Number.isFinite(value) ? value : null;
+}
+
+export function maskTimeInput(raw: string): string {
+  const digits = raw.replace(/\D/g, "").slice(0, 4);
+  if (digits.length <= 2) return digits;
+  return `${digits.slice(0, 2)}:${digits.slice(2)}`;
+}
+
+export function maskDateInput(raw: string): string {
+  const digits = raw.replace(/\D/g, "").slice(0, 8);
+  if (digits.length <= 2) return digits;
+  if (digits.length <= 4) return `${digits.slice(0, 2)}/${digits.slice(2)}`;
+  return `${digits.slice(0, 2)}/${digits.slice(2, 4)}/${digits.slice(4)}`;
+}
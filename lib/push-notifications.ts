@@ -53,7 +53,8 @@ export async function registerForPushNotificationsAsync(): Promise<string | null
 export async function scheduleNextDoseNotification(
     medicationId: string,
     medicationName: string,
-    triggerTimeMillis: number
+    triggerTimeMillis: number,
+    instructions?: string | null
 ): Promise<string | null> {
     try {
         const settings = await Notifications.getPermissionsAsync();
@@ -71,7 +72,9 @@ export async function scheduleNextDoseNotification(
         const identifier = await Notifications.scheduleNotificationAsync({
             content: {
                 title: "Hora do Medicamento",
-                body: `Está na hora do remédio ${medicationName}.`,
+                body: instructions
+                    ? `Está na hora do remédio ${medicationName}. ${instructions}`
+                    : `Está na hora do remédio ${medicationName}.`,
                 data: { type: "DOSE_DUE", relatedId: medicationId, medicationId },
                 sound: true,
                 priority: Notifications.AndroidNotificationPriority.MAX,
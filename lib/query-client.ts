@@ -1,5 +1,7 @@
 import { fetch } from "expo/fetch";
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { TIME_ZONE_HEADER } from "@shared/dose-schedule";
+import { getDeviceTimeZone } from "@/lib/medication-schedule";
 
 /**
  * Gets the base URL for the Express API server (e.g., "http://localhost:3000")
@@ -33,6 +35,18 @@ function toFriendlyErrorMessage(raw: string, status: number): string {
   if (msg.includes("invalid credentials")) {
     return "Dados de acesso inválidos.";
   }
+  if (msg.includes("too early to take this dose")) {
+    return "Ainda não está na hora desta dose.";
+  }
+  if (msg.includes("early window must be shorter than the gap")) {
+    return "A janela da dose precisa ser menor que o intervalo entre os horários.";
+  }
+  if (msg.includes("purchase date is in the future")) {
+    return "A data da compra não pode ser no futuro.";
+  }
+  if (msg.includes("movement exceeds current stock")) {
+    return "A quantidade é maior que o estoque atual.";
+  }
   if (msg.includes("failed to fetch") || msg.includes("network")) {
     return "Não foi possível conectar. Verifique sua internet.";
   }
@@ -84,7 +98,9 @@ export async function apiRequest(
 
   const res = await fetch(url.toString(), {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data
+      ? { "Content-Type": "application/json", [TIME_ZONE_HEADER]: getDeviceTimeZone() }
+      : { [TIME_ZONE_HEADER]: getDeviceTimeZone() },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -103,6 +119,7 @@ export const getQueryFn: <T>(options: {
     const url = new URL(queryKey.join("/") as string, baseUrl);
 
     const res = await fetch(url.toString(), {
+      headers: { [TIME_ZONE_HEADER]: getDeviceTimeZone() },
       credentials: "include",
     });
 
@@ -3,6 +3,7 @@ import type { Request, Response, NextFunction } from "express";
 import helmet from "helmet";
 import { registerRoutes } from "./routes";
 import { startDoseMonitor } from "./services/dose-monitor";
+import { TIME_ZONE_HEADER } from "@shared/dose-schedule";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -65,7 +66,7 @@ function setupCors(app: express.Application) {
         "Access-Control-Allow-Methods",
         "GET, POST, PUT, PATCH, DELETE, OPTIONS",
       );
-      res.header("Access-Control-Allow-Headers", "Content-Type");
+      res.header("Access-Control-Allow-Headers", `Content-Type, ${TIME_ZONE_HEADER}`);
       res.header("Access-Control-Allow-Credentials", "true");
     }
 
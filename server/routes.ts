@@ -8,12 +8,58 @@ import {
   updateRoleSchema,
   insertMedicationSchema,
   updateMedicationSchema,
+  pauseMedicationSchema,
+  skipDoseSchema,
+  snoozeDoseSchema,
+  takeDoseSchema,
+  correctDoseTimeSchema,
   insertConnectionSchema,
+  updateEscalationLevelSchema,
+  createManagedProfileSchema,
+  insertStockBatchSchema,
+  updateStockBatchSchema,
+  insertRestockSchema,
+  updateRestockSchema,
+  insertStockMovementSchema,
+  type DoseSchedule,
+  type Medication,
+  type User,
 } from "@shared/schema";
+import {
+  DAY_MS,
+  DEFAULT_TIME_ZONE,
+  MAX_DOSE_BACKDATE_MS,
+  DOSE_UNDO_WINDOW_MS,
+  MAX_DOSE_SNOOZES,
+  MINUTE_MS,
+  TIME_ZONE_HEADER,
+  checkAsNeededLimits,
+  dateStringToDay,
+  dayToDateString,
+  getCurrentDueTime,
+  getDosageAt,
+  getLastSettledDoseAt,
+  getLocalDay,
+  getNextDoseTime,
+  getNextReminderTime,
+  isDoseAvailable,
+  isEarlyWindowWithinGaps,
+  isTreatmentFinished,
+  isValidTimeZone,
+  type AsNeededRefusal,
+  type DoseEdit,
+} from "@shared/dose-schedule";
+import { formatQuantity, getStockStatus, roundStock } from "@shared/dose-units";
+import { SPENDING_MONTHS, getRecentMonths, summarizeSpending, type MonthlySpending } from "@shared/restocks";
+import { getBatchTotal, getDaysUntilExpiry, planBatchConsumption } from "@shared/stock-batches";
+import { reconcileStockLedger, type StockMovementType } from "@shared/stock-movements";
+import { getShoppingListReason } from "@shared/shopping-list";
+import { formatInstructions } from "@shared/medication-info";
 import bcrypt from "bcryptjs";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { sendPushToUsers } from "./services/push";
+import { getCachedStockForecast } from "./services/forecast-cache";
 
 declare module "express-session" {
   interface SessionData {
@@ -29,6 +75,7 @@ function requireAuth(req: Request, res: Response, next: () => void) {
 }
 
 const REVENUECAT_ENTITLEMENT_ID = process.env.REVENUECAT_ENTITLEMENT_ID || "premium";
+const FREE_PLAN_MEDICATION_LIMIT = 10;
 
 function toDateOrNull(value: unknown): Date | null {
   if (!value) return null;
@@ -95,15 +142,24 @@ async function getMasterAndControllerRecipients(dependentId: string): Promise<st
   return Array.from(recipients);
 }
 
+/** Doses can be recorded by their owner or, for a dependent, by any accepted master or controller. */
+async function canRecordDosesFor(actorId: string, ownerId: string): Promise<boolean> {
+  if (actorId === ownerId) return true;
+  const owner = await storage.getUserById(ownerId);
+  if (owner?.role !== "DEPENDENT") return false;
+  return (await getMasterAndControllerRecipients(ownerId)).includes(actorId);
+}
+
 async function createInAppAndPushNotification(params: {
   userId: string;
   type: string;
   title: string;
   message: string;
   relatedId?: string;
+  doseScheduleId?: string;
 }): Promise<void> {
-  const { userId, type, title, message, relatedId } = params;
-  await storage.createNotification({ userId, type, title, message, relatedId });
+  const { userId, type, title, message, relatedId, doseScheduleId } = params;
+  await storage.createNotification({ userId, type, title, message, relatedId, doseScheduleId });
   await sendPushToUsers([userId], {
     title,
     body: message,
@@ -111,6 +167,179 @@ async function createInAppAndPushNotification(params: {
   });
 }
 
+function formatAsNeededRefusal(refusal: AsNeededRefusal, maxDosesPer24h: number | null, timeZone: string): string {
+  const nextAllowed = new Date(refusal.nextAllowedAt).toLocaleTimeString("pt-BR", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return refusal.reason === "MAX_DAILY_DOSES"
+    ? `Limite de ${maxDosesPer24h} doses em 24h atingido. Próxima dose liberada às ${nextAllowed}.`
+    : `Intervalo mínimo entre doses ainda não cumprido. Próxima dose liberada às ${nextAllowed}.`;
+}
+
+async function isAcceptedMasterOf(masterId: string, dependentId: string): Promise<boolean> {
+  const masterConns = await storage.getConnectionsByMaster(masterId);
+  return masterConns.some(c => c.dependentId === dependentId && c.status === "ACCEPTED");
+}
+
+/** The owner or an accepted master of the owner may manage a medication's stock. */
+async function canManageMedication(userId: string, med: Medication): Promise<boolean> {
+  return med.ownerId === userId || (await isAcceptedMasterOf(userId, med.ownerId));
+}
+
+// An absolute stock below what the batches hold takes the difference out of the earliest-expiring ones.
+async function trimBatchesToStock(med: Medication): Promise<void> {
+  const batches = await storage.getBatchesByMedication(med.id);
+  const excess = roundStock(getBatchTotal(batches) - med.currentStock);
+  if (excess <= 0) return;
+  const today = getLocalDay(Date.now(), med.timeZone);
+  await storage.adjustBatchQuantities(planBatchConsumption(batches, excess, today, true), -1);
+}
+
+interface StockMovementInput {
+  type: StockMovementType;
+  actorId: string;
+  relatedId?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Records a stock change that was already written to the medication. The first one also records
+ * the stock it had before the ledger existed, so replaying the ledger from zero lands on the count.
+ */
+async function recordStockMovement(med: Medication, newStock: number, movement: StockMovementInput): Promise<void> {
+  const quantity = roundStock(newStock - med.currentStock);
+  if (quantity === 0) return;
+  if (med.currentStock > 0 && !(await storage.hasStockMovements(med.id))) {
+    await storage.createStockMovement({
+      medId: med.id,
+      ownerId: med.ownerId,
+      type: "OPENING_BALANCE",
+      quantity: med.currentStock,
+      stockAfter: med.currentStock,
+      actorId: null,
+    });
+  }
+  await storage.createStockMovement({
+    medId: med.id,
+    ownerId: med.ownerId,
+    type: movement.type,
+    quantity,
+    stockAfter: newStock,
+    actorId: movement.actorId,
+    relatedId: movement.relatedId ?? null,
+    note: movement.note ?? null,
+  });
+}
+
+async function changeStock(med: Medication, newStock: number, movement: StockMovementInput): Promise<void> {
+  await storage.updateMedicationStock(med.id, newStock);
+  await recordStockMovement(med, newStock, movement);
+}
+
+/** Tells a dependent that one of their caregivers changed their medications; `change` completes "<name> ...". */
+async function notifyDependentOfMedicationChange(masterId: string, med: Medication, change: string): Promise<void> {
+  try {
+    const master = await storage.getUserById(masterId);
+    await createInAppAndPushNotification({
+      userId: med.ownerId,
+      type: "MEDICATION_CHANGED",
+      title: "Remédios atualizados",
+      message: `${master?.name ?? "Seu cuidador"} ${change}`,
+      relatedId: med.id,
+    });
+  } catch (notifError) {
+    console.error("Notification error (dependent medication):", notifError);
+  }
+}
+
+/** "40 min" or "2h10", for how far ahead of its due time a dose was taken. */
+function formatEarlyBy(ms: number): string {
+  const minutes = Math.round(ms / MINUTE_MS);
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return `${Math.floor(minutes / 60)}h${rest > 0 ? String(rest).padStart(2, "0") : ""}`;
+}
+
+// Next device reminder once a dose was corrected or deleted; an overdue dose is left to the monitor.
+async function getUpcomingReminderTime(med: Medication, now: number): Promise<number | null> {
+  if (med.scheduleType === "AS_NEEDED") return null;
+  const lastDoseAt = getLastSettledDoseAt(await storage.getSchedulesByMedication(med.id));
+  const nextDoseTime = getNextDoseTime(med, lastDoseAt, now);
+  return nextDoseTime !== null && nextDoseTime > now ? nextDoseTime : null;
+}
+
+// List entries carry the last settled dose plus the projected run-out; nothing is projected while paused.
+function enrichMedicationForList(med: Medication, medSchedules: DoseSchedule[], now: number) {
+  const lastDoseAt = getLastSettledDoseAt(medSchedules);
+  const forecast = med.pausedAt
+    ? null
+    : getCachedStockForecast(
+        med,
+        { currentStock: med.currentStock, lastDoseAt, takenDoses: medSchedules.filter(s => s.status === "TAKEN").length },
+        now
+      );
+  return {
+    ...med,
+    lastDoseAt,
+    daysOfSupply: forecast?.daysOfSupply ?? null,
+    runsOutOn: forecast?.runsOutOn ?? null,
+  };
+}
+
+// Users have no time zone of their own, so the app sends the device's with each request.
+function getRequestTimeZone(req: Request): string {
+  const timeZone = req.header(TIME_ZONE_HEADER);
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+// The schema refine only sees the fields in the payload, so a partial update is checked against the merged schedule.
+function keepsEarlyWindowWithinGaps(med: Medication, changes: { scheduleType?: string; scheduleTimes?: string[]; earlyWindowMinutes?: number }): boolean {
+  const merged = { ...med, ...changes };
+  return merged.scheduleType !== "FIXED_TIMES" || isEarlyWindowWithinGaps(merged.earlyWindowMinutes, merged.scheduleTimes);
+}
+
+// Archived medications still count: their purchases were real spending.
+async function getMonthlySpending(ownerId: string, months: string[]): Promise<MonthlySpending[]> {
+  const restocks = await storage.getRestocksByOwner(ownerId, `${months[months.length - 1]}-01`);
+  const meds = await storage.getMedicationsByOwner(ownerId);
+  return summarizeSpending(restocks, new Map(meds.map(med => [med.id, med.name])), months);
+}
+
+// Finished courses never need buying again, so only medications still being taken are considered.
+async function getShoppingListItems(owner: User, isOwn: boolean, withinDays: number, now: number) {
+  const meds = await storage.getActiveMedicationsByOwner(owner.id);
+  const schedules = await storage.getConfirmedSchedulesByOwner(owner.id);
+  const items = [];
+  for (const med of meds.filter(m => !m.completedAt)) {
+    const enriched = enrichMedicationForList(med, schedules.filter(s => s.medId === med.id), now);
+    const stockStatus = getStockStatus(med.currentStock, med.alertThreshold, getDosageAt(med, now).quantity);
+    const reason = getShoppingListReason(stockStatus, enriched.daysOfSupply, withinDays);
+    if (!reason) continue;
+    const [lastRestock] = await storage.getRestocksByMedication(med.id);
+    items.push({
+      medId: med.id,
+      medName: med.name,
+      dosage: med.dosage,
+      doseUnit: med.doseUnit,
+      timeZone: med.timeZone,
+      ownerId: owner.id,
+      ownerName: owner.name,
+      isOwn,
+      currentStock: med.currentStock,
+      stockStatus,
+      daysOfSupply: enriched.daysOfSupply,
+      runsOutOn: enriched.runsOutOn,
+      reason,
+      lastRestock: lastRestock
+        ? { quantity: lastRestock.quantity, priceCents: lastRestock.priceCents, pharmacy: lastRestock.pharmacy }
+        : null,
+    });
+  }
+  return items;
+}
+
 function resolvePlanTypeFromSubscription(
   isActiveNow: boolean,
   expiresAt: Date | null | undefined,
@@ -189,7 +418,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = await storage.getUserByEmail(parsed.data.email);
-      if (!user) {
+      if (!user?.password) {
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
@@ -532,7 +761,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         user = await storage.getUserByEmail(identifier);
       }
-      if (!user) {
+      if (!user || user.managedBy) {
         return res.status(404).json({ message: "User not found" });
       }
       res.json({ id: user.id, name: user.name, email: user.email, role: user.role });
@@ -544,17 +773,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/medications", requireAuth, async (req: Request, res: Response) => {
     try {
-      const meds = await storage.getMedicationsByOwner(req.session.userId!);
+      const meds = await storage.getActiveMedicationsByOwner(req.session.userId!);
       const schedules = await storage.getConfirmedSchedulesByOwner(req.session.userId!);
+      const now = Date.now();
       
-      const enrichedMeds = meds.map(med => {
-        const medSchedules = schedules.filter(s => s.medId === med.id);
-        const lastSchedule = medSchedules.length > 0 ? medSchedules[0] : null;
-        return {
-          ...med,
-          lastDoseAt: lastSchedule ? lastSchedule.timeMillis : null
-        };
-      });
+      const enrichedMeds = meds.map(med => enrichMedicationForList(med, schedules.filter(s => s.medId === med.id), now));
       
       res.json(enrichedMeds);
     } catch (error) {
@@ -563,6 +786,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/medications/archived", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const meds = await storage.getArchivedMedicationsByOwner(req.session.userId!);
+      res.json(meds);
+    } catch (error) {
+      console.error("Get archived medications error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   app.get("/api/medications/:id", requireAuth, async (req: Request, res: Response) => {
     try {
       const med = await storage.getMedicationById(req.params.id);
@@ -588,8 +821,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const user = await storage.getUserById(req.session.userId!);
       if (user && user.planType === "FREE") {
-        const existingMeds = await storage.getMedicationsByOwner(req.session.userId!);
-        if (existingMeds.length >= 10) {
+        const existingMeds = await storage.getActiveMedicationsByOwner(req.session.userId!);
+        if (existingMeds.length >= FREE_PLAN_MEDICATION_LIMIT) {
           return res.status(403).json({
             message: "Limite de 10 medicamentos atingido no plano Free. Assine o Premium para adicionar medicamentos ilimitados.",
             requiresUpgrade: true,
@@ -601,6 +834,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...parsed.data,
         ownerId: req.session.userId!,
       });
+      await recordStockMovement({ ...med, currentStock: 0 }, med.currentStock, { type: "OPENING_BALANCE", actorId: req.session.userId! });
       res.status(201).json(med);
     } catch (error) {
       console.error("Create medication error:", error);
@@ -608,17 +842,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/medications/:id", requireAuth, async (req: Request, res: Response) => {
+  app.patch("/api/medications/:id", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
     try {
       const parsed = updateMedicationSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: "Invalid data" });
       }
 
+      const existing = await storage.getMedicationById(req.params.id);
+      if (!existing || existing.ownerId !== req.session.userId) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!keepsEarlyWindowWithinGaps(existing, parsed.data)) {
+        return res.status(400).json({ message: "Early window must be shorter than the gap between dose times" });
+      }
+
+      const before = parsed.data.currentStock !== undefined ? existing : undefined;
       const updated = await storage.updateMedication(req.params.id, req.session.userId!, parsed.data);
       if (!updated) {
         return res.status(404).json({ message: "Medication not found" });
       }
+      if (before) {
+        await recordStockMovement(before, updated.currentStock, { type: "CORRECTION", actorId: req.session.userId! });
+        await trimBatchesToStock(updated);
+      }
+      // As-needed doses have no due time, so open reminders would only turn into missed doses.
+      if (parsed.data.scheduleType === "AS_NEEDED") {
+        await storage.deletePendingSchedulesByMedication(updated.id);
+      }
       res.json(updated);
     } catch (error) {
       console.error("Update medication error:", error);
@@ -626,7 +877,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/medications/:id", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/medications/:id/archive", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
     try {
       const med = await storage.getMedicationById(req.params.id);
       if (!med) {
@@ -635,8 +886,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (med.ownerId !== req.session.userId) {
         return res.status(403).json({ message: "Not your medication" });
       }
-      await storage.deleteMedication(req.params.id, req.session.userId!);
-      res.json({ message: "Deleted" });
+      if (!med.archivedAt) {
+        await storage.setMedicationArchivedAt(med.id, new Date());
+      }
+      res.json({ message: "Archived" });
+    } catch (error) {
+      console.error("Archive medication error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/medications/:id/restore", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (med.ownerId !== req.session.userId) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      if (!med.archivedAt) {
+        return res.json(med);
+      }
+
+      const user = await storage.getUserById(req.session.userId!);
+      if (user && user.planType === "FREE") {
+        const activeMeds = await storage.getActiveMedicationsByOwner(req.session.userId!);
+        if (activeMeds.length >= FREE_PLAN_MEDICATION_LIMIT) {
+          return res.status(403).json({
+            message: "Limite de 10 medicamentos atingido no plano Free. Assine o Premium para reativar este medicamento.",
+            requiresUpgrade: true,
+          });
+        }
+      }
+
+      await storage.setMedicationArchivedAt(med.id, null);
+      res.json({ ...med, archivedAt: null });
+    } catch (error) {
+      console.error("Restore medication error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/medications/:id/pause", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const parsed = pauseMedicationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (med.ownerId !== req.session.userId) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      if (med.archivedAt) {
+        return res.status(400).json({ message: "Medication is archived" });
+      }
+
+      const resumeOn = parsed.data.resumeOn ?? null;
+      if (resumeOn && dateStringToDay(resumeOn) <= getLocalDay(Date.now(), med.timeZone)) {
+        return res.status(400).json({ message: "Resume date must be in the future" });
+      }
+
+      // Open reminders would otherwise turn into missed doses once the pause ends.
+      await storage.deletePendingSchedulesByMedication(med.id);
+      const updated = await storage.pauseMedication(med.id, resumeOn);
+      res.json(updated);
+    } catch (error) {
+      console.error("Pause medication error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/medications/:id/resume", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (med.ownerId !== req.session.userId) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      if (!med.pausedAt) {
+        return res.json(med);
+      }
+
+      const updated = await storage.resumeMedication(med.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Resume medication error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Kept for older clients: deleting archives, so the dose history and stock ledger survive.
+  app.delete("/api/medications/:id", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (med.ownerId !== req.session.userId) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      if (!med.archivedAt) {
+        await storage.setMedicationArchivedAt(med.id, new Date());
+      }
+      res.json({ message: "Archived" });
     } catch (error) {
       console.error("Delete medication error:", error);
       res.status(500).json({ message: "Server error" });
@@ -656,7 +1015,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (med.ownerId !== req.session.userId) {
         return res.status(403).json({ message: "Acesso negado" });
       }
-      await storage.updateMedicationStock(req.params.id, currentStock);
+      const newStock = roundStock(currentStock);
+      await changeStock(med, newStock, { type: "CORRECTION", actorId: req.session.userId! });
+      await trimBatchesToStock({ ...med, currentStock: newStock });
       res.json({ message: "Stock updated" });
     } catch (error) {
       console.error("Update stock error:", error);
@@ -664,123 +1025,744 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/schedules", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/medications/:id/batches", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
     try {
-      const schedules = await storage.getSchedulesByOwner(req.session.userId!);
-      res.json(schedules);
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(req.session.userId!, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const batches = await storage.getBatchesByMedication(med.id);
+      res.json({
+        medName: med.name,
+        currentStock: med.currentStock,
+        doseUnit: med.doseUnit,
+        timeZone: med.timeZone,
+        batches,
+      });
     } catch (error) {
-      console.error("Get schedules error:", error);
+      console.error("Get batches error:", error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.get("/api/schedules/history", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/medications/:id/batches", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
     try {
-      const schedules = await storage.getConfirmedSchedulesByOwner(req.session.userId!);
-      const meds = await storage.getMedicationsByOwner(req.session.userId!);
-      const medMap = new Map(meds.map(m => [m.id, m]));
+      const parsed = insertStockBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
 
-      const enriched = schedules.map(s => ({
-        ...s,
-        medicationName: medMap.get(s.medId)?.name || "Remedio removido",
-        medicationDosage: medMap.get(s.medId)?.dosage || "",
-      }));
+      const userId = req.session.userId!;
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(userId, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      if (getDaysUntilExpiry(parsed.data, getLocalDay(Date.now(), med.timeZone)) < 0) {
+        return res.status(400).json({ message: "Batch is already expired" });
+      }
 
-      res.json(enriched);
+      const quantity = roundStock(parsed.data.quantity);
+      const batch = await storage.createBatch({
+        medId: med.id,
+        quantity,
+        expiresOn: parsed.data.expiresOn,
+        lotNumber: parsed.data.lotNumber || null,
+      });
+      await changeStock(med, roundStock(med.currentStock + quantity), { type: "RESTOCK", actorId: userId, relatedId: batch.id });
+      if (userId !== med.ownerId) {
+        await notifyDependentOfMedicationChange(userId, med, `adicionou ${formatQuantity(quantity, med.doseUnit)} de ${med.name} ao estoque`);
+      }
+      res.status(201).json(batch);
     } catch (error) {
-      console.error("Get history error:", error);
+      console.error("Create batch error:", error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.post("/api/schedules", requireAuth, async (req: Request, res: Response) => {
+  app.patch("/api/medications/:id/batches/:batchId", requireAuth, async (req: Request<{ id: string; batchId: string }>, res: Response) => {
     try {
-      const { medId, timeMillis } = req.body;
-      if (!medId || !timeMillis) {
-        return res.status(400).json({ message: "medId and timeMillis required" });
+      const parsed = updateStockBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
       }
 
-      const schedule = await storage.createSchedule({
-        medId,
-        timeMillis,
-        status: "PENDING",
-        confirmedAt: null,
-        ownerId: req.session.userId!,
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(req.session.userId!, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const batch = await storage.getBatchById(req.params.batchId);
+      if (!batch || batch.medId !== med.id) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      const { quantity, expiresOn, lotNumber } = parsed.data;
+      const updated = await storage.updateBatch(batch.id, {
+        quantity: quantity !== undefined ? roundStock(quantity) : undefined,
+        expiresOn,
+        lotNumber: lotNumber !== undefined ? lotNumber || null : undefined,
+        // A new expiry date deserves its own warning.
+        expiryNotifiedAt: expiresOn !== undefined && expiresOn !== batch.expiresOn ? null : undefined,
       });
-      res.status(201).json(schedule);
+      if (quantity !== undefined) {
+        await changeStock(med, roundStock(Math.max(0, med.currentStock + updated.quantity - batch.quantity)), {
+          type: "CORRECTION",
+          actorId: req.session.userId!,
+          relatedId: batch.id,
+        });
+      }
+      res.json(updated);
     } catch (error) {
-      console.error("Create schedule error:", error);
+      console.error("Update batch error:", error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.patch("/api/schedules/:id/confirm", requireAuth, async (req: Request, res: Response) => {
+  // Deleting a batch means it was thrown away, so its remaining quantity leaves the stock too.
+  app.delete("/api/medications/:id/batches/:batchId", requireAuth, async (req: Request<{ id: string; batchId: string }>, res: Response) => {
     try {
-      const schedule = await storage.getScheduleById(req.params.id);
-      if (!schedule) {
-        return res.status(404).json({ message: "Schedule not found" });
+      const userId = req.session.userId!;
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
       }
-      if (schedule.ownerId !== req.session.userId) {
-        return res.status(403).json({ message: "Not your schedule" });
+      if (!(await canManageMedication(userId, med))) {
+        return res.status(403).json({ message: "Not your medication" });
       }
-      await storage.updateScheduleStatus(req.params.id, "TAKEN", Date.now());
-      res.json({ message: "Dose confirmed" });
+      const batch = await storage.getBatchById(req.params.batchId);
+      if (!batch || batch.medId !== med.id) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      await storage.deleteBatch(batch.id);
+      const isExpired = getDaysUntilExpiry(batch, getLocalDay(Date.now(), med.timeZone)) < 0;
+      await changeStock(med, roundStock(Math.max(0, med.currentStock - batch.quantity)), {
+        type: isExpired ? "EXPIRED_DISCARD" : "CORRECTION",
+        actorId: userId,
+        relatedId: batch.id,
+      });
+      if (userId !== med.ownerId && batch.quantity > 0) {
+        await notifyDependentOfMedicationChange(userId, med, `descartou ${formatQuantity(batch.quantity, med.doseUnit)} de ${med.name}`);
+      }
+      res.json({ message: "Deleted" });
     } catch (error) {
-      console.error("Confirm dose error:", error);
+      console.error("Delete batch error:", error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.post("/api/medications/:id/take-dose", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/medications/:id/restocks", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
     try {
-      const medId = req.params.id;
-      const userId = req.session.userId!;
-      const now = Date.now();
-
-      const med = await storage.getMedicationById(medId);
+      const med = await storage.getMedicationById(req.params.id);
       if (!med) {
         return res.status(404).json({ message: "Medication not found" });
       }
-      if (med.ownerId !== userId) {
+      if (!(await canManageMedication(req.session.userId!, med))) {
         return res.status(403).json({ message: "Not your medication" });
       }
+      const restocks = await storage.getRestocksByMedication(med.id);
+      res.json({ medName: med.name, doseUnit: med.doseUnit, timeZone: med.timeZone, restocks });
+    } catch (error) {
+      console.error("Get restocks error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // A purchase adds its quantity to the stock and stays in the ledger for spending totals.
+  app.post("/api/medications/:id/restocks", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const parsed = insertRestockSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
 
-      const schedules = await storage.getConfirmedSchedulesByOwner(userId);
-      const medSchedules = schedules.filter(s => s.medId === medId);
-      const lastSchedule = medSchedules.length > 0 ? medSchedules[0] : null;
-      if (lastSchedule) {
-        const nextDoseTime = lastSchedule.timeMillis + med.intervalInHours * 60 * 60 * 1000;
-        const canTakeDose = now >= nextDoseTime - 5 * 60 * 1000;
-        if (!canTakeDose) {
-          return res.status(400).json({ message: "Too early to take this dose" });
-        }
+      const userId = req.session.userId!;
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(userId, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      if (dateStringToDay(parsed.data.purchasedOn) > getLocalDay(Date.now(), med.timeZone)) {
+        return res.status(400).json({ message: "Purchase date is in the future" });
       }
 
-      const schedule = await storage.createSchedule({
-        medId,
-        timeMillis: now,
-        status: "TAKEN",
-        confirmedAt: now,
-        ownerId: userId,
+      const quantity = roundStock(parsed.data.quantity);
+      const restock = await storage.createRestock({
+        medId: med.id,
+        ownerId: med.ownerId,
+        quantity,
+        purchasedOn: parsed.data.purchasedOn,
+        priceCents: parsed.data.priceCents ?? null,
+        pharmacy: parsed.data.pharmacy || null,
+        note: parsed.data.note || null,
+        recordedBy: userId,
       });
-
-      if (med.currentStock > 0) {
-        await storage.updateMedicationStock(medId, med.currentStock - 1);
+      await changeStock(med, roundStock(med.currentStock + quantity), { type: "RESTOCK", actorId: userId, relatedId: restock.id });
+      if (userId !== med.ownerId) {
+        await notifyDependentOfMedicationChange(userId, med, `comprou ${formatQuantity(quantity, med.doseUnit)} de ${med.name}`);
       }
+      res.status(201).json(restock);
+    } catch (error) {
+      console.error("Create restock error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
 
-      const newStock = Math.max(0, med.currentStock - 1);
-      try {
-        const dependent = await storage.getUserById(userId);
-        const supervisorRecipients =
-          dependent?.role === "DEPENDENT" ? await getMasterAndControllerRecipients(userId) : [];
+  app.patch("/api/medications/:id/restocks/:restockId", requireAuth, async (req: Request<{ id: string; restockId: string }>, res: Response) => {
+    try {
+      const parsed = updateRestockSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
 
-        if (newStock === 0) {
-          await createInAppAndPushNotification({
-            userId,
-            type: "STOCK_EMPTY",
-            title: "Estoque Zerado",
-            message: `${med.name} está sem estoque. Reponha o quanto antes.`,
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(req.session.userId!, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const restock = await storage.getRestockById(req.params.restockId);
+      if (!restock || restock.medId !== med.id) {
+        return res.status(404).json({ message: "Restock not found" });
+      }
+      const { purchasedOn, priceCents, pharmacy, note } = parsed.data;
+      if (purchasedOn && dateStringToDay(purchasedOn) > getLocalDay(Date.now(), med.timeZone)) {
+        return res.status(400).json({ message: "Purchase date is in the future" });
+      }
+
+      const updated = await storage.updateRestock(restock.id, {
+        purchasedOn,
+        priceCents,
+        pharmacy: pharmacy !== undefined ? pharmacy || null : undefined,
+        note: note !== undefined ? note || null : undefined,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update restock error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Removing a mistaken purchase takes its quantity back out of the stock.
+  app.delete("/api/medications/:id/restocks/:restockId", requireAuth, async (req: Request<{ id: string; restockId: string }>, res: Response) => {
+    try {
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(req.session.userId!, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const restock = await storage.getRestockById(req.params.restockId);
+      if (!restock || restock.medId !== med.id) {
+        return res.status(404).json({ message: "Restock not found" });
+      }
+
+      await storage.deleteRestock(restock.id);
+      const newStock = roundStock(Math.max(0, med.currentStock - restock.quantity));
+      await changeStock(med, newStock, { type: "CORRECTION", actorId: req.session.userId!, relatedId: restock.id });
+      await trimBatchesToStock({ ...med, currentStock: newStock });
+      res.json({ message: "Deleted" });
+    } catch (error) {
+      console.error("Delete restock error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/medications/:id/stock-movements", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(req.session.userId!, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const movements = await storage.getStockMovementsByMedication(med.id);
+      const actorIds = Array.from(new Set(movements.map(m => m.actorId).filter((id): id is string => id !== null)));
+      const actorNames = new Map<string, string>();
+      for (const actorId of actorIds) {
+        const actor = await storage.getUserById(actorId);
+        if (actor) actorNames.set(actorId, actor.name);
+      }
+      res.json({
+        medName: med.name,
+        currentStock: med.currentStock,
+        doseUnit: med.doseUnit,
+        movements: movements
+          .map(m => ({ ...m, actorName: m.actorId ? actorNames.get(m.actorId) ?? null : null }))
+          .reverse(),
+      });
+    } catch (error) {
+      console.error("Get stock movements error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Discards, losses and corrections that did not come from a dose or a purchase.
+  app.post("/api/medications/:id/stock-movements", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const parsed = insertStockMovementSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      const userId = req.session.userId!;
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(userId, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const newStock = roundStock(med.currentStock + parsed.data.quantity);
+      if (newStock < 0) {
+        return res.status(400).json({ message: "Movement exceeds current stock" });
+      }
+
+      await changeStock(med, newStock, { type: parsed.data.type, actorId: userId, note: parsed.data.note || null });
+      await trimBatchesToStock({ ...med, currentStock: newStock });
+      if (userId !== med.ownerId) {
+        await notifyDependentOfMedicationChange(
+          userId,
+          med,
+          `atualizou o estoque de ${med.name} para ${formatQuantity(newStock, med.doseUnit)}`
+        );
+      }
+      res.status(201).json({ currentStock: newStock });
+    } catch (error) {
+      console.error("Create stock movement error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Replays the ledger from zero; a difference or a gap means stock changed without a movement.
+  app.get("/api/medications/:id/stock-reconciliation", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const med = await storage.getMedicationById(req.params.id);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canManageMedication(req.session.userId!, med))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const movements = await storage.getStockMovementsByMedication(med.id);
+      res.json({
+        medId: med.id,
+        movementCount: movements.length,
+        ...reconcileStockLedger(movements, med.currentStock),
+      });
+    } catch (error) {
+      console.error("Stock reconciliation error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Monthly spending on the user's own medications and, for caregivers, on each accepted dependent's.
+  app.get("/api/spending", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId!;
+      const currentMonth = dayToDateString(getLocalDay(Date.now(), getRequestTimeZone(req))).slice(0, 7);
+      const months = getRecentMonths(currentMonth, SPENDING_MONTHS);
+
+      const conns = await storage.getConnectionsByMaster(userId);
+      const dependents = [];
+      for (const conn of conns.filter(c => c.status === "ACCEPTED")) {
+        const dependent = await storage.getUserById(conn.dependentId);
+        if (!dependent) continue;
+        dependents.push({
+          dependentId: dependent.id,
+          name: dependent.name,
+          months: await getMonthlySpending(dependent.id, months),
+        });
+      }
+
+      res.json({ months: await getMonthlySpending(userId, months), dependents });
+    } catch (error) {
+      console.error("Get spending error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Everything the household needs to buy: the user's own medications plus every accepted dependent's.
+  app.get("/api/shopping-list", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUserById(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const now = Date.now();
+      const withinDays = user.shoppingListDays;
+      const items = await getShoppingListItems(user, true, withinDays, now);
+
+      const conns = await storage.getConnectionsByMaster(user.id);
+      for (const conn of conns.filter(c => c.status === "ACCEPTED")) {
+        const dependent = await storage.getUserById(conn.dependentId);
+        if (!dependent) continue;
+        items.push(...(await getShoppingListItems(dependent, false, withinDays, now)));
+      }
+
+      const statusOrder = { EMPTY: 0, LOW: 1, OK: 2 };
+      items.sort(
+        (a, b) =>
+          statusOrder[a.stockStatus] - statusOrder[b.stockStatus] ||
+          (a.daysOfSupply ?? Infinity) - (b.daysOfSupply ?? Infinity)
+      );
+
+      res.json({ withinDays, items });
+    } catch (error) {
+      console.error("Get shopping list error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/schedules", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const schedules = await storage.getSchedulesByOwner(req.session.userId!);
+      res.json(schedules);
+    } catch (error) {
+      console.error("Get schedules error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/schedules/history", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const schedules = await storage.getConfirmedSchedulesByOwner(req.session.userId!);
+      const meds = await storage.getMedicationsByOwner(req.session.userId!);
+      const medMap = new Map(meds.map(m => [m.id, m]));
+
+      const enriched = schedules.map(s => ({
+        ...s,
+        medicationName: medMap.get(s.medId)?.name || "Remedio removido",
+        medicationDosage: s.dosage || medMap.get(s.medId)?.dosage || "",
+      }));
+
+      res.json(enriched);
+    } catch (error) {
+      console.error("Get history error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/schedules", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { medId, timeMillis } = req.body;
+      if (!medId || !timeMillis) {
+        return res.status(400).json({ message: "medId and timeMillis required" });
+      }
+
+      const schedule = await storage.createSchedule({
+        medId,
+        timeMillis,
+        status: "PENDING",
+        confirmedAt: null,
+        ownerId: req.session.userId!,
+      });
+      res.status(201).json(schedule);
+    } catch (error) {
+      console.error("Create schedule error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.patch("/api/schedules/:id/confirm", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const schedule = await storage.getScheduleById(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      if (schedule.ownerId !== req.session.userId) {
+        return res.status(403).json({ message: "Not your schedule" });
+      }
+      await storage.updateScheduleStatus(req.params.id, "TAKEN", Date.now());
+      res.json({ message: "Dose confirmed" });
+    } catch (error) {
+      console.error("Confirm dose error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.patch("/api/schedules/:id", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const parsed = correctDoseTimeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      const userId = req.session.userId!;
+      const now = Date.now();
+      const schedule = await storage.getScheduleById(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      if (schedule.performedBy !== userId && !(await canRecordDosesFor(userId, schedule.ownerId))) {
+        return res.status(403).json({ message: "Not your schedule" });
+      }
+      if (schedule.status !== "TAKEN") {
+        return res.status(400).json({ message: "Only taken doses can be corrected" });
+      }
+
+      const { takenAt } = parsed.data;
+      const previousConfirmedAt = schedule.confirmedAt ?? schedule.timeMillis;
+      if (takenAt > now) {
+        return res.status(400).json({ message: "Dose time cannot be in the future" });
+      }
+      // Bounded by the slot itself, so repeated corrections cannot walk a dose further away.
+      if (Math.abs(takenAt - schedule.timeMillis) > MAX_DOSE_BACKDATE_MS) {
+        return res.status(400).json({ message: "A dose can only be moved up to 24 hours from its scheduled time" });
+      }
+
+      const edit: DoseEdit = { action: "CORRECTED", editedAt: now, editedBy: userId, previousConfirmedAt, confirmedAt: takenAt };
+      const updated = await storage.updateSchedule(schedule.id, { confirmedAt: takenAt, edits: [...schedule.edits, edit] });
+
+      const med = await storage.getMedicationById(schedule.medId);
+      res.json({
+        schedule: updated,
+        medName: med?.name ?? null,
+        instructions: med ? formatInstructions(med) : null,
+        nextDoseAt: med ? await getUpcomingReminderTime(med, now) : null,
+      });
+    } catch (error) {
+      console.error("Correct dose error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.delete("/api/schedules/:id", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const userId = req.session.userId!;
+      const now = Date.now();
+      const schedule = await storage.getScheduleById(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      if (schedule.performedBy !== userId && !(await canRecordDosesFor(userId, schedule.ownerId))) {
+        return res.status(403).json({ message: "Not your schedule" });
+      }
+      if (schedule.status !== "TAKEN") {
+        return res.status(400).json({ message: "Only taken doses can be deleted" });
+      }
+
+      // The row stays as DELETED so the edit trail survives; it no longer counts as a dose anywhere.
+      const edit: DoseEdit = { action: "DELETED", editedAt: now, editedBy: userId, previousConfirmedAt: schedule.confirmedAt, confirmedAt: null };
+      await storage.updateSchedule(schedule.id, { status: "DELETED", edits: [...schedule.edits, edit] });
+
+      const med = await storage.getMedicationById(schedule.medId);
+      if (!med) {
+        return res.json({ medName: null, instructions: null, restoredStock: 0, nextDoseAt: null });
+      }
+
+      // Doses confirmed before stockDeducted was recorded restore the quantity in effect at the time.
+      const restoredStock = schedule.stockDeducted ?? getDosageAt(med, schedule.timeMillis).quantity;
+      if (restoredStock > 0) {
+        await changeStock(med, roundStock(med.currentStock + restoredStock), { type: "DOSE", actorId: userId, relatedId: schedule.id });
+        await storage.adjustBatchQuantities(schedule.batchDeductions, 1);
+      }
+
+      res.json({
+        medName: med.name,
+        instructions: formatInstructions(med),
+        restoredStock,
+        nextDoseAt: await getUpcomingReminderTime(med, now),
+      });
+    } catch (error) {
+      console.error("Delete dose error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/schedules/:id/undo", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const userId = req.session.userId!;
+      const now = Date.now();
+      const schedule = await storage.getScheduleById(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      if (schedule.ownerId !== userId && schedule.performedBy !== userId) {
+        return res.status(403).json({ message: "Not your schedule" });
+      }
+      if (schedule.status !== "TAKEN") {
+        return res.status(400).json({ message: "Only taken doses can be undone" });
+      }
+      if (schedule.takenRecordedAt === null || now - schedule.takenRecordedAt > DOSE_UNDO_WINDOW_MS) {
+        return res.status(400).json({ message: "This dose can no longer be undone" });
+      }
+
+      // A slot the monitor had opened goes back to how it was, keeping its edit trail; a row the take created goes away.
+      if (schedule.statusBeforeTaken) {
+        const edit: DoseEdit = { action: "UNDONE", editedAt: now, editedBy: userId, previousConfirmedAt: schedule.confirmedAt, confirmedAt: null };
+        await storage.updateSchedule(schedule.id, {
+          status: schedule.statusBeforeTaken,
+          confirmedAt: null,
+          stockDeducted: null,
+          takenRecordedAt: null,
+          statusBeforeTaken: null,
+          takenEarly: false,
+          batchDeductions: [],
+          performedBy: null,
+          edits: [...schedule.edits, edit],
+        });
+      } else {
+        await storage.deleteSchedule(schedule.id);
+      }
+      await storage.deleteDoseNotifications(schedule.id, ["STOCK_LOW", "STOCK_EMPTY", "PRN_LIMIT_REACHED", "DOSE_TAKEN_EARLY"]);
+
+      const med = await storage.getMedicationById(schedule.medId);
+      if (!med) {
+        return res.json({ medName: null, instructions: null, restoredStock: 0, nextDoseAt: null });
+      }
+
+      const restoredStock = schedule.stockDeducted ?? 0;
+      if (restoredStock > 0) {
+        await changeStock(med, roundStock(med.currentStock + restoredStock), { type: "DOSE", actorId: userId, relatedId: schedule.id });
+        await storage.adjustBatchQuantities(schedule.batchDeductions, 1);
+      }
+
+      res.json({
+        medName: med.name,
+        instructions: formatInstructions(med),
+        restoredStock,
+        nextDoseAt: await getUpcomingReminderTime(med, now),
+      });
+    } catch (error) {
+      console.error("Undo dose error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/medications/:id/take-dose", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const parsed = takeDoseSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      const medId = req.params.id;
+      const userId = req.session.userId!;
+      const now = Date.now();
+      // A dose registered late keeps the time it was actually taken, bounded to the last 24h.
+      const takenAt = parsed.data.takenAt ?? now;
+      if (takenAt > now + MINUTE_MS) {
+        return res.status(400).json({ message: "Dose time cannot be in the future" });
+      }
+      if (takenAt < now - MAX_DOSE_BACKDATE_MS) {
+        return res.status(400).json({ message: "Doses can only be backdated up to 24 hours" });
+      }
+
+      const med = await storage.getMedicationById(medId);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canRecordDosesFor(userId, med.ownerId))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const ownerId = med.ownerId;
+      if (med.archivedAt) {
+        return res.status(400).json({ message: "Medication is archived" });
+      }
+      if (med.pausedAt) {
+        return res.status(400).json({ message: "Medication is paused" });
+      }
+
+      const medSchedules = await storage.getSchedulesByMedication(medId);
+      const lastDoseAt = getLastSettledDoseAt(medSchedules);
+      const takenDoses = medSchedules.filter(s => s.status === "TAKEN").length;
+      if (isTreatmentFinished(med, takenDoses, now)) {
+        return res.status(400).json({ message: "Treatment already finished" });
+      }
+      if (lastDoseAt !== null && takenAt <= lastDoseAt) {
+        return res.status(400).json({ message: "Dose time must be after the last recorded dose" });
+      }
+
+      const isAsNeeded = med.scheduleType === "AS_NEEDED";
+      const recentDoseTimes = medSchedules
+        .filter(s => s.status === "TAKEN")
+        .map(s => s.confirmedAt ?? s.timeMillis)
+        .filter(time => time > takenAt - DAY_MS);
+      const nextDoseTime = getNextDoseTime(med, lastDoseAt, now);
+      if (isAsNeeded) {
+        const refusal = checkAsNeededLimits(med, recentDoseTimes, takenAt);
+        if (refusal) {
+          return res.status(400).json({
+            message: formatAsNeededRefusal(refusal, med.maxDosesPer24h, med.timeZone),
+            code: refusal.reason,
+            nextAllowedAt: refusal.nextAllowedAt,
+          });
+        }
+      } else if (!isDoseAvailable(med, nextDoseTime, takenAt) && !parsed.data.takeEarly) {
+        return res.status(400).json({ message: "Too early to take this dose", code: "TOO_EARLY", nextDoseAt: nextDoseTime });
+      }
+      const takenEarly = !isAsNeeded && !isDoseAvailable(med, nextDoseTime, takenAt);
+
+      // A dose taken while the monitor already opened a slot closes that slot instead of adding a row.
+      const openSchedule = isAsNeeded
+        ? undefined
+        : medSchedules.find(s => s.status === "PENDING" || (s.status === "MISSED" && s.timeMillis === nextDoseTime));
+      const doseTime = openSchedule?.timeMillis ?? (med.scheduleType === "FIXED_TIMES" && nextDoseTime !== null ? nextDoseTime : takenAt);
+      const { dosage, quantity } = getDosageAt(med, doseTime);
+      const newStock = roundStock(Math.max(0, med.currentStock - quantity));
+      const stockDeducted = roundStock(med.currentStock - newStock);
+      const batchDeductions = planBatchConsumption(
+        await storage.getBatchesByMedication(medId),
+        stockDeducted,
+        getLocalDay(now, med.timeZone)
+      );
+      const taken = {
+        status: "TAKEN",
+        confirmedAt: takenAt,
+        stockDeducted,
+        batchDeductions,
+        takenRecordedAt: now,
+        statusBeforeTaken: openSchedule?.status ?? null,
+        performedBy: userId,
+        takenEarly,
+        edits:
+          takenAt < now
+            ? [{ action: "BACKDATED", editedAt: now, editedBy: userId, previousConfirmedAt: null, confirmedAt: takenAt } satisfies DoseEdit]
+            : [],
+      };
+      const schedule = openSchedule
+        ? await storage.updateSchedule(openSchedule.id, taken)
+        : await storage.createSchedule({ medId, timeMillis: doseTime, dosage, ownerId, ...taken });
+
+      if (med.currentStock > 0) {
+        await changeStock(med, newStock, { type: "DOSE", actorId: userId, relatedId: schedule.id });
+        await storage.adjustBatchQuantities(batchDeductions, -1);
+      }
+      const nextDoseAt = isTreatmentFinished(med, takenDoses + 1, now)
+        ? null
+        : getNextReminderTime(med, Math.max(doseTime, takenAt));
+      const stockStatus = getStockStatus(newStock, med.alertThreshold, getDosageAt(med, nextDoseAt ?? now).quantity);
+      const remainingStock = formatQuantity(newStock, med.doseUnit);
+
+      try {
+        const dependent = await storage.getUserById(ownerId);
+        const supervisorRecipients =
+          dependent?.role === "DEPENDENT" ? await getMasterAndControllerRecipients(ownerId) : [];
+
+        if (stockStatus === "EMPTY") {
+          await createInAppAndPushNotification({
+            userId: ownerId,
+            type: "STOCK_EMPTY",
+            title: "Estoque Zerado",
+            message: newStock > 0
+              ? `${med.name} não tem estoque para a próxima dose (restam ${remainingStock}). Reponha o quanto antes.`
+              : `${med.name} está sem estoque. Reponha o quanto antes.`,
             relatedId: medId,
+            doseScheduleId: schedule.id,
           });
           if (dependent && supervisorRecipients.length > 0) {
             for (const recipientId of supervisorRecipients) {
@@ -790,16 +1772,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 title: "Estoque Zerado",
                 message: `${dependent.name}: ${med.name} sem estoque`,
                 relatedId: medId,
+                doseScheduleId: schedule.id,
               });
             }
           }
-        } else if (newStock > 0 && newStock <= med.alertThreshold) {
+        } else if (stockStatus === "LOW") {
           await createInAppAndPushNotification({
-            userId,
+            userId: ownerId,
             type: "STOCK_LOW",
             title: "Estoque Baixo",
-            message: `${med.name} com apenas ${newStock} unidades restantes`,
+            message: `${med.name} com apenas ${remainingStock} ${newStock === 1 ? "restante" : "restantes"}`,
             relatedId: medId,
+            doseScheduleId: schedule.id,
           });
           if (dependent && supervisorRecipients.length > 0) {
             for (const recipientId of supervisorRecipients) {
@@ -807,8 +1791,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 userId: recipientId,
                 type: "STOCK_LOW",
                 title: "Estoque Baixo",
-                message: `${dependent.name}: ${med.name} com apenas ${newStock} unidades restantes`,
+                message: `${dependent.name}: ${med.name} com apenas ${remainingStock} ${newStock === 1 ? "restante" : "restantes"}`,
                 relatedId: medId,
+                doseScheduleId: schedule.id,
               });
             }
           }
@@ -817,12 +1802,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Notification error (take-dose):", notifError);
       }
 
+      if (takenEarly && nextDoseTime !== null) {
+        try {
+          const owner = await storage.getUserById(ownerId);
+          if (owner?.role === "DEPENDENT") {
+            const actor = userId === ownerId ? owner : await storage.getUserById(userId);
+            const earlyBy = formatEarlyBy(nextDoseTime - takenAt);
+            const message = actor && actor.id !== owner.id
+              ? `${actor.name} deu ${med.name} para ${owner.name} ${earlyBy} antes do horário`
+              : `${owner.name} tomou ${med.name} ${earlyBy} antes do horário`;
+            for (const recipientId of await getMasterAndControllerRecipients(ownerId)) {
+              if (recipientId === userId) continue;
+              await createInAppAndPushNotification({
+                userId: recipientId,
+                type: "DOSE_TAKEN_EARLY",
+                title: "Dose Antecipada",
+                message,
+                relatedId: medId,
+                doseScheduleId: schedule.id,
+              });
+            }
+          }
+        } catch (notifError) {
+          console.error("Notification error (early dose):", notifError);
+        }
+      }
+
+      if (isAsNeeded && med.maxDosesPer24h && recentDoseTimes.length + 1 >= med.maxDosesPer24h) {
+        try {
+          const owner = await storage.getUserById(ownerId);
+          if (owner?.role === "DEPENDENT") {
+            for (const recipientId of await getMasterAndControllerRecipients(ownerId)) {
+              await createInAppAndPushNotification({
+                userId: recipientId,
+                type: "PRN_LIMIT_REACHED",
+                title: "Limite Diário Atingido",
+                message: `${owner.name} tomou ${med.maxDosesPer24h} doses de ${med.name} nas últimas 24h`,
+                relatedId: medId,
+                doseScheduleId: schedule.id,
+              });
+            }
+          }
+        } catch (notifError) {
+          console.error("Notification error (prn limit):", notifError);
+        }
+      }
+
       res.status(201).json({
         schedule,
         medName: med.name,
-        patientId: userId,
+        instructions: formatInstructions(med),
+        patientId: ownerId,
         timestamp: now,
         status: "TAKEN",
+        nextDoseAt,
       });
     } catch (error) {
       console.error("Take dose error:", error);
@@ -830,6 +1863,165 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/medications/:id/skip-dose", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const parsed = skipDoseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      const medId = req.params.id;
+      const userId = req.session.userId!;
+      const now = Date.now();
+      const { reason } = parsed.data;
+
+      const med = await storage.getMedicationById(medId);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canRecordDosesFor(userId, med.ownerId))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const ownerId = med.ownerId;
+      if (med.archivedAt) {
+        return res.status(400).json({ message: "Medication is archived" });
+      }
+      if (med.pausedAt) {
+        return res.status(400).json({ message: "Medication is paused" });
+      }
+      if (med.scheduleType === "AS_NEEDED") {
+        return res.status(400).json({ message: "As-needed doses cannot be skipped" });
+      }
+
+      const medSchedules = await storage.getSchedulesByMedication(medId);
+      const takenDoses = medSchedules.filter(s => s.status === "TAKEN").length;
+      if (isTreatmentFinished(med, takenDoses, now)) {
+        return res.status(400).json({ message: "Treatment already finished" });
+      }
+
+      // The dose being skipped is the open slot, or else the next one due.
+      const nextDoseTime = getNextDoseTime(med, getLastSettledDoseAt(medSchedules), now);
+      const openSchedule = medSchedules.find(s => s.status === "PENDING" || (s.status === "MISSED" && s.timeMillis === nextDoseTime));
+      const doseTime = openSchedule?.timeMillis ?? nextDoseTime;
+      if (doseTime === null) {
+        return res.status(400).json({ message: "No dose to skip" });
+      }
+
+      let schedule: DoseSchedule;
+      if (openSchedule) {
+        await storage.skipSchedule(openSchedule.id, reason, now, userId);
+        schedule = { ...openSchedule, status: "SKIPPED", skipReason: reason, confirmedAt: now, performedBy: userId };
+      } else {
+        schedule = await storage.createSchedule({
+          medId,
+          timeMillis: doseTime,
+          status: "SKIPPED",
+          confirmedAt: now,
+          dosage: getDosageAt(med, doseTime).dosage,
+          skipReason: reason,
+          performedBy: userId,
+          ownerId,
+        });
+      }
+
+      try {
+        const owner = await storage.getUserById(ownerId);
+        if (owner?.role === "DEPENDENT") {
+          const actor = userId === ownerId ? owner : await storage.getUserById(userId);
+          const message = actor && actor.id !== owner.id
+            ? `${actor.name} pulou uma dose de ${med.name} de ${owner.name}. Motivo: ${reason}`
+            : `${owner.name} pulou uma dose de ${med.name}. Motivo: ${reason}`;
+          for (const recipientId of await getMasterAndControllerRecipients(ownerId)) {
+            if (recipientId === userId) continue;
+            await createInAppAndPushNotification({
+              userId: recipientId,
+              type: "DOSE_SKIPPED",
+              title: "Dose Pulada",
+              message,
+              relatedId: medId,
+            });
+          }
+        }
+      } catch (notifError) {
+        console.error("Notification error (skip-dose):", notifError);
+      }
+
+      res.status(201).json({
+        schedule,
+        medName: med.name,
+        instructions: formatInstructions(med),
+        status: "SKIPPED",
+        nextDoseAt: getNextReminderTime(med, doseTime),
+      });
+    } catch (error) {
+      console.error("Skip dose error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/medications/:id/snooze-dose", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const parsed = snoozeDoseSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      const medId = req.params.id;
+      const userId = req.session.userId!;
+      const now = Date.now();
+
+      const med = await storage.getMedicationById(medId);
+      if (!med) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!(await canRecordDosesFor(userId, med.ownerId))) {
+        return res.status(403).json({ message: "Not your medication" });
+      }
+      const ownerId = med.ownerId;
+      if (med.archivedAt || med.pausedAt || med.scheduleType === "AS_NEEDED") {
+        return res.status(400).json({ message: "No pending dose to snooze" });
+      }
+
+      // The device reminder can fire just before the monitor opens the slot, so open it here if needed.
+      const medSchedules = await storage.getSchedulesByMedication(medId);
+      let pending = medSchedules.find(s => s.status === "PENDING");
+      if (!pending) {
+        const dueTime = getCurrentDueTime(med, getLastSettledDoseAt(medSchedules), now);
+        if (dueTime === null || medSchedules.some(s => s.status !== "DELETED" && s.timeMillis === dueTime)) {
+          return res.status(400).json({ message: "No pending dose to snooze" });
+        }
+        pending = await storage.createSchedule({
+          medId,
+          timeMillis: dueTime,
+          status: "PENDING",
+          confirmedAt: null,
+          dosage: getDosageAt(med, dueTime).dosage,
+          lastRemindedAt: now,
+          ownerId,
+        });
+      }
+
+      if (pending.snoozeCount >= MAX_DOSE_SNOOZES) {
+        return res.status(400).json({
+          message: `Você já adiou esta dose ${MAX_DOSE_SNOOZES} vezes. Tome ou pule a dose.`,
+          code: "SNOOZE_LIMIT_REACHED",
+        });
+      }
+
+      const schedule = await storage.snoozeSchedule(pending.id, now + parsed.data.minutes * MINUTE_MS, userId);
+      res.json({
+        schedule,
+        medName: med.name,
+        instructions: formatInstructions(med),
+        snoozedUntil: schedule.snoozedUntil,
+        snoozesLeft: MAX_DOSE_SNOOZES - schedule.snoozeCount,
+      });
+    } catch (error) {
+      console.error("Snooze dose error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   app.get("/api/connections", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = await storage.getUserById(req.session.userId!);
@@ -845,6 +2037,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             linkedName: dep?.name || "Unknown",
             linkedEmail: dep?.email || "",
             linkedRole: dep?.role || "",
+            linkedManaged: !!dep?.managedBy,
           });
         }
         res.json(enriched);
@@ -886,7 +2079,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!target) {
         target = await storage.getUserByEmail(parsed.data.targetId);
       }
-      if (!target) {
+      if (!target || target.managedBy) {
         return res.status(404).json({ message: "User not found" });
       }
 
@@ -939,6 +2132,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!conn) {
         return res.status(403).json({ message: "Você não tem permissão para remover esta conexão" });
       }
+      const dependent = await storage.getUserById(conn.dependentId);
+      if (dependent?.managedBy) {
+        return res.status(400).json({ message: "Managed profiles are removed with DELETE /api/managed-profiles/:id" });
+      }
       await storage.deleteConnection(req.params.id);
       res.json({ message: "Connection removed" });
     } catch (error) {
@@ -947,6 +2144,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/connections/:id/escalation", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const parsed = updateEscalationLevelSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      // The dependent decides the order in which their caregivers are alerted. Managed profiles never
+      // log in, so their caregivers (the managing master included) can set it too.
+      const userId = req.session.userId!;
+      const conn = await storage.getConnectionById(req.params.id);
+      if (!conn || (conn.dependentId !== userId && !(await isAcceptedMasterOf(userId, conn.dependentId)))) {
+        return res.status(403).json({ message: "Você não tem permissão para alterar esta conexão" });
+      }
+
+      const updated = await storage.setConnectionEscalationLevel(conn.id, parsed.data.escalationLevel);
+      res.json(updated);
+    } catch (error) {
+      console.error("Update escalation level error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   app.patch("/api/connections/:id/accept", requireAuth, async (req: Request, res: Response) => {
     try {
       const conns = await storage.getConnectionsByDependent(req.session.userId!);
@@ -980,26 +2200,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/dependents/:id/medications", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/managed-profiles", requireAuth, async (req: Request, res: Response) => {
     try {
-      const masterConns = await storage.getConnectionsByMaster(req.session.userId!);
-      const hasAccess = masterConns.some(
-        c => c.dependentId === req.params.id && c.status === "ACCEPTED"
-      );
-      if (!hasAccess) {
+      const user = await storage.getUserById(req.session.userId!);
+      if (!user || user.role !== "MASTER") {
+        return res.status(403).json({ message: "Only MASTER users can create managed profiles" });
+      }
+
+      const parsed = createManagedProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      // A managed profile takes a connection slot just like an invited dependent.
+      if (user.planType === "FREE") {
+        const count = await storage.getConnectionCount(user.id);
+        if (count >= 1) {
+          return res.status(403).json({
+            message: "Plano FREE limitado a 1 conexao. Faca upgrade para PREMIUM.",
+            requiresUpgrade: true,
+          });
+        }
+      }
+
+      const profile = await storage.createManagedProfile(user.id, parsed.data.name);
+      res.status(201).json({ id: profile.id, name: profile.name, role: profile.role, managedBy: profile.managedBy });
+    } catch (error) {
+      console.error("Create managed profile error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.delete("/api/managed-profiles/:id", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const profile = await storage.getUserById(req.params.id);
+      if (!profile || !profile.managedBy) {
+        return res.status(404).json({ message: "Managed profile not found" });
+      }
+      if (profile.managedBy !== req.session.userId) {
+        return res.status(403).json({ message: "Not your managed profile" });
+      }
+      await storage.deleteManagedProfile(profile.id);
+      res.json({ message: "Managed profile removed" });
+    } catch (error) {
+      console.error("Delete managed profile error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/dependents/:id/medications", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      if (!(await isAcceptedMasterOf(req.session.userId!, req.params.id))) {
         return res.status(403).json({ message: "Você não tem acesso aos medicamentos deste dependente" });
       }
-      const meds = await storage.getMedicationsByOwner(req.params.id);
+      const meds = await storage.getActiveMedicationsByOwner(req.params.id);
       const schedules = await storage.getConfirmedSchedulesByOwner(req.params.id);
+      const now = Date.now();
       
-      const enrichedMeds = meds.map(med => {
-        const medSchedules = schedules.filter(s => s.medId === med.id);
-        const lastSchedule = medSchedules.length > 0 ? medSchedules[0] : null;
-        return {
-          ...med,
-          lastDoseAt: lastSchedule ? lastSchedule.timeMillis : null
-        };
-      });
+      const enrichedMeds = meds.map(med => enrichMedicationForList(med, schedules.filter(s => s.medId === med.id), now));
       
       res.json(enrichedMeds);
     } catch (error) {
@@ -1008,6 +2266,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/dependents/:id/medications/:medId", requireAuth, async (req: Request<{ id: string; medId: string }>, res: Response) => {
+    try {
+      if (!(await isAcceptedMasterOf(req.session.userId!, req.params.id))) {
+        return res.status(403).json({ message: "Você não tem acesso aos medicamentos deste dependente" });
+      }
+      const med = await storage.getMedicationById(req.params.medId);
+      if (!med || med.ownerId !== req.params.id) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      res.json(med);
+    } catch (error) {
+      console.error("Get dependent medication error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/dependents/:id/medications", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const masterId = req.session.userId!;
+      const dependentId = req.params.id;
+      if (!(await isAcceptedMasterOf(masterId, dependentId))) {
+        return res.status(403).json({ message: "Você não tem acesso aos medicamentos deste dependente" });
+      }
+
+      const parsed = insertMedicationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      // The plan limit belongs to whoever owns the medications, here the dependent.
+      const dependent = await storage.getUserById(dependentId);
+      if (dependent && dependent.planType === "FREE") {
+        const existingMeds = await storage.getActiveMedicationsByOwner(dependentId);
+        if (existingMeds.length >= FREE_PLAN_MEDICATION_LIMIT) {
+          return res.status(403).json({
+            message: "Limite de 10 medicamentos atingido no plano Free do dependente.",
+            requiresUpgrade: true,
+          });
+        }
+      }
+
+      const med = await storage.createMedication({ ...parsed.data, ownerId: dependentId });
+      await recordStockMovement({ ...med, currentStock: 0 }, med.currentStock, { type: "OPENING_BALANCE", actorId: masterId });
+      await notifyDependentOfMedicationChange(masterId, med, `adicionou ${med.name} aos seus remédios`);
+      res.status(201).json(med);
+    } catch (error) {
+      console.error("Create dependent medication error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.patch("/api/dependents/:id/medications/:medId", requireAuth, async (req: Request<{ id: string; medId: string }>, res: Response) => {
+    try {
+      const masterId = req.session.userId!;
+      const dependentId = req.params.id;
+      if (!(await isAcceptedMasterOf(masterId, dependentId))) {
+        return res.status(403).json({ message: "Você não tem acesso aos medicamentos deste dependente" });
+      }
+
+      const parsed = updateMedicationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten() });
+      }
+
+      const existing = await storage.getMedicationById(req.params.medId);
+      if (!existing || existing.ownerId !== dependentId) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!keepsEarlyWindowWithinGaps(existing, parsed.data)) {
+        return res.status(400).json({ message: "Early window must be shorter than the gap between dose times" });
+      }
+
+      const before = parsed.data.currentStock !== undefined ? existing : undefined;
+      const updated = await storage.updateMedication(req.params.medId, dependentId, parsed.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (before) {
+        await recordStockMovement(before, updated.currentStock, { type: "CORRECTION", actorId: masterId });
+        await trimBatchesToStock(updated);
+      }
+      // As-needed doses have no due time, so open reminders would only turn into missed doses.
+      if (parsed.data.scheduleType === "AS_NEEDED") {
+        await storage.deletePendingSchedulesByMedication(updated.id);
+      }
+      await notifyDependentOfMedicationChange(masterId, updated, `alterou ${updated.name}`);
+      res.json(updated);
+    } catch (error) {
+      console.error("Update dependent medication error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/dependents/:id/medications/:medId/archive", requireAuth, async (req: Request<{ id: string; medId: string }>, res: Response) => {
+    try {
+      const masterId = req.session.userId!;
+      const dependentId = req.params.id;
+      if (!(await isAcceptedMasterOf(masterId, dependentId))) {
+        return res.status(403).json({ message: "Você não tem acesso aos medicamentos deste dependente" });
+      }
+
+      const med = await storage.getMedicationById(req.params.medId);
+      if (!med || med.ownerId !== dependentId) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+      if (!med.archivedAt) {
+        await storage.setMedicationArchivedAt(med.id, new Date());
+        await notifyDependentOfMedicationChange(masterId, med, `arquivou ${med.name}`);
+      }
+      res.json({ message: "Archived" });
+    } catch (error) {
+      console.error("Archive dependent medication error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.patch("/api/dependents/:id/medications/:medId/stock", requireAuth, async (req: Request<{ id: string; medId: string }>, res: Response) => {
+    try {
+      const masterId = req.session.userId!;
+      const dependentId = req.params.id;
+      if (!(await isAcceptedMasterOf(masterId, dependentId))) {
+        return res.status(403).json({ message: "Você não tem acesso aos medicamentos deste dependente" });
+      }
+
+      const { currentStock } = req.body;
+      if (typeof currentStock !== "number" || currentStock < 0) {
+        return res.status(400).json({ message: "Invalid stock value" });
+      }
+      const med = await storage.getMedicationById(req.params.medId);
+      if (!med || med.ownerId !== dependentId) {
+        return res.status(404).json({ message: "Medication not found" });
+      }
+
+      const newStock = roundStock(currentStock);
+      await changeStock(med, newStock, { type: "CORRECTION", actorId: masterId });
+      await trimBatchesToStock({ ...med, currentStock: newStock });
+      await notifyDependentOfMedicationChange(
+        masterId,
+        med,
+        `atualizou o estoque de ${med.name} para ${formatQuantity(newStock, med.doseUnit)}`
+      );
+      res.json({ message: "Stock updated" });
+    } catch (error) {
+      console.error("Update dependent stock error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   app.get("/api/dependents", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = await storage.getUserById(req.session.userId!);
@@ -1027,16 +2433,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const todaySchedules = schedules.filter(s => s.timeMillis >= todayStart);
         const takenToday = todaySchedules.filter(s => s.status === "TAKEN").length;
         const missedToday = todaySchedules.filter(s => s.status === "MISSED").length;
+        const skippedToday = todaySchedules.filter(s => s.status === "SKIPPED").length;
 
-        const meds = await storage.getMedicationsByOwner(dep.id);
+        const meds = await storage.getActiveMedicationsByOwner(dep.id);
 
         enriched.push({
           id: dep.id,
           name: dep.name,
           email: dep.email,
           role: dep.role,
+          managed: !!dep.managedBy,
           takenToday,
           missedToday,
+          skippedToday,
           totalMeds: meds.length,
         });
       }
@@ -1048,22 +2457,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/dependents/:id/history", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/dependents/:id/history", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
     try {
-      const user = await storage.getUserById(req.session.userId!);
-      if (!user || user.role !== "MASTER") {
-        return res.status(403).json({ message: "Only MASTER users can view dependent history" });
+      if (!(await isAcceptedMasterOf(req.session.userId!, req.params.id))) {
+        return res.status(403).json({ message: "Você não tem acesso ao histórico deste dependente" });
       }
 
       const depId = req.params.id;
-      const schedules = await storage.getSchedulesByOwnerWithStatus(depId, ["TAKEN", "MISSED"]);
+      const schedules = await storage.getSchedulesByOwnerWithStatus(depId, ["TAKEN", "MISSED", "SKIPPED"]);
       const meds = await storage.getMedicationsByOwner(depId);
       const medMap = new Map(meds.map(m => [m.id, m]));
+      const performerNames = new Map<string, string>();
+      for (const performerId of new Set(schedules.map(s => s.performedBy))) {
+        if (!performerId || performerId === depId) continue;
+        const performer = await storage.getUserById(performerId);
+        if (performer) performerNames.set(performerId, performer.name);
+      }
 
       const enriched = schedules.map(s => ({
         ...s,
         medicationName: medMap.get(s.medId)?.name || "Remedio removido",
-        medicationDosage: medMap.get(s.medId)?.dosage || "",
+        medicationDosage: s.dosage || medMap.get(s.medId)?.dosage || "",
+        performedByName: s.performedBy ? performerNames.get(s.performedBy) ?? null : null,
       }));
 
       res.json(enriched);
@@ -1103,6 +2518,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/notifications/:id/acknowledge", requireAuth, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const notif = await storage.getNotificationById(req.params.id);
+      if (!notif || notif.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      if (notif.type !== "DOSE_MISSED" || !notif.doseScheduleId) {
+        return res.status(400).json({ message: "Only missed-dose alerts can be acknowledged" });
+      }
+
+      // Acknowledging stops the escalation chain for everyone; a second acknowledgement is a no-op.
+      await storage.acknowledgeSchedule(notif.doseScheduleId, req.session.userId!, Date.now());
+      await storage.acknowledgeDoseNotifications(notif.doseScheduleId);
+      res.json({ message: "Missed dose acknowledged" });
+    } catch (error) {
+      console.error("Acknowledge notification error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   app.patch("/api/notifications/read-all", requireAuth, async (req: Request, res: Response) => {
     try {
       await storage.markAllNotificationsRead(req.session.userId!);
@@ -1,92 +1,138 @@
+import type { DoseSchedule, Medication, User } from "@shared/schema";
+import {
+    ESCALATION_STEP_MINUTES,
+    MINUTE_MS,
+    getCurrentDueTime,
+    getDosageAt,
+    getLastSettledDoseAt,
+    getLocalDay,
+    isResumeDue,
+    isTreatmentFinished,
+    resolveReminderRepeat,
+} from "@shared/dose-schedule";
+import { formatQuantity } from "@shared/dose-units";
+import { formatInstructions } from "@shared/medication-info";
+import { EXPIRY_WARNING_DAYS, getDaysUntilExpiry } from "@shared/stock-batches";
+import type { StockForecast } from "@shared/stock-forecast";
 import { storage } from "../storage";
 import { sendPushToUsers } from "./push";
+import { getCachedStockForecast } from "./forecast-cache";
 
 const CHECK_INTERVAL_MS = 60 * 1000;
-const MISSED_GRACE_MS = 60 * 60 * 1000;
 
 let monitorHandle: ReturnType<typeof setInterval> | null = null;
 
-function getDueTime(lastTakenMillis: number, intervalInHours: number): number {
-    return lastTakenMillis + intervalInHours * 60 * 60 * 1000;
+interface EscalationLevel {
+    level: number;
+    userIds: string[];
 }
 
-async function getMastersAndControllersForDependent(dependentId: string): Promise<string[]> {
+// Controllers linked to a master share that master's level; anyone reachable twice keeps the lowest one.
+async function getCaregiverEscalationLevels(dependentId: string): Promise<EscalationLevel[]> {
     const conns = await storage.getConnectionsByDependent(dependentId);
-    const acceptedMasterIds = conns.filter((conn) => conn.status === "ACCEPTED").map((conn) => conn.masterId);
-    const recipients = new Set<string>(acceptedMasterIds);
+    const levelByUser = new Map<string, number>();
+    const assign = (userId: string, level: number) => {
+        levelByUser.set(userId, Math.min(level, levelByUser.get(userId) ?? level));
+    };
+
+    for (const conn of conns.filter((c) => c.status === "ACCEPTED")) {
+        assign(conn.masterId, conn.escalationLevel);
 
-    for (const masterId of acceptedMasterIds) {
-        const masterConns = await storage.getConnectionsByMaster(masterId);
-        const accepted = masterConns.filter((conn) => conn.status === "ACCEPTED");
+        const masterConns = await storage.getConnectionsByMaster(conn.masterId);
+        const accepted = masterConns.filter((masterConn) => masterConn.status === "ACCEPTED");
 
-        for (const conn of accepted) {
-            const linkedUser = await storage.getUserById(conn.dependentId);
+        for (const masterConn of accepted) {
+            const linkedUser = await storage.getUserById(masterConn.dependentId);
             if (linkedUser?.role === "CONTROLLER") {
-                recipients.add(linkedUser.id);
+                assign(linkedUser.id, conn.escalationLevel);
             }
         }
     }
 
-    return Array.from(recipients);
+    const levels = new Map<number, string[]>();
+    for (const [userId, level] of levelByUser) {
+        levels.set(level, [...(levels.get(level) ?? []), userId]);
+    }
+    return Array.from(levels, ([level, userIds]) => ({ level, userIds })).sort((a, b) => a.level - b.level);
 }
 
-async function processMedicationCycle(medicationId: string): Promise<void> {
-    const medication = await storage.getMedicationById(medicationId);
-    if (!medication) return;
+async function getMastersAndControllersForDependent(dependentId: string): Promise<string[]> {
+    const levels = await getCaregiverEscalationLevels(dependentId);
+    return levels.flatMap((level) => level.userIds);
+}
 
-    const schedules = await storage.getSchedulesByOwner(medication.ownerId);
-    const medSchedules = schedules
-        .filter((schedule) => schedule.medId === medication.id)
-        .sort((a, b) => b.timeMillis - a.timeMillis);
+async function notifyDoseDue(medication: Medication, dosage: string, title: string): Promise<void> {
+    // Managed profiles never log in, so their reminders go to the caregivers who give the dose.
+    const owner = await storage.getUserById(medication.ownerId);
+    const recipients = owner?.managedBy ? await getMastersAndControllersForDependent(owner.id) : [medication.ownerId];
+    const reminder = owner?.managedBy
+        ? `Está na hora de dar ${medication.name} (${dosage}) para ${owner.name}.`
+        : `Está na hora do remédio ${medication.name} (${dosage}).`;
+    const instructions = formatInstructions(medication);
+    const message = instructions ? `${reminder} ${instructions}` : reminder;
 
-    const lastTaken = medSchedules.find((schedule) => schedule.status === "TAKEN");
-    if (!lastTaken) return;
+    await Promise.all(
+        recipients.map((userId) =>
+            storage.createNotification({
+                userId,
+                type: "DOSE_DUE",
+                title,
+                message,
+                relatedId: medication.id,
+            })
+        )
+    );
 
-    const now = Date.now();
-    const dueTime = getDueTime(lastTaken.timeMillis, medication.intervalInHours);
-    if (dueTime > now) return;
-
-    const duePending = medSchedules.find((schedule) => schedule.status === "PENDING" && schedule.timeMillis === dueTime);
-    const dueMissed = medSchedules.find((schedule) => schedule.status === "MISSED" && schedule.timeMillis === dueTime);
-
-    if (!duePending && !dueMissed) {
-        await storage.createSchedule({
-            medId: medication.id,
-            timeMillis: dueTime,
-            status: "PENDING",
-            confirmedAt: null,
-            ownerId: medication.ownerId,
-        });
+    await sendPushToUsers(recipients, {
+        title,
+        body: message,
+        data: { type: "DOSE_DUE", relatedId: medication.id },
+    });
+}
 
-        await storage.createNotification({
-            userId: medication.ownerId,
-            type: "DOSE_DUE",
-            title: "Hora do medicamento",
-            message: `Está na hora do remédio ${medication.name}.`,
-            relatedId: medication.id,
-        });
+// A snoozed dose only counts as missed once the grace period has passed after the snooze.
+function getMissedAt(medication: Medication, schedule: DoseSchedule): number {
+    return Math.max(schedule.timeMillis, schedule.snoozedUntil ?? 0) + medication.missedGraceMinutes * MINUTE_MS;
+}
 
-        await sendPushToUsers([medication.ownerId], {
-            title: "Hora do medicamento",
-            body: `Está na hora do remédio ${medication.name}.`,
-            data: { type: "DOSE_DUE", relatedId: medication.id },
-        });
-        return;
-    }
+async function sendRepeatReminders(medication: Medication, pending: DoseSchedule[], now: number): Promise<void> {
+    const owner = await storage.getUserById(medication.ownerId);
+    if (!owner) return;
 
-    if (!duePending) return;
-    if (now < dueTime + MISSED_GRACE_MS) return;
+    const repeat = resolveReminderRepeat(medication, owner);
+    for (const schedule of pending) {
+        if (schedule.reminderCount >= repeat.repeatReminderLimit) continue;
+        const lastRemindedAt = schedule.lastRemindedAt ?? schedule.timeMillis;
+        if (now < lastRemindedAt + repeat.repeatReminderMinutes * MINUTE_MS) continue;
 
-    await storage.updateScheduleStatus(duePending.id, "MISSED");
+        if (await storage.recordScheduleReminder(schedule.id, schedule.reminderCount, now)) {
+            await notifyDoseDue(medication, schedule.dosage ?? medication.dosage, "Dose ainda pendente");
+        }
+    }
+}
 
+/**
+ * Alerts the next caregiver level about a missed dose and schedules the following level,
+ * which is only reached if nobody acknowledges the alert within ESCALATION_STEP_MINUTES.
+ */
+async function escalateMissedDose(medication: Medication, schedule: DoseSchedule, now: number): Promise<void> {
+    if (schedule.caregiverAlertAt === null) return;
     const dependent = await storage.getUserById(medication.ownerId);
-    if (!dependent || dependent.role !== "DEPENDENT") return;
+    const levels = dependent?.role === "DEPENDENT" ? await getCaregiverEscalationLevels(dependent.id) : [];
+    const current = schedule.escalationLevel;
+    const next = levels.find((level) => current === null || level.level > current);
+    const hasMoreLevels = next !== undefined && levels.some((level) => level.level > next.level);
+    const nextAlertAt = hasMoreLevels ? now + ESCALATION_STEP_MINUTES * MINUTE_MS : null;
 
-    const recipients = await getMastersAndControllersForDependent(dependent.id);
-    if (recipients.length === 0) return;
+    if (!(await storage.advanceCaregiverAlert(schedule.id, schedule.caregiverAlertAt, next?.level ?? current, nextAlertAt))) return;
+    if (!dependent || !next) return;
 
-    const title = "Dose em atraso";
-    const message = `${dependent.name}: dose de ${medication.name} em atraso.`;
+    const recipients = next.userIds;
+    const title = current === null ? "Dose em atraso" : "Dose em atraso sem resposta";
+    const message =
+        current === null
+            ? `${dependent.name}: dose de ${medication.name} em atraso.`
+            : `${dependent.name}: dose de ${medication.name} em atraso e ninguém confirmou ciência ainda.`;
 
     await Promise.all(
         recipients.map((userId) =>
@@ -96,6 +142,7 @@ async function processMedicationCycle(medicationId: string): Promise<void> {
                 title,
                 message,
                 relatedId: medication.id,
+                doseScheduleId: schedule.id,
             })
         )
     );
@@ -103,12 +150,258 @@ async function processMedicationCycle(medicationId: string): Promise<void> {
     await sendPushToUsers(recipients, {
         title,
         body: message,
-        data: { type: "DOSE_MISSED", relatedId: medication.id, dependentId: dependent.id },
+        data: { type: "DOSE_MISSED", relatedId: medication.id, dependentId: dependent.id, doseScheduleId: schedule.id },
+    });
+}
+
+async function notifyTreatmentFinished(medication: Medication): Promise<void> {
+    const owner = await storage.getUserById(medication.ownerId);
+    if (!owner) return;
+
+    const title = "Tratamento concluído";
+    const ownerMessage = `O tratamento com ${medication.name} foi concluído.`;
+    await storage.createNotification({
+        userId: owner.id,
+        type: "TREATMENT_FINISHED",
+        title,
+        message: ownerMessage,
+        relatedId: medication.id,
+    });
+    await sendPushToUsers([owner.id], {
+        title,
+        body: ownerMessage,
+        data: { type: "TREATMENT_FINISHED", relatedId: medication.id },
+    });
+
+    if (owner.role !== "DEPENDENT") return;
+    const recipients = await getMastersAndControllersForDependent(owner.id);
+    if (recipients.length === 0) return;
+
+    const caregiverMessage = `${owner.name} concluiu o tratamento com ${medication.name}.`;
+    await Promise.all(
+        recipients.map((userId) =>
+            storage.createNotification({
+                userId,
+                type: "TREATMENT_FINISHED",
+                title,
+                message: caregiverMessage,
+                relatedId: medication.id,
+            })
+        )
+    );
+    await sendPushToUsers(recipients, {
+        title,
+        body: caregiverMessage,
+        data: { type: "TREATMENT_FINISHED", relatedId: medication.id, dependentId: owner.id },
     });
 }
 
+async function notifyMedicationResumed(medication: Medication): Promise<void> {
+    const title = "Medicamento retomado";
+    const message = `A pausa de ${medication.name} terminou. Os lembretes voltaram.`;
+    await storage.createNotification({
+        userId: medication.ownerId,
+        type: "MEDICATION_RESUMED",
+        title,
+        message,
+        relatedId: medication.id,
+    });
+    await sendPushToUsers([medication.ownerId], {
+        title,
+        body: message,
+        data: { type: "MEDICATION_RESUMED", relatedId: medication.id },
+    });
+}
+
+interface StockWatchers {
+    owner: User;
+    caregivers: string[];
+}
+
+async function getStockWatchers(medication: Medication): Promise<StockWatchers | null> {
+    const owner = await storage.getUserById(medication.ownerId);
+    if (!owner) return null;
+    const caregivers = owner.role === "DEPENDENT" ? await getMastersAndControllersForDependent(owner.id) : [];
+    return { owner, caregivers };
+}
+
+// Stock notices reach the owner (unless the profile is managed) and, for a dependent, their caregivers.
+async function sendStockNotice(
+    medication: Medication,
+    { owner, caregivers }: StockWatchers,
+    type: string,
+    title: string,
+    detail: string
+): Promise<void> {
+    const messages = new Map<string, string>();
+    if (!owner.managedBy) messages.set(owner.id, detail);
+    for (const userId of caregivers) messages.set(userId, `${owner.name}: ${detail}`);
+
+    for (const [userId, message] of messages) {
+        await storage.createNotification({ userId, type, title, message, relatedId: medication.id });
+        await sendPushToUsers([userId], {
+            title,
+            body: message,
+            data: { type, relatedId: medication.id },
+        });
+    }
+}
+
+function formatExpiry(daysLeft: number, expiresOn: string): string {
+    const date = expiresOn.split("-").reverse().join("/");
+    if (daysLeft < 0) return `venceu em ${date}`;
+    if (daysLeft === 0) return "vence hoje";
+    return `vence em ${daysLeft} dia${daysLeft > 1 ? "s" : ""} (${date})`;
+}
+
+// Each batch is announced once, when it enters the warning window (or right away if added already close to it).
+async function notifyExpiringBatches(medication: Medication, now: number): Promise<void> {
+    const today = getLocalDay(now, medication.timeZone);
+    const expiring = (await storage.getBatchesByMedication(medication.id)).filter(
+        (batch) => batch.quantity > 0 && batch.expiryNotifiedAt === null && getDaysUntilExpiry(batch, today) <= EXPIRY_WARNING_DAYS
+    );
+    if (expiring.length === 0) return;
+
+    const watchers = await getStockWatchers(medication);
+    if (!watchers) return;
+
+    for (const batch of expiring) {
+        if (!(await storage.claimBatchExpiryNotice(batch.id, new Date(now)))) continue;
+
+        const lot = batch.lotNumber ? ` (lote ${batch.lotNumber})` : "";
+        const detail = `${formatQuantity(batch.quantity, medication.doseUnit)} de ${medication.name}${lot} ${formatExpiry(getDaysUntilExpiry(batch, today), batch.expiresOn)}.`;
+        await sendStockNotice(medication, watchers, "EXPIRING_SOON", "Validade próxima", detail);
+    }
+}
+
+function formatRunOut(forecast: StockForecast): string {
+    const date = forecast.runsOutOn.split("-").reverse().join("/");
+    if (forecast.daysOfSupply === 0) return "acaba hoje";
+    return `acaba em ${forecast.daysOfSupply} dia${forecast.daysOfSupply > 1 ? "s" : ""} (${date})`;
+}
+
+// Announced once per shortage; the alert re-arms when a restock (or a schedule change) lifts the forecast again.
+async function checkRefillForecast(medication: Medication, medSchedules: DoseSchedule[], now: number): Promise<void> {
+    // Only the alert window matters here, so the projection stops there.
+    const forecast =
+        medication.refillAlertDays === null
+            ? null
+            : getCachedStockForecast(
+                  medication,
+                  {
+                      currentStock: medication.currentStock,
+                      lastDoseAt: getLastSettledDoseAt(medSchedules),
+                      takenDoses: medSchedules.filter((schedule) => schedule.status === "TAKEN").length,
+                  },
+                  now,
+                  medication.refillAlertDays
+              );
+    if (forecast === null) {
+        if (medication.refillAlertSentAt) await storage.clearRefillAlert(medication.id);
+        return;
+    }
+    if (medication.refillAlertSentAt || !(await storage.claimRefillAlert(medication.id, new Date(now)))) return;
+
+    const watchers = await getStockWatchers(medication);
+    if (!watchers) return;
+    const detail = `${medication.name} ${formatRunOut(forecast)}. Hora de repor o estoque.`;
+    await sendStockNotice(medication, watchers, "REFILL_DUE", "Hora de repor", detail);
+}
+
+async function processMedicationCycle(medicationId: string): Promise<void> {
+    let medication = await storage.getMedicationById(medicationId);
+    if (!medication || medication.archivedAt) return;
+
+    await notifyExpiringBatches(medication, Date.now());
+
+    if (medication.pausedAt) {
+        if (!isResumeDue(medication, Date.now())) return;
+        medication = await storage.resumeMedication(medication.id);
+        await notifyMedicationResumed(medication);
+    }
+
+    const medSchedules = await storage.getSchedulesByMedication(medication.id);
+    const now = Date.now();
+
+    if (medication.scheduleType !== "AS_NEEDED") {
+        const overduePending = medSchedules.filter(
+            (schedule) => schedule.status === "PENDING" && now >= getMissedAt(medication, schedule)
+        );
+        const caregiverAlertsDue = medSchedules.filter(
+            (schedule) => schedule.status === "MISSED" && schedule.caregiverAlertAt !== null && now >= schedule.caregiverAlertAt
+        );
+        for (const schedule of overduePending) {
+            const caregiverAlertAt = getMissedAt(medication, schedule) + medication.caregiverAlertDelayMinutes * MINUTE_MS;
+            await storage.markScheduleMissed(schedule.id, caregiverAlertAt);
+            if (now >= caregiverAlertAt) caregiverAlertsDue.push({ ...schedule, status: "MISSED", caregiverAlertAt });
+        }
+        for (const schedule of caregiverAlertsDue) {
+            await escalateMissedDose(medication, schedule, now);
+        }
+
+        const snoozeElapsed = medSchedules.filter(
+            (schedule) =>
+                schedule.status === "PENDING" &&
+                schedule.snoozedUntil !== null &&
+                now >= schedule.snoozedUntil &&
+                (schedule.lastRemindedAt ?? 0) < schedule.snoozedUntil &&
+                !overduePending.includes(schedule)
+        );
+        for (const schedule of snoozeElapsed) {
+            await storage.setScheduleRemindedAt(schedule.id, now);
+            await notifyDoseDue(medication, schedule.dosage ?? medication.dosage, "Lembrete adiado");
+        }
+
+        const awaitingConfirmation = medSchedules.filter(
+            (schedule) =>
+                schedule.status === "PENDING" &&
+                !overduePending.includes(schedule) &&
+                !snoozeElapsed.includes(schedule) &&
+                (schedule.snoozedUntil === null || now >= schedule.snoozedUntil)
+        );
+        if (awaitingConfirmation.length > 0) {
+            await sendRepeatReminders(medication, awaitingConfirmation, now);
+        }
+    }
+
+    const takenDoses = medSchedules.filter((schedule) => schedule.status === "TAKEN").length;
+    if (isTreatmentFinished(medication, takenDoses, now)) {
+        if (!medication.completedAt) {
+            await storage.setMedicationCompletedAt(medication.id, new Date(now));
+            await notifyTreatmentFinished(medication);
+        }
+        return;
+    }
+    // An edited end date or dose count can reopen a finished course.
+    if (medication.completedAt) {
+        await storage.setMedicationCompletedAt(medication.id, null);
+    }
+
+    await checkRefillForecast(medication, medSchedules, now);
+
+    if (medication.scheduleType === "AS_NEEDED") return;
+
+    const dueTime = getCurrentDueTime(medication, getLastSettledDoseAt(medSchedules), now);
+    if (dueTime === null) return;
+    // A deleted confirmation leaves its slot open again.
+    if (medSchedules.some((schedule) => schedule.status !== "DELETED" && schedule.timeMillis === dueTime)) return;
+
+    const { dosage } = getDosageAt(medication, dueTime);
+    await storage.createSchedule({
+        medId: medication.id,
+        timeMillis: dueTime,
+        status: "PENDING",
+        confirmedAt: null,
+        dosage,
+        lastRemindedAt: now,
+        ownerId: medication.ownerId,
+    });
+
+    await notifyDoseDue(medication, dosage, "Hora do medicamento");
+}
+
 async function runDoseMonitorCycle(): Promise<void> {
-    const meds = await storage.getAllMedications();
+    const meds = await storage.getAllActiveMedications();
     for (const med of meds) {
         try {
             await processMedicationCycle(med.id);
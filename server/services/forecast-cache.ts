@@ -0,0 +1,38 @@
+import type { Medication } from "@shared/schema";
+import { getLocalDay, getNextDoseTime } from "@shared/dose-schedule";
+import { MAX_FORECAST_DAYS, getStockForecast, type StockForecast, type StockForecastInput } from "@shared/stock-forecast";
+
+interface CachedForecast {
+    key: string;
+    day: number;
+    firstDoseAt: number;
+    forecast: StockForecast | null;
+}
+
+const forecastCache = new Map<string, CachedForecast>();
+
+/**
+ * getStockForecast, reused while the medication, its stock and dose count, the local day and the
+ * next dose stay the same, so list requests and monitor cycles do not repeat the dose walk.
+ */
+export function getCachedStockForecast(
+    medication: Medication,
+    input: StockForecastInput,
+    now: number,
+    horizonDays: number = MAX_FORECAST_DAYS
+): StockForecast | null {
+    const firstDoseAt = getNextDoseTime(medication, input.lastDoseAt, now);
+    if (firstDoseAt === null) return getStockForecast(medication, input, now, horizonDays);
+
+    const cacheKey = `${medication.id}:${horizonDays}`;
+    const key = JSON.stringify([medication, input]);
+    const day = getLocalDay(now, medication.timeZone);
+    const cached = forecastCache.get(cacheKey);
+    if (cached && cached.key === key && cached.day === day && cached.firstDoseAt === firstDoseAt) {
+        return cached.forecast;
+    }
+
+    const forecast = getStockForecast(medication, input, now, horizonDays);
+    forecastCache.set(cacheKey, { key, day, firstDoseAt, forecast });
+    return forecast;
+}
@@ -3,20 +3,34 @@ import {
   type InsertUser,
   type Medication,
   type InsertMedication,
+  type UpdateMedication,
   type DoseSchedule,
+  type InsertDoseSchedule,
   type Connection,
   type Notification,
   type PushToken,
+  type StockBatch,
+  type InsertStockBatch,
+  type UpdateStockBatch,
+  type Restock,
+  type InsertRestock,
+  type UpdateRestock,
+  type StockMovement,
+  type InsertStockMovement,
   users,
   medications,
   doseSchedules,
+  stockBatches,
+  restocks,
+  stockMovements,
   connections,
   notifications,
   pushTokens,
   passwordResetTokens,
 } from "@shared/schema";
+import type { BatchDeduction } from "@shared/stock-batches";
 import { drizzle } from "drizzle-orm/neon-serverless";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, desc, gte, sql, inArray, isNull, isNotNull } from "drizzle-orm";
 import ws from "ws";
 import { Pool, neonConfig } from "@neondatabase/serverless";
 
@@ -31,6 +45,8 @@ export const db = drizzle(pool);
 
 export interface IStorage {
   createUser(user: InsertUser & { password: string }): Promise<User>;
+  createManagedProfile(masterId: string, name: string): Promise<User>;
+  deleteManagedProfile(id: string): Promise<void>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserById(id: string): Promise<User | undefined>;
   updateUser(
@@ -53,30 +69,79 @@ export interface IStorage {
         | "subscriptionExpiresAt"
         | "subscriptionCanceledAt"
         | "subscriptionLastEventAt"
+        | "repeatReminderMinutes"
+        | "repeatReminderLimit"
+        | "shoppingListDays"
       >
     >
   ): Promise<User>;
   getMedicationsByOwner(ownerId: string): Promise<Medication[]>;
-  getAllMedications(): Promise<Medication[]>;
+  getActiveMedicationsByOwner(ownerId: string): Promise<Medication[]>;
+  getArchivedMedicationsByOwner(ownerId: string): Promise<Medication[]>;
+  getAllActiveMedications(): Promise<Medication[]>;
   getMedicationById(id: string): Promise<Medication | undefined>;
   createMedication(med: InsertMedication & { ownerId: string }): Promise<Medication>;
-  updateMedication(id: string, ownerId: string, data: Partial<Pick<Medication, "name" | "dosage" | "currentStock" | "alertThreshold" | "intervalInHours">>): Promise<Medication>;
-  deleteMedication(id: string, ownerId: string): Promise<void>;
+  updateMedication(id: string, ownerId: string, data: UpdateMedication): Promise<Medication>;
   updateMedicationStock(id: string, newStock: number): Promise<void>;
+  getBatchesByMedication(medId: string): Promise<StockBatch[]>;
+  getBatchById(id: string): Promise<StockBatch | undefined>;
+  createBatch(batch: InsertStockBatch & { medId: string }): Promise<StockBatch>;
+  updateBatch(id: string, data: UpdateStockBatch & { expiryNotifiedAt?: Date | null }): Promise<StockBatch>;
+  deleteBatch(id: string): Promise<void>;
+  adjustBatchQuantities(deductions: BatchDeduction[], direction: 1 | -1): Promise<void>;
+  claimBatchExpiryNotice(id: string, notifiedAt: Date): Promise<boolean>;
+  getRestocksByMedication(medId: string): Promise<Restock[]>;
+  getRestocksByOwner(ownerId: string, since: string): Promise<Restock[]>;
+  getRestockById(id: string): Promise<Restock | undefined>;
+  createRestock(restock: InsertRestock): Promise<Restock>;
+  updateRestock(id: string, data: UpdateRestock): Promise<Restock>;
+  deleteRestock(id: string): Promise<void>;
+  getStockMovementsByMedication(medId: string): Promise<StockMovement[]>;
+  hasStockMovements(medId: string): Promise<boolean>;
+  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+  claimRefillAlert(id: string, sentAt: Date): Promise<boolean>;
+  clearRefillAlert(id: string): Promise<void>;
+  setMedicationCompletedAt(id: string, completedAt: Date | null): Promise<void>;
+  setMedicationArchivedAt(id: string, archivedAt: Date | null): Promise<void>;
+  pauseMedication(id: string, resumeOn: string | null): Promise<Medication>;
+  resumeMedication(id: string): Promise<Medication>;
+  deletePendingSchedulesByMedication(medId: string): Promise<void>;
   getSchedulesByOwner(ownerId: string): Promise<DoseSchedule[]>;
   getScheduleById(id: string): Promise<DoseSchedule | undefined>;
+  getSchedulesByMedication(medId: string): Promise<DoseSchedule[]>;
   getConfirmedSchedulesByOwner(ownerId: string): Promise<DoseSchedule[]>;
-  createSchedule(schedule: Omit<DoseSchedule, "id">): Promise<DoseSchedule>;
+  createSchedule(schedule: InsertDoseSchedule): Promise<DoseSchedule>;
+  updateSchedule(id: string, data: Partial<InsertDoseSchedule>): Promise<DoseSchedule>;
+  deleteSchedule(id: string): Promise<void>;
   updateScheduleStatus(id: string, status: string, confirmedAt?: number): Promise<void>;
+  skipSchedule(id: string, reason: string, skippedAt: number, skippedBy: string): Promise<void>;
+  snoozeSchedule(id: string, snoozedUntil: number, snoozedBy: string): Promise<DoseSchedule>;
+  setScheduleRemindedAt(id: string, remindedAt: number): Promise<void>;
+  recordScheduleReminder(id: string, expectedCount: number, remindedAt: number): Promise<boolean>;
+  markScheduleMissed(id: string, caregiverAlertAt: number): Promise<void>;
+  advanceCaregiverAlert(id: string, expectedAlertAt: number, escalationLevel: number | null, nextAlertAt: number | null): Promise<boolean>;
+  acknowledgeSchedule(id: string, userId: string, acknowledgedAt: number): Promise<boolean>;
   createConnection(masterId: string, dependentId: string): Promise<Connection>;
+  getConnectionById(id: string): Promise<Connection | undefined>;
   getConnectionsByMaster(masterId: string): Promise<Connection[]>;
   getConnectionsByDependent(dependentId: string): Promise<Connection[]>;
   getConnectionCount(masterId: string): Promise<number>;
   acceptConnection(id: string): Promise<void>;
+  setConnectionEscalationLevel(id: string, escalationLevel: number): Promise<Connection>;
   deleteConnection(id: string): Promise<void>;
   getDependentsForMaster(masterId: string): Promise<User[]>;
-  createNotification(data: { userId: string; type: string; title: string; message: string; relatedId?: string }): Promise<Notification>;
+  createNotification(data: {
+    userId: string;
+    type: string;
+    title: string;
+    message: string;
+    relatedId?: string;
+    doseScheduleId?: string;
+  }): Promise<Notification>;
+  getNotificationById(id: string): Promise<Notification | undefined>;
   getNotificationsByUser(userId: string): Promise<Notification[]>;
+  acknowledgeDoseNotifications(doseScheduleId: string): Promise<void>;
+  deleteDoseNotifications(doseScheduleId: string, types: string[]): Promise<void>;
   getUnreadCountByUser(userId: string): Promise<number>;
   markNotificationRead(id: string): Promise<void>;
   markAllNotificationsRead(userId: string): Promise<void>;
@@ -96,6 +161,26 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async createManagedProfile(masterId: string, name: string): Promise<User> {
+    const [created] = await db.insert(users).values({ name, role: "DEPENDENT", managedBy: masterId }).returning();
+    await db.insert(connections).values({ masterId, dependentId: created.id, status: "ACCEPTED" });
+    return created;
+  }
+
+  async deleteManagedProfile(id: string): Promise<void> {
+    await db.delete(doseSchedules).where(eq(doseSchedules.ownerId, id));
+    const meds = await db.select({ id: medications.id }).from(medications).where(eq(medications.ownerId, id));
+    if (meds.length > 0) {
+      await db.delete(stockBatches).where(inArray(stockBatches.medId, meds.map((med) => med.id)));
+    }
+    await db.delete(restocks).where(eq(restocks.ownerId, id));
+    await db.delete(stockMovements).where(eq(stockMovements.ownerId, id));
+    await db.delete(medications).where(eq(medications.ownerId, id));
+    await db.delete(notifications).where(eq(notifications.userId, id));
+    await db.delete(connections).where(eq(connections.dependentId, id));
+    await db.delete(users).where(and(eq(users.id, id), isNotNull(users.managedBy)));
+  }
+
   async getUserByEmail(email: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.email, email));
     return user;
@@ -126,6 +211,9 @@ export class DatabaseStorage implements IStorage {
         | "subscriptionExpiresAt"
         | "subscriptionCanceledAt"
         | "subscriptionLastEventAt"
+        | "repeatReminderMinutes"
+        | "repeatReminderLimit"
+        | "shoppingListDays"
       >
     >
   ): Promise<User> {
@@ -137,8 +225,20 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(medications).where(eq(medications.ownerId, ownerId));
   }
 
-  async getAllMedications(): Promise<Medication[]> {
-    return db.select().from(medications);
+  async getActiveMedicationsByOwner(ownerId: string): Promise<Medication[]> {
+    return db.select().from(medications).where(and(eq(medications.ownerId, ownerId), isNull(medications.archivedAt)));
+  }
+
+  async getArchivedMedicationsByOwner(ownerId: string): Promise<Medication[]> {
+    return db
+      .select()
+      .from(medications)
+      .where(and(eq(medications.ownerId, ownerId), isNotNull(medications.archivedAt)))
+      .orderBy(desc(medications.archivedAt));
+  }
+
+  async getAllActiveMedications(): Promise<Medication[]> {
+    return db.select().from(medications).where(isNull(medications.archivedAt));
   }
 
   async getMedicationById(id: string): Promise<Medication | undefined> {
@@ -151,19 +251,140 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updateMedication(id: string, ownerId: string, data: Partial<Pick<Medication, "name" | "dosage" | "currentStock" | "alertThreshold" | "intervalInHours">>): Promise<Medication> {
+  async updateMedication(id: string, ownerId: string, data: UpdateMedication): Promise<Medication> {
     const [updated] = await db.update(medications).set(data).where(and(eq(medications.id, id), eq(medications.ownerId, ownerId))).returning();
     return updated;
   }
 
-  async deleteMedication(id: string, ownerId: string): Promise<void> {
-    await db.delete(medications).where(and(eq(medications.id, id), eq(medications.ownerId, ownerId)));
-  }
-
   async updateMedicationStock(id: string, newStock: number): Promise<void> {
     await db.update(medications).set({ currentStock: newStock }).where(eq(medications.id, id));
   }
 
+  async getBatchesByMedication(medId: string): Promise<StockBatch[]> {
+    return db.select().from(stockBatches).where(eq(stockBatches.medId, medId)).orderBy(stockBatches.expiresOn);
+  }
+
+  async getBatchById(id: string): Promise<StockBatch | undefined> {
+    const [batch] = await db.select().from(stockBatches).where(eq(stockBatches.id, id));
+    return batch;
+  }
+
+  async createBatch(batch: InsertStockBatch & { medId: string }): Promise<StockBatch> {
+    const [created] = await db.insert(stockBatches).values(batch).returning();
+    return created;
+  }
+
+  async updateBatch(id: string, data: UpdateStockBatch & { expiryNotifiedAt?: Date | null }): Promise<StockBatch> {
+    const [updated] = await db.update(stockBatches).set(data).where(eq(stockBatches.id, id)).returning();
+    return updated;
+  }
+
+  async deleteBatch(id: string): Promise<void> {
+    await db.delete(stockBatches).where(eq(stockBatches.id, id));
+  }
+
+  // Batches deleted in the meantime are simply skipped.
+  async adjustBatchQuantities(deductions: BatchDeduction[], direction: 1 | -1): Promise<void> {
+    for (const deduction of deductions) {
+      await db
+        .update(stockBatches)
+        .set({ quantity: sql`greatest(0, round((${stockBatches.quantity} + ${direction * deduction.quantity})::numeric, 2))` })
+        .where(eq(stockBatches.id, deduction.batchId));
+    }
+  }
+
+  async claimBatchExpiryNotice(id: string, notifiedAt: Date): Promise<boolean> {
+    const updated = await db
+      .update(stockBatches)
+      .set({ expiryNotifiedAt: notifiedAt })
+      .where(and(eq(stockBatches.id, id), isNull(stockBatches.expiryNotifiedAt)))
+      .returning({ id: stockBatches.id });
+    return updated.length > 0;
+  }
+
+  async getRestocksByMedication(medId: string): Promise<Restock[]> {
+    return db
+      .select()
+      .from(restocks)
+      .where(eq(restocks.medId, medId))
+      .orderBy(desc(restocks.purchasedOn), desc(restocks.createdAt));
+  }
+
+  async getRestocksByOwner(ownerId: string, since: string): Promise<Restock[]> {
+    return db
+      .select()
+      .from(restocks)
+      .where(and(eq(restocks.ownerId, ownerId), gte(restocks.purchasedOn, since)));
+  }
+
+  async getRestockById(id: string): Promise<Restock | undefined> {
+    const [restock] = await db.select().from(restocks).where(eq(restocks.id, id));
+    return restock;
+  }
+
+  async createRestock(restock: InsertRestock): Promise<Restock> {
+    const [created] = await db.insert(restocks).values(restock).returning();
+    return created;
+  }
+
+  async updateRestock(id: string, data: UpdateRestock): Promise<Restock> {
+    const [updated] = await db.update(restocks).set(data).where(eq(restocks.id, id)).returning();
+    return updated;
+  }
+
+  async deleteRestock(id: string): Promise<void> {
+    await db.delete(restocks).where(eq(restocks.id, id));
+  }
+
+  async getStockMovementsByMedication(medId: string): Promise<StockMovement[]> {
+    return db.select().from(stockMovements).where(eq(stockMovements.medId, medId)).orderBy(stockMovements.createdAt);
+  }
+
+  async hasStockMovements(medId: string): Promise<boolean> {
+    const rows = await db.select({ id: stockMovements.id }).from(stockMovements).where(eq(stockMovements.medId, medId)).limit(1);
+    return rows.length > 0;
+  }
+
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    const [created] = await db.insert(stockMovements).values(movement).returning();
+    return created;
+  }
+
+  async claimRefillAlert(id: string, sentAt: Date): Promise<boolean> {
+    const updated = await db
+      .update(medications)
+      .set({ refillAlertSentAt: sentAt })
+      .where(and(eq(medications.id, id), isNull(medications.refillAlertSentAt)))
+      .returning({ id: medications.id });
+    return updated.length > 0;
+  }
+
+  async clearRefillAlert(id: string): Promise<void> {
+    await db.update(medications).set({ refillAlertSentAt: null }).where(eq(medications.id, id));
+  }
+
+  async setMedicationCompletedAt(id: string, completedAt: Date | null): Promise<void> {
+    await db.update(medications).set({ completedAt }).where(eq(medications.id, id));
+  }
+
+  async setMedicationArchivedAt(id: string, archivedAt: Date | null): Promise<void> {
+    await db.update(medications).set({ archivedAt }).where(eq(medications.id, id));
+  }
+
+  async pauseMedication(id: string, resumeOn: string | null): Promise<Medication> {
+    const [updated] = await db.update(medications).set({ pausedAt: new Date(), resumeOn }).where(eq(medications.id, id)).returning();
+    return updated;
+  }
+
+  async resumeMedication(id: string): Promise<Medication> {
+    const [updated] = await db
+      .update(medications)
+      .set({ pausedAt: null, resumeOn: null, resumedAt: new Date() })
+      .where(eq(medications.id, id))
+      .returning();
+    return updated;
+  }
+
   async getSchedulesByOwner(ownerId: string): Promise<DoseSchedule[]> {
     return db.select().from(doseSchedules).where(eq(doseSchedules.ownerId, ownerId));
   }
@@ -173,26 +394,114 @@ export class DatabaseStorage implements IStorage {
     return schedule;
   }
 
+  async getSchedulesByMedication(medId: string): Promise<DoseSchedule[]> {
+    return db.select().from(doseSchedules).where(eq(doseSchedules.medId, medId)).orderBy(desc(doseSchedules.timeMillis));
+  }
+
+  // Skipped doses are deliberate decisions, so they are listed alongside taken ones.
   async getConfirmedSchedulesByOwner(ownerId: string): Promise<DoseSchedule[]> {
     return db.select().from(doseSchedules)
-      .where(and(eq(doseSchedules.ownerId, ownerId), eq(doseSchedules.status, "TAKEN")))
+      .where(and(eq(doseSchedules.ownerId, ownerId), inArray(doseSchedules.status, ["TAKEN", "SKIPPED"])))
       .orderBy(desc(doseSchedules.confirmedAt));
   }
 
-  async createSchedule(schedule: Omit<DoseSchedule, "id">): Promise<DoseSchedule> {
+  async createSchedule(schedule: InsertDoseSchedule): Promise<DoseSchedule> {
     const [created] = await db.insert(doseSchedules).values(schedule).returning();
     return created;
   }
 
+  async updateSchedule(id: string, data: Partial<InsertDoseSchedule>): Promise<DoseSchedule> {
+    const [updated] = await db.update(doseSchedules).set(data).where(eq(doseSchedules.id, id)).returning();
+    return updated;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    await db.delete(doseSchedules).where(eq(doseSchedules.id, id));
+  }
+
+  async deletePendingSchedulesByMedication(medId: string): Promise<void> {
+    await db.delete(doseSchedules).where(and(eq(doseSchedules.medId, medId), eq(doseSchedules.status, "PENDING")));
+  }
+
   async updateScheduleStatus(id: string, status: string, confirmedAt?: number): Promise<void> {
     await db.update(doseSchedules).set({ status, confirmedAt: confirmedAt ?? null }).where(eq(doseSchedules.id, id));
   }
 
+  async skipSchedule(id: string, reason: string, skippedAt: number, skippedBy: string): Promise<void> {
+    await db
+      .update(doseSchedules)
+      .set({ status: "SKIPPED", skipReason: reason, confirmedAt: skippedAt, performedBy: skippedBy })
+      .where(eq(doseSchedules.id, id));
+  }
+
+  async snoozeSchedule(id: string, snoozedUntil: number, snoozedBy: string): Promise<DoseSchedule> {
+    const [updated] = await db
+      .update(doseSchedules)
+      .set({ snoozedUntil, snoozeCount: sql`${doseSchedules.snoozeCount} + 1`, performedBy: snoozedBy })
+      .where(eq(doseSchedules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async setScheduleRemindedAt(id: string, remindedAt: number): Promise<void> {
+    await db.update(doseSchedules).set({ lastRemindedAt: remindedAt }).where(eq(doseSchedules.id, id));
+  }
+
+  // Only counts the reminder if no other cycle has sent it already, so a push is never duplicated.
+  async recordScheduleReminder(id: string, expectedCount: number, remindedAt: number): Promise<boolean> {
+    const updated = await db
+      .update(doseSchedules)
+      .set({ reminderCount: expectedCount + 1, lastRemindedAt: remindedAt })
+      .where(and(eq(doseSchedules.id, id), eq(doseSchedules.status, "PENDING"), eq(doseSchedules.reminderCount, expectedCount)))
+      .returning({ id: doseSchedules.id });
+    return updated.length > 0;
+  }
+
+  async markScheduleMissed(id: string, caregiverAlertAt: number): Promise<void> {
+    await db.update(doseSchedules).set({ status: "MISSED", caregiverAlertAt }).where(eq(doseSchedules.id, id));
+  }
+
+  // False when the dose was settled or acknowledged, or another cycle already sent this alert.
+  async advanceCaregiverAlert(
+    id: string,
+    expectedAlertAt: number,
+    escalationLevel: number | null,
+    nextAlertAt: number | null
+  ): Promise<boolean> {
+    const updated = await db
+      .update(doseSchedules)
+      .set({ escalationLevel, caregiverAlertAt: nextAlertAt })
+      .where(
+        and(
+          eq(doseSchedules.id, id),
+          eq(doseSchedules.status, "MISSED"),
+          eq(doseSchedules.caregiverAlertAt, expectedAlertAt),
+          isNull(doseSchedules.acknowledgedAt)
+        )
+      )
+      .returning({ id: doseSchedules.id });
+    return updated.length > 0;
+  }
+
+  async acknowledgeSchedule(id: string, userId: string, acknowledgedAt: number): Promise<boolean> {
+    const updated = await db
+      .update(doseSchedules)
+      .set({ acknowledgedAt, acknowledgedBy: userId, caregiverAlertAt: null })
+      .where(and(eq(doseSchedules.id, id), isNull(doseSchedules.acknowledgedAt)))
+      .returning({ id: doseSchedules.id });
+    return updated.length > 0;
+  }
+
   async createConnection(masterId: string, dependentId: string): Promise<Connection> {
     const [created] = await db.insert(connections).values({ masterId, dependentId }).returning();
     return created;
   }
 
+  async getConnectionById(id: string): Promise<Connection | undefined> {
+    const [conn] = await db.select().from(connections).where(eq(connections.id, id));
+    return conn;
+  }
+
   async getConnectionsByMaster(masterId: string): Promise<Connection[]> {
     return db.select().from(connections).where(eq(connections.masterId, masterId));
   }
@@ -210,6 +519,11 @@ export class DatabaseStorage implements IStorage {
     await db.update(connections).set({ status: "ACCEPTED" }).where(eq(connections.id, id));
   }
 
+  async setConnectionEscalationLevel(id: string, escalationLevel: number): Promise<Connection> {
+    const [updated] = await db.update(connections).set({ escalationLevel }).where(eq(connections.id, id)).returning();
+    return updated;
+  }
+
   async deleteConnection(id: string): Promise<void> {
     await db.delete(connections).where(eq(connections.id, id));
   }
@@ -219,11 +533,36 @@ export class DatabaseStorage implements IStorage {
     return allSchedules.filter(s => statuses.includes(s.status));
   }
 
-  async createNotification(data: { userId: string; type: string; title: string; message: string; relatedId?: string }): Promise<Notification> {
+  async createNotification(data: {
+    userId: string;
+    type: string;
+    title: string;
+    message: string;
+    relatedId?: string;
+    doseScheduleId?: string;
+  }): Promise<Notification> {
     const [created] = await db.insert(notifications).values(data).returning();
     return created;
   }
 
+  async getNotificationById(id: string): Promise<Notification | undefined> {
+    const [notif] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notif;
+  }
+
+  async acknowledgeDoseNotifications(doseScheduleId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ acknowledgedAt: new Date(), read: true })
+      .where(and(eq(notifications.doseScheduleId, doseScheduleId), eq(notifications.type, "DOSE_MISSED")));
+  }
+
+  async deleteDoseNotifications(doseScheduleId: string, types: string[]): Promise<void> {
+    await db
+      .delete(notifications)
+      .where(and(eq(notifications.doseScheduleId, doseScheduleId), inArray(notifications.type, types)));
+  }
+
   async getNotificationsByUser(userId: string): Promise<Notification[]> {
     return db.select().from(notifications).where(eq(notifications.userId, userId)).orderBy(desc(notifications.createdAt));
   }
@@ -0,0 +1,418 @@
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_EARLY_WINDOW_MINUTES = 5;
+export const EARLY_WINDOW_MINUTE_OPTIONS = [5, 15, 30, 60, 120] as const;
+export const DOSE_OVERDUE_AFTER_MS = 5 * MINUTE_MS;
+export const MAX_DOSE_SNOOZES = 3;
+export const DEFAULT_SNOOZE_MINUTES = 15;
+export const MAX_REPEAT_REMINDERS = 6;
+export const REPEAT_REMINDER_MINUTE_OPTIONS = [5, 10, 15, 30] as const;
+export const DEFAULT_REPEAT_REMINDER_MINUTES = 10;
+export const DEFAULT_MISSED_GRACE_MINUTES = 60;
+export const MISSED_GRACE_MINUTE_OPTIONS = [15, 30, 60, 120, 240] as const;
+export const CAREGIVER_ALERT_DELAY_MINUTE_OPTIONS = [0, 15, 30, 60, 120] as const;
+export const MAX_ESCALATION_LEVEL = 3;
+export const MAX_DOSE_BACKDATE_MS = DAY_MS;
+export const DOSE_UNDO_WINDOW_MS = 5 * MINUTE_MS;
+export const ESCALATION_STEP_MINUTES = 30;
+export const DEFAULT_TIME_ZONE = "America/Sao_Paulo";
+/** Sent by the app with every request so the server can use the device's calendar. */
+export const TIME_ZONE_HEADER = "X-Time-Zone";
+
+export const SCHEDULE_TYPES = ["INTERVAL", "FIXED_TIMES", "AS_NEEDED"] as const;
+export type ScheduleType = (typeof SCHEDULE_TYPES)[number];
+
+export const RECURRENCE_TYPES = ["DAILY", "DAYS_OF_WEEK", "EVERY_N_DAYS"] as const;
+export type RecurrenceType = (typeof RECURRENCE_TYPES)[number];
+export const MAX_RECURRENCE_EVERY_N_DAYS = 60;
+
+export const CLOCK_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Far enough to always reach the previous or next active day of any recurrence.
+const RECURRENCE_SEARCH_DAYS = MAX_RECURRENCE_EVERY_N_DAYS + 1;
+
+export interface DosePhase {
+  dosage: string;
+  quantity: number;
+  durationDays: number;
+}
+
+export interface DoseScheduleRule {
+  scheduleType: string;
+  intervalInHours: number;
+  scheduleTimes: string[];
+  timeZone: string;
+  recurrenceType: string;
+  recurrenceWeekdays: number[];
+  recurrenceEveryNDays: number;
+  startDate: string | null;
+  endDate: string | null;
+  totalDoses: number | null;
+  dosePhases: DosePhase[];
+  maxDosesPer24h: number | null;
+  minHoursBetweenDoses: number | null;
+  earlyWindowMinutes?: number;
+  createdAt?: Date | string | null;
+  resumedAt?: Date | string | null;
+}
+
+/** One entry of the trail kept on a dose: registered late, moved to another time, deleted, or undone. */
+export interface DoseEdit {
+  action: "BACKDATED" | "CORRECTED" | "DELETED" | "UNDONE";
+  editedAt: number;
+  editedBy: string;
+  previousConfirmedAt: number | null;
+  confirmedAt: number | null;
+}
+
+export interface DoseRecord {
+  status: string;
+  timeMillis: number;
+  confirmedAt: number | null;
+}
+
+export interface ReminderRepeatSettings {
+  repeatReminderMinutes: number;
+  repeatReminderLimit: number;
+}
+
+export type AsNeededRefusalReason = "MIN_INTERVAL" | "MAX_DAILY_DOSES";
+
+export interface AsNeededRefusal {
+  reason: AsNeededRefusalReason;
+  nextAllowedAt: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function normalizeScheduleTimes(times: string[]): string[] {
+  return Array.from(new Set(times.filter((time) => CLOCK_TIME_PATTERN.test(time)))).sort();
+}
+
+function toMillis(value: Date | string | null | undefined): number | null {
+  if (!value) return null;
+  const millis = value instanceof Date ? value.getTime() : new Date(value).getTime();
+  return Number.isNaN(millis) ? null : millis;
+}
+
+function clockTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Shortest wait between two consecutive fixed times, including the one across midnight. */
+export function getShortestScheduleGapMinutes(times: string[]): number | null {
+  const minutes = normalizeScheduleTimes(times).map(clockTimeToMinutes);
+  if (minutes.length === 0) return null;
+  const gaps = minutes.map((minute, i) => (i + 1 < minutes.length ? minutes[i + 1] : minutes[0] + 24 * 60) - minute);
+  return Math.min(...gaps);
+}
+
+// A window as wide as the gap between two times would let one dose be taken for the next slot too.
+export function isEarlyWindowWithinGaps(earlyWindowMinutes: number, times: string[]): boolean {
+  const gap = getShortestScheduleGapMinutes(times);
+  return gap === null || earlyWindowMinutes < gap;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getTimeZoneOffsetMs(millis: number, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(millis));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const wallClockAsUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour") % 24, get("minute"), get("second"));
+  return wallClockAsUtc - (millis - (((millis % 1000) + 1000) % 1000));
+}
+
+// Local calendar days are numbered like UTC days since the epoch, so they can be
+// compared and subtracted without caring about the zone they came from.
+export function getLocalDay(millis: number, timeZone: string): number {
+  return Math.floor((millis + getTimeZoneOffsetMs(millis, timeZone)) / DAY_MS);
+}
+
+export function getLocalTimeMillis(day: number, minuteOfDay: number, timeZone: string): number {
+  const wallClock = day * DAY_MS + minuteOfDay * MINUTE_MS;
+  const guess = wallClock - getTimeZoneOffsetMs(wallClock, timeZone);
+  return wallClock - getTimeZoneOffsetMs(guess, timeZone);
+}
+
+export function dateStringToDay(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+export function dayToDateString(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function getFirstActiveDay(rule: DoseScheduleRule): number | null {
+  if (rule.startDate) return dateStringToDay(rule.startDate);
+  const createdAt = toMillis(rule.createdAt);
+  return createdAt === null ? null : getLocalDay(createdAt, rule.timeZone);
+}
+
+/** Whether the recurrence rule allows doses on the given local day. */
+export function isActiveDay(rule: DoseScheduleRule, day: number): boolean {
+  const firstDay = getFirstActiveDay(rule);
+  if (rule.startDate && firstDay !== null && day < firstDay) return false;
+  if (rule.endDate && day > dateStringToDay(rule.endDate)) return false;
+
+  if (rule.recurrenceType === "DAYS_OF_WEEK") {
+    // Day 0 (1970-01-01) was a Thursday.
+    return rule.recurrenceWeekdays.includes((day + 4) % 7);
+  }
+  if (rule.recurrenceType === "EVERY_N_DAYS" && rule.recurrenceEveryNDays > 1) {
+    const anchor = firstDay ?? day;
+    const offset = day - anchor;
+    return ((offset % rule.recurrenceEveryNDays) + rule.recurrenceEveryNDays) % rule.recurrenceEveryNDays === 0;
+  }
+  return true;
+}
+
+// Moves a due time that falls on an inactive day to the same clock time on the next active day.
+function shiftToActiveDay(rule: DoseScheduleRule, millis: number, atDayStart = false): number | null {
+  const day = getLocalDay(millis, rule.timeZone);
+  if (isActiveDay(rule, day)) return millis;
+
+  const minuteOfDay = atDayStart ? 0 : Math.floor((millis + getTimeZoneOffsetMs(millis, rule.timeZone) - day * DAY_MS) / MINUTE_MS);
+  for (let next = day + 1; next <= day + RECURRENCE_SEARCH_DAYS; next++) {
+    if (isActiveDay(rule, next)) return getLocalTimeMillis(next, minuteOfDay, rule.timeZone);
+  }
+  return null;
+}
+
+function getFixedSlotsForDay(rule: DoseScheduleRule, day: number): number[] {
+  if (!isActiveDay(rule, day)) return [];
+  return normalizeScheduleTimes(rule.scheduleTimes).map((time) =>
+    getLocalTimeMillis(day, clockTimeToMinutes(time), rule.timeZone)
+  );
+}
+
+// Doses due before the medication existed, or while it was paused, are never owed.
+function getScheduleFloor(rule: DoseScheduleRule): number {
+  return Math.max(toMillis(rule.createdAt) ?? -Infinity, toMillis(rule.resumedAt) ?? -Infinity);
+}
+
+/** Latest fixed clock-time slot at or before `at`, never earlier than the medication's creation or last resume. */
+export function getPreviousFixedSlot(rule: DoseScheduleRule, at: number): number | null {
+  const floor = getScheduleFloor(rule);
+  const today = getLocalDay(at, rule.timeZone);
+
+  for (let day = today; day >= today - RECURRENCE_SEARCH_DAYS; day--) {
+    const slots = getFixedSlotsForDay(rule, day).filter((slot) => slot <= at).reverse();
+    if (slots.length > 0) {
+      return slots[0] >= floor ? slots[0] : null;
+    }
+  }
+  return null;
+}
+
+/** First fixed clock-time slot strictly after `after`. */
+export function getNextFixedSlot(rule: DoseScheduleRule, after: number): number | null {
+  const today = getLocalDay(after, rule.timeZone);
+
+  for (let day = today; day <= today + RECURRENCE_SEARCH_DAYS; day++) {
+    const slot = getFixedSlotsForDay(rule, day).find((candidate) => candidate > after);
+    if (slot !== undefined) return slot;
+  }
+  return null;
+}
+
+/** Fixed clock-time slots strictly after `after` and up to `until`, oldest first. */
+export function getFixedSlotsBetween(rule: DoseScheduleRule, after: number, until: number): number[] {
+  const slots: number[] = [];
+  const lastDay = getLocalDay(until, rule.timeZone);
+  for (let day = getLocalDay(after, rule.timeZone); day <= lastDay; day++) {
+    slots.push(...getFixedSlotsForDay(rule, day).filter((slot) => slot > after && slot <= until));
+  }
+  return slots;
+}
+
+/** How long before its due time a dose can be taken without the "take anyway" override. */
+export function getEarlyWindowMs(rule: DoseScheduleRule): number {
+  return (rule.earlyWindowMinutes ?? DEFAULT_EARLY_WINDOW_MINUTES) * MINUTE_MS;
+}
+
+/** Whether a dose due at `nextDoseTime` is already inside its early window at `at`. */
+export function isDoseAvailable(rule: DoseScheduleRule, nextDoseTime: number | null, at: number): boolean {
+  return nextDoseTime === null || at >= nextDoseTime - getEarlyWindowMs(rule);
+}
+
+// Taken doses settle the slot they were recorded against (see getLastSettledDoseAt), so no early window applies here.
+function isSlotCovered(slot: number, lastDoseAt: number | null): boolean {
+  return lastDoseAt !== null && lastDoseAt >= slot;
+}
+
+// After a pause, interval schedules restart from the next dose instead of the one before the pause.
+function getIntervalAnchor(rule: DoseScheduleRule, lastDoseAt: number | null): number | null {
+  return lastDoseAt !== null && lastDoseAt >= getScheduleFloor(rule) ? lastDoseAt : null;
+}
+
+/**
+ * Due time of the dose the patient should take next. It may be in the past when
+ * the dose is late. `null` means the medication can be taken right away.
+ */
+export function getNextDoseTime(rule: DoseScheduleRule, lastDoseAt: number | null, now: number): number | null {
+  if (rule.scheduleType === "FIXED_TIMES") {
+    const previous = getPreviousFixedSlot(rule, now + getEarlyWindowMs(rule));
+    if (previous !== null && !isSlotCovered(previous, lastDoseAt)) return previous;
+    return getNextFixedSlot(rule, now + getEarlyWindowMs(rule));
+  }
+
+  if (rule.scheduleType === "AS_NEEDED") {
+    return lastDoseAt && rule.minHoursBetweenDoses ? lastDoseAt + rule.minHoursBetweenDoses * HOUR_MS : null;
+  }
+
+  const anchor = getIntervalAnchor(rule, lastDoseAt);
+  if (!anchor) {
+    return isActiveDay(rule, getLocalDay(now, rule.timeZone)) ? null : shiftToActiveDay(rule, now, true);
+  }
+  return shiftToActiveDay(rule, anchor + rule.intervalInHours * HOUR_MS);
+}
+
+/** Due time already reached and not yet covered by a taken dose, as seen by the dose monitor. */
+export function getCurrentDueTime(rule: DoseScheduleRule, lastDoseAt: number | null, now: number): number | null {
+  if (rule.scheduleType === "AS_NEEDED") return null;
+
+  if (rule.scheduleType === "FIXED_TIMES") {
+    const slot = getPreviousFixedSlot(rule, now);
+    return slot !== null && !isSlotCovered(slot, lastDoseAt) ? slot : null;
+  }
+
+  const anchor = getIntervalAnchor(rule, lastDoseAt);
+  if (!anchor) return null;
+  const dueTime = shiftToActiveDay(rule, anchor + rule.intervalInHours * HOUR_MS);
+  return dueTime !== null && dueTime <= now ? dueTime : null;
+}
+
+/**
+ * When the device should remind about the following dose, counting from a dose settled at
+ * `fromMillis` (for fixed times, the slot the dose was recorded against).
+ */
+export function getNextReminderTime(rule: DoseScheduleRule, fromMillis: number): number | null {
+  if (rule.scheduleType === "AS_NEEDED") return null;
+  if (rule.scheduleType === "FIXED_TIMES") {
+    return getNextFixedSlot(rule, fromMillis);
+  }
+  return shiftToActiveDay(rule, fromMillis + rule.intervalInHours * HOUR_MS);
+}
+
+/**
+ * Phase of a tapering regimen in effect at `at`. Phases run back to back from the first
+ * active day; `null` means the medication has no phases or they have all run out.
+ */
+export function getDosePhase(rule: DoseScheduleRule, at: number): (DosePhase & { index: number }) | null {
+  const firstDay = getFirstActiveDay(rule);
+  if (rule.dosePhases.length === 0 || firstDay === null) return null;
+
+  let offset = getLocalDay(at, rule.timeZone) - firstDay;
+  if (offset < 0) return { ...rule.dosePhases[0], index: 0 };
+  for (let index = 0; index < rule.dosePhases.length; index++) {
+    const phase = rule.dosePhases[index];
+    if (offset < phase.durationDays) return { ...phase, index };
+    offset -= phase.durationDays;
+  }
+  return null;
+}
+
+/** Dosage text and quantity per dose that apply at `at`, following the tapering phases when there are any. */
+export function getDosageAt(
+  rule: DoseScheduleRule & { dosage: string; doseQuantity: number },
+  at: number
+): { dosage: string; quantity: number } {
+  const phase = getDosePhase(rule, at);
+  return phase ? { dosage: phase.dosage, quantity: phase.quantity } : { dosage: rule.dosage, quantity: rule.doseQuantity };
+}
+
+/** Whether the course is over: past its end date or last dose phase, or every planned dose has been taken. */
+export function isTreatmentFinished(rule: DoseScheduleRule, takenDoses: number, now: number): boolean {
+  if (rule.totalDoses && takenDoses >= rule.totalDoses) return true;
+
+  const today = getLocalDay(now, rule.timeZone);
+  if (rule.endDate && today > dateStringToDay(rule.endDate)) return true;
+
+  const firstDay = getFirstActiveDay(rule);
+  if (rule.dosePhases.length === 0 || firstDay === null) return false;
+  const phasesDays = rule.dosePhases.reduce((total, phase) => total + phase.durationDays, 0);
+  return today >= firstDay + phasesDays;
+}
+
+/**
+ * Checks an as-needed (PRN) dose against the rolling 24h maximum and the minimum gap
+ * between doses. Returns `null` when the dose is allowed.
+ */
+export function checkAsNeededLimits(rule: DoseScheduleRule, doseTimes: number[], now: number): AsNeededRefusal | null {
+  const recent = doseTimes.filter((time) => time > now - DAY_MS).sort((a, b) => a - b);
+  if (recent.length === 0) return null;
+
+  if (rule.minHoursBetweenDoses) {
+    const nextAllowedAt = recent[recent.length - 1] + rule.minHoursBetweenDoses * HOUR_MS;
+    if (now < nextAllowedAt) return { reason: "MIN_INTERVAL", nextAllowedAt };
+  }
+
+  if (rule.maxDosesPer24h && recent.length >= rule.maxDosesPer24h) {
+    // The window frees up when the oldest of the last `max` doses turns 24h old.
+    return { reason: "MAX_DAILY_DOSES", nextAllowedAt: recent[recent.length - rule.maxDosesPer24h] + DAY_MS };
+  }
+
+  return null;
+}
+
+/** Re-reminder settings for a medication: its own override when it has one, otherwise the owner's defaults. */
+export function resolveReminderRepeat(
+  med: { repeatReminderMinutes: number | null; repeatReminderLimit: number | null },
+  defaults: ReminderRepeatSettings
+): ReminderRepeatSettings {
+  if (med.repeatReminderLimit === null) return defaults;
+  return {
+    repeatReminderMinutes: med.repeatReminderMinutes ?? defaults.repeatReminderMinutes,
+    repeatReminderLimit: med.repeatReminderLimit,
+  };
+}
+
+/**
+ * When the latest dose slot was settled: the moment a dose was taken, or the due time of a
+ * skipped one. Skipping moves the schedule on to the following dose without counting as taken.
+ */
+export function getLastSettledDoseAt(records: DoseRecord[]): number | null {
+  const settled = records
+    .filter((record) => record.status === "TAKEN" || record.status === "SKIPPED")
+    .map((record) => {
+      if (record.status !== "TAKEN") return record.timeMillis;
+      // A dose taken ahead of its due time still settles the slot it was recorded against.
+      return Math.max(record.timeMillis, record.confirmedAt ?? record.timeMillis);
+    });
+  return settled.length > 0 ? Math.max(...settled) : null;
+}
+
+/** Whether a paused medication has reached its automatic resume date (a local calendar day). */
+export function isResumeDue(rule: DoseScheduleRule & { resumeOn: string | null }, now: number): boolean {
+  return rule.resumeOn !== null && getLocalDay(now, rule.timeZone) >= dateStringToDay(rule.resumeOn);
+}
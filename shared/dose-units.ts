@@ -0,0 +1,43 @@
+export const DOSE_UNITS = ["TABLET", "CAPSULE", "ML", "DROPS", "PUFFS", "INSULIN_UNITS"] as const;
+export type DoseUnit = (typeof DOSE_UNITS)[number];
+
+export const DEFAULT_DOSE_UNIT: DoseUnit = "TABLET";
+
+const DOSE_UNIT_LABELS: Record<DoseUnit, { singular: string; plural: string; short: string }> = {
+  TABLET: { singular: "comprimido", plural: "comprimidos", short: "comp." },
+  CAPSULE: { singular: "cápsula", plural: "cápsulas", short: "cáps." },
+  ML: { singular: "ml", plural: "ml", short: "ml" },
+  DROPS: { singular: "gota", plural: "gotas", short: "gotas" },
+  PUFFS: { singular: "jato", plural: "jatos", short: "jatos" },
+  INSULIN_UNITS: { singular: "UI", plural: "UI", short: "UI" },
+};
+
+export type StockStatus = "EMPTY" | "LOW" | "OK";
+
+function toDoseUnit(unit: string): DoseUnit {
+  return (DOSE_UNITS as readonly string[]).includes(unit) ? (unit as DoseUnit) : DEFAULT_DOSE_UNIT;
+}
+
+// Stock is kept in the dose unit, so fractional doses (2.5 ml) must not leave float noise behind.
+export function roundStock(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getDoseUnitLabel(unit: string, quantity = 2): string {
+  const labels = DOSE_UNIT_LABELS[toDoseUnit(unit)];
+  return quantity === 1 ? labels.singular : labels.plural;
+}
+
+/** "2 comprimidos", "2,5 ml"; `short` gives the compact form used on cards. */
+export function formatQuantity(quantity: number, unit: string, short = false): string {
+  const value = roundStock(quantity).toLocaleString("pt-BR");
+  const label = short ? DOSE_UNIT_LABELS[toDoseUnit(unit)].short : getDoseUnitLabel(unit, quantity);
+  return `${value} ${label}`;
+}
+
+/** Stock is empty once it cannot cover a full dose, and low at or below the alert threshold. */
+export function getStockStatus(currentStock: number, alertThreshold: number, doseQuantity: number): StockStatus {
+  if (currentStock <= 0 || currentStock < doseQuantity) return "EMPTY";
+  if (currentStock <= alertThreshold) return "LOW";
+  return "OK";
+}
@@ -0,0 +1,130 @@
+export const MEDICATION_FORMS = [
+  "TABLET",
+  "CAPSULE",
+  "SOLUTION",
+  "SUSPENSION",
+  "SYRUP",
+  "DROPS",
+  "INHALER",
+  "INJECTION",
+  "CREAM",
+  "PATCH",
+  "SUPPOSITORY",
+  "OTHER",
+] as const;
+export type MedicationForm = (typeof MEDICATION_FORMS)[number];
+
+export const STRENGTH_UNITS = ["MG", "MCG", "G", "MG_ML", "UI", "PERCENT"] as const;
+export type StrengthUnit = (typeof STRENGTH_UNITS)[number];
+
+export const ADMINISTRATION_ROUTES = [
+  "ORAL",
+  "SUBLINGUAL",
+  "TOPICAL",
+  "INHALED",
+  "NASAL",
+  "OPHTHALMIC",
+  "OTIC",
+  "RECTAL",
+  "VAGINAL",
+  "SUBCUTANEOUS",
+  "INTRAMUSCULAR",
+  "TRANSDERMAL",
+] as const;
+export type AdministrationRoute = (typeof ADMINISTRATION_ROUTES)[number];
+
+export const DOSE_INSTRUCTIONS = [
+  "WITH_FOOD",
+  "EMPTY_STOMACH",
+  "WITH_WATER",
+  "BEFORE_BED",
+  "DO_NOT_CRUSH",
+  "AVOID_ALCOHOL",
+] as const;
+export type DoseInstruction = (typeof DOSE_INSTRUCTIONS)[number];
+
+export const MAX_INSTRUCTIONS_NOTE_LENGTH = 200;
+export const MAX_PRESCRIBER_LENGTH = 80;
+export const MAX_CONDITION_LENGTH = 80;
+
+export const MEDICATION_FORM_LABELS: Record<MedicationForm, string> = {
+  TABLET: "Comprimido",
+  CAPSULE: "Cápsula",
+  SOLUTION: "Solução",
+  SUSPENSION: "Suspensão",
+  SYRUP: "Xarope",
+  DROPS: "Gotas",
+  INHALER: "Inalador",
+  INJECTION: "Injetável",
+  CREAM: "Creme/pomada",
+  PATCH: "Adesivo",
+  SUPPOSITORY: "Supositório",
+  OTHER: "Outro",
+};
+
+export const STRENGTH_UNIT_LABELS: Record<StrengthUnit, string> = {
+  MG: "mg",
+  MCG: "mcg",
+  G: "g",
+  MG_ML: "mg/ml",
+  UI: "UI",
+  PERCENT: "%",
+};
+
+export const ADMINISTRATION_ROUTE_LABELS: Record<AdministrationRoute, string> = {
+  ORAL: "Oral",
+  SUBLINGUAL: "Sublingual",
+  TOPICAL: "Tópica",
+  INHALED: "Inalatória",
+  NASAL: "Nasal",
+  OPHTHALMIC: "Oftálmica",
+  OTIC: "Otológica",
+  RECTAL: "Retal",
+  VAGINAL: "Vaginal",
+  SUBCUTANEOUS: "Subcutânea",
+  INTRAMUSCULAR: "Intramuscular",
+  TRANSDERMAL: "Transdérmica",
+};
+
+export const DOSE_INSTRUCTION_LABELS: Record<DoseInstruction, string> = {
+  WITH_FOOD: "Tomar com alimentos",
+  EMPTY_STOMACH: "Tomar em jejum",
+  WITH_WATER: "Tomar com um copo de água",
+  BEFORE_BED: "Tomar antes de dormir",
+  DO_NOT_CRUSH: "Não partir nem mastigar",
+  AVOID_ALCOHOL: "Evitar bebida alcoólica",
+};
+
+export function formatStrength(value: number | null, unit: string | null): string | null {
+  if (value === null || !unit) return null;
+  const label = STRENGTH_UNIT_LABELS[unit as StrengthUnit] ?? unit;
+  return `${value.toLocaleString("pt-BR")}${unit === "PERCENT" ? "" : " "}${label}`;
+}
+
+/** The preset instructions followed by the free-text note, or null when there is nothing to tell. */
+export function formatInstructions(med: { instructions: string[]; instructionsNote: string | null }): string | null {
+  const parts = med.instructions.map((instruction) => DOSE_INSTRUCTION_LABELS[instruction as DoseInstruction] ?? instruction);
+  if (med.instructionsNote) parts.push(med.instructionsNote);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+/** Form, strength, route, condition and prescriber in one line, skipping whatever was left blank. */
+export function formatMedicationDetails(med: {
+  form: string | null;
+  strengthValue: number | null;
+  strengthUnit: string | null;
+  administrationRoute: string | null;
+  prescriber: string | null;
+  condition: string | null;
+}): string | null {
+  const parts = [
+    med.form ? MEDICATION_FORM_LABELS[med.form as MedicationForm] ?? med.form : null,
+    formatStrength(med.strengthValue, med.strengthUnit),
+    med.administrationRoute
+      ? `via ${(ADMINISTRATION_ROUTE_LABELS[med.administrationRoute as AdministrationRoute] ?? med.administrationRoute).toLowerCase()}`
+      : null,
+    med.condition ? `para ${med.condition}` : null,
+    med.prescriber ? `receitado por ${med.prescriber}` : null,
+  ].filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
@@ -0,0 +1,78 @@
+export const MAX_PHARMACY_LENGTH = 80;
+export const MAX_RESTOCK_NOTE_LENGTH = 200;
+export const SPENDING_MONTHS = 6;
+
+export interface RestockRecord {
+  medId: string;
+  purchasedOn: string;
+  priceCents: number | null;
+}
+
+export interface MedicationSpending {
+  medId: string;
+  medName: string;
+  totalCents: number;
+}
+
+export interface MonthlySpending {
+  /** "YYYY-MM" */
+  month: string;
+  totalCents: number;
+  medications: MedicationSpending[];
+}
+
+/** "R$ 1.234,50" */
+export function formatPrice(cents: number): string {
+  const [whole, fraction] = (cents / 100).toFixed(2).split(".");
+  return `R$ ${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ".")},${fraction}`;
+}
+
+const MONTH_LABELS = ["jan", "fev", "mar", "abr", "mai", "jun", "jul", "ago", "set", "out", "nov", "dez"];
+
+/** "2026-10" → "out/2026" */
+export function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split("-");
+  return `${MONTH_LABELS[Number(monthNumber) - 1]}/${year}`;
+}
+
+/** "12,50" → 1250, or null when the text is not a price. */
+export function parsePriceInput(text: string): number | null {
+  const trimmed = text.trim();
+  // With a comma the dots are thousands separators; without one a dot is the decimal point.
+  const normalized = trimmed.includes(",") ? trimmed.replace(/\./g, "").replace(",", ".") : trimmed;
+  if (!/^\d+(\.\d{1,2})?$/.test(normalized)) return null;
+  return Math.round(Number(normalized) * 100);
+}
+
+/** `count` months ending at `currentMonth` ("YYYY-MM"), newest first. */
+export function getRecentMonths(currentMonth: string, count: number): string[] {
+  const [year, month] = currentMonth.split("-").map(Number);
+  return Array.from({ length: count }, (_, index) => {
+    const monthIndex = year * 12 + (month - 1) - index;
+    return `${Math.floor(monthIndex / 12)}-${String((monthIndex % 12) + 1).padStart(2, "0")}`;
+  });
+}
+
+/**
+ * Adds up the priced purchases per month and medication. Every month in `months` is kept, even
+ * without spending, and medications within a month are sorted by what they cost.
+ */
+export function summarizeSpending(
+  restocks: RestockRecord[],
+  medNames: Map<string, string>,
+  months: string[]
+): MonthlySpending[] {
+  return months.map((month) => {
+    const totals = new Map<string, number>();
+    for (const restock of restocks) {
+      if (restock.priceCents === null || !restock.purchasedOn.startsWith(month)) continue;
+      totals.set(restock.medId, (totals.get(restock.medId) ?? 0) + restock.priceCents);
+    }
+    const medications = Array.from(totals, ([medId, totalCents]) => ({
+      medId,
+      medName: medNames.get(medId) ?? "",
+      totalCents,
+    })).sort((a, b) => b.totalCents - a.totalCents);
+    return { month, totalCents: medications.reduce((sum, med) => sum + med.totalCents, 0), medications };
+  });
+}
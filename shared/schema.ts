@@ -1,15 +1,50 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, bigint, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, timestamp, boolean, date, jsonb, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  CLOCK_TIME_PATTERN,
+  DATE_PATTERN,
+  DEFAULT_EARLY_WINDOW_MINUTES,
+  DEFAULT_MISSED_GRACE_MINUTES,
+  DEFAULT_REPEAT_REMINDER_MINUTES,
+  DEFAULT_SNOOZE_MINUTES,
+  DEFAULT_TIME_ZONE,
+  MAX_ESCALATION_LEVEL,
+  MAX_RECURRENCE_EVERY_N_DAYS,
+  MAX_REPEAT_REMINDERS,
+  RECURRENCE_TYPES,
+  SCHEDULE_TYPES,
+  isEarlyWindowWithinGaps,
+  isValidTimeZone,
+  normalizeScheduleTimes,
+  type DoseEdit,
+  type DosePhase,
+} from "./dose-schedule";
+import { DEFAULT_DOSE_UNIT, DOSE_UNITS } from "./dose-units";
+import {
+  ADMINISTRATION_ROUTES,
+  DOSE_INSTRUCTIONS,
+  MAX_CONDITION_LENGTH,
+  MAX_INSTRUCTIONS_NOTE_LENGTH,
+  MAX_PRESCRIBER_LENGTH,
+  MEDICATION_FORMS,
+  STRENGTH_UNITS,
+} from "./medication-info";
+import { MAX_LOT_NUMBER_LENGTH, type BatchDeduction } from "./stock-batches";
+import { MANUAL_STOCK_MOVEMENT_TYPES, MAX_MOVEMENT_NOTE_LENGTH } from "./stock-movements";
+import { MAX_PHARMACY_LENGTH, MAX_RESTOCK_NOTE_LENGTH } from "./restocks";
+import { DEFAULT_SHOPPING_LIST_DAYS, MAX_SHOPPING_LIST_DAYS } from "./shopping-list";
+import { MAX_REFILL_ALERT_DAYS } from "./stock-forecast";
 
 export const users = pgTable("users", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  email: text("email").notNull().unique(),
-  password: text("password").notNull(),
+  // Managed profiles have no credentials and never log in.
+  email: text("email").unique(),
+  password: text("password"),
   role: text("role").notNull().default("MASTER"),
   planType: text("plan_type").notNull().default("FREE"),
   subscriptionStatus: text("subscription_status").notNull().default("INACTIVE"),
@@ -24,6 +59,10 @@ export const users = pgTable("users", {
   subscriptionCanceledAt: timestamp("subscription_canceled_at"),
   subscriptionLastEventAt: timestamp("subscription_last_event_at"),
   linkedMasterId: text("linked_master_id"),
+  managedBy: text("managed_by"),
+  repeatReminderMinutes: integer("repeat_reminder_minutes").notNull().default(DEFAULT_REPEAT_REMINDER_MINUTES),
+  repeatReminderLimit: integer("repeat_reminder_limit").notNull().default(0),
+  shoppingListDays: integer("shopping_list_days").notNull().default(DEFAULT_SHOPPING_LIST_DAYS),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -33,9 +72,43 @@ export const medications = pgTable("medications", {
     .default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   dosage: text("dosage").notNull(),
-  currentStock: integer("current_stock").notNull().default(0),
+  form: text("form"),
+  strengthValue: real("strength_value"),
+  strengthUnit: text("strength_unit"),
+  administrationRoute: text("administration_route"),
+  instructions: text("instructions").array().notNull().default(sql`'{}'::text[]`),
+  instructionsNote: text("instructions_note"),
+  prescriber: text("prescriber"),
+  condition: text("condition"),
+  currentStock: real("current_stock").notNull().default(0),
   alertThreshold: integer("alert_threshold").notNull().default(5),
   intervalInHours: integer("interval_in_hours").notNull().default(8),
+  doseQuantity: real("dose_quantity").notNull().default(1),
+  doseUnit: text("dose_unit").notNull().default(DEFAULT_DOSE_UNIT),
+  scheduleType: text("schedule_type").notNull().default("INTERVAL"),
+  scheduleTimes: text("schedule_times").array().notNull().default(sql`'{}'::text[]`),
+  timeZone: text("time_zone").notNull().default(DEFAULT_TIME_ZONE),
+  recurrenceType: text("recurrence_type").notNull().default("DAILY"),
+  recurrenceWeekdays: integer("recurrence_weekdays").array().notNull().default(sql`'{}'::integer[]`),
+  recurrenceEveryNDays: integer("recurrence_every_n_days").notNull().default(1),
+  startDate: date("start_date"),
+  endDate: date("end_date"),
+  totalDoses: integer("total_doses"),
+  completedAt: timestamp("completed_at"),
+  archivedAt: timestamp("archived_at"),
+  pausedAt: timestamp("paused_at"),
+  resumeOn: date("resume_on"),
+  resumedAt: timestamp("resumed_at"),
+  dosePhases: jsonb("dose_phases").$type<DosePhase[]>().notNull().default(sql`'[]'::jsonb`),
+  maxDosesPer24h: integer("max_doses_per_24h"),
+  minHoursBetweenDoses: integer("min_hours_between_doses"),
+  repeatReminderMinutes: integer("repeat_reminder_minutes"),
+  repeatReminderLimit: integer("repeat_reminder_limit"),
+  missedGraceMinutes: integer("missed_grace_minutes").notNull().default(DEFAULT_MISSED_GRACE_MINUTES),
+  caregiverAlertDelayMinutes: integer("caregiver_alert_delay_minutes").notNull().default(0),
+  earlyWindowMinutes: integer("early_window_minutes").notNull().default(DEFAULT_EARLY_WINDOW_MINUTES),
+  refillAlertDays: integer("refill_alert_days"),
+  refillAlertSentAt: timestamp("refill_alert_sent_at"),
   ownerId: text("owner_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -48,9 +121,69 @@ export const doseSchedules = pgTable("dose_schedules", {
   timeMillis: bigint("time_millis", { mode: "number" }).notNull(),
   status: text("status").notNull().default("PENDING"),
   confirmedAt: bigint("confirmed_at", { mode: "number" }),
+  dosage: text("dosage"),
+  skipReason: text("skip_reason"),
+  snoozeCount: integer("snooze_count").notNull().default(0),
+  snoozedUntil: bigint("snoozed_until", { mode: "number" }),
+  lastRemindedAt: bigint("last_reminded_at", { mode: "number" }),
+  reminderCount: integer("reminder_count").notNull().default(0),
+  caregiverAlertAt: bigint("caregiver_alert_at", { mode: "number" }),
+  escalationLevel: integer("escalation_level"),
+  acknowledgedAt: bigint("acknowledged_at", { mode: "number" }),
+  acknowledgedBy: text("acknowledged_by"),
+  stockDeducted: real("stock_deducted"),
+  takenRecordedAt: bigint("taken_recorded_at", { mode: "number" }),
+  statusBeforeTaken: text("status_before_taken"),
+  performedBy: text("performed_by"),
+  takenEarly: boolean("taken_early").notNull().default(false),
+  batchDeductions: jsonb("batch_deductions").$type<BatchDeduction[]>().notNull().default(sql`'[]'::jsonb`),
+  edits: jsonb("edits").$type<DoseEdit[]>().notNull().default(sql`'[]'::jsonb`),
   ownerId: text("owner_id").notNull(),
 });
 
+export const stockBatches = pgTable("stock_batches", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  medId: text("med_id").notNull(),
+  quantity: real("quantity").notNull(),
+  expiresOn: date("expires_on").notNull(),
+  lotNumber: text("lot_number"),
+  expiryNotifiedAt: timestamp("expiry_notified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const restocks = pgTable("restocks", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  medId: text("med_id").notNull(),
+  ownerId: text("owner_id").notNull(),
+  quantity: real("quantity").notNull(),
+  purchasedOn: date("purchased_on").notNull(),
+  priceCents: integer("price_cents"),
+  pharmacy: text("pharmacy"),
+  note: text("note"),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  medId: text("med_id").notNull(),
+  ownerId: text("owner_id").notNull(),
+  type: text("type").notNull(),
+  quantity: real("quantity").notNull(),
+  stockAfter: real("stock_after").notNull(),
+  // Null only for the opening balance recorded for stock that predates the ledger.
+  actorId: text("actor_id"),
+  relatedId: text("related_id"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const connections = pgTable("connections", {
   id: varchar("id")
     .primaryKey()
@@ -58,6 +191,7 @@ export const connections = pgTable("connections", {
   masterId: text("master_id").notNull(),
   dependentId: text("dependent_id").notNull(),
   status: text("status").notNull().default("PENDING"),
+  escalationLevel: integer("escalation_level").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -71,6 +205,8 @@ export const notifications = pgTable("notifications", {
   message: text("message").notNull(),
   read: boolean("read").notNull().default(false),
   relatedId: text("related_id"),
+  doseScheduleId: text("dose_schedule_id"),
+  acknowledgedAt: timestamp("acknowledged_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -93,11 +229,18 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
-  name: true,
-  email: true,
-  password: true,
-  role: true,
+export const insertUserSchema = createInsertSchema(users)
+  .pick({
+    name: true,
+    role: true,
+  })
+  .extend({
+    email: z.string(),
+    password: z.string(),
+  });
+
+export const createManagedProfileSchema = z.object({
+  name: z.string().trim().min(1).max(80),
 });
 
 export const loginSchema = z.object({
@@ -105,40 +248,247 @@ export const loginSchema = z.object({
   password: z.string().min(6),
 });
 
+const repeatReminderMinutesSchema = z.number().int().min(5).max(60);
+const repeatReminderLimitSchema = z.number().int().min(0).max(MAX_REPEAT_REMINDERS);
+
 export const updateProfileSchema = z.object({
   name: z.string().min(1).optional(),
   email: z.string().email().optional(),
+  repeatReminderMinutes: repeatReminderMinutesSchema.optional(),
+  repeatReminderLimit: repeatReminderLimitSchema.optional(),
+  shoppingListDays: z.number().int().min(1).max(MAX_SHOPPING_LIST_DAYS).optional(),
 });
 
 export const updateRoleSchema = z.object({
   role: z.enum(["MASTER", "DEPENDENT", "CONTROLLER"]),
 });
 
-export const insertMedicationSchema = createInsertSchema(medications).pick({
-  name: true,
-  dosage: true,
-  currentStock: true,
-  alertThreshold: true,
-  intervalInHours: true,
+const scheduleTimesSchema = z.array(z.string().regex(CLOCK_TIME_PATTERN)).max(12).transform(normalizeScheduleTimes);
+const timeZoneSchema = z.string().refine(isValidTimeZone, "Invalid time zone");
+const recurrenceWeekdaysSchema = z.array(z.number().int().min(0).max(6)).max(7);
+const recurrenceEveryNDaysSchema = z.number().int().min(1).max(MAX_RECURRENCE_EVERY_N_DAYS);
+const startDateSchema = z.string().regex(DATE_PATTERN).nullable();
+const endDateSchema = z.string().regex(DATE_PATTERN).nullable();
+const doseQuantitySchema = z.number().positive().max(1000);
+const totalDosesSchema = z.number().int().min(1).max(1000).nullable();
+const dosePhasesSchema = z
+  .array(
+    z.object({
+      dosage: z.string().trim().min(1),
+      quantity: doseQuantitySchema,
+      durationDays: z.number().int().min(1).max(365),
+    })
+  )
+  .max(20);
+const maxDosesPer24hSchema = z.number().int().min(1).max(24).nullable();
+const minHoursBetweenDosesSchema = z.number().int().min(1).max(72).nullable();
+const missedGraceMinutesSchema = z.number().int().min(5).max(720);
+const caregiverAlertDelayMinutesSchema = z.number().int().min(0).max(720);
+const earlyWindowMinutesSchema = z.number().int().min(0).max(240);
+const refillAlertDaysSchema = z.number().int().min(1).max(MAX_REFILL_ALERT_DAYS).nullable();
+const medicationInfoSchema = {
+  form: z.enum(MEDICATION_FORMS).nullable().optional(),
+  strengthValue: z.number().positive().max(100000).nullable().optional(),
+  strengthUnit: z.enum(STRENGTH_UNITS).nullable().optional(),
+  administrationRoute: z.enum(ADMINISTRATION_ROUTES).nullable().optional(),
+  instructions: z
+    .array(z.enum(DOSE_INSTRUCTIONS))
+    .max(DOSE_INSTRUCTIONS.length)
+    .transform((list) => Array.from(new Set(list)))
+    .optional(),
+  instructionsNote: z.string().trim().max(MAX_INSTRUCTIONS_NOTE_LENGTH).nullable().optional(),
+  prescriber: z.string().trim().max(MAX_PRESCRIBER_LENGTH).nullable().optional(),
+  condition: z.string().trim().max(MAX_CONDITION_LENGTH).nullable().optional(),
+};
+
+function hasScheduleTimesWhenFixed(data: { scheduleType?: string; scheduleTimes?: string[] }): boolean {
+  return data.scheduleType !== "FIXED_TIMES" || (data.scheduleTimes?.length ?? 0) > 0;
+}
+
+function hasWeekdaysWhenWeekly(data: { recurrenceType?: string; recurrenceWeekdays?: number[] }): boolean {
+  return data.recurrenceType !== "DAYS_OF_WEEK" || (data.recurrenceWeekdays?.length ?? 0) > 0;
+}
+
+function endsOnOrAfterStart(data: { startDate?: string | null; endDate?: string | null }): boolean {
+  return !data.startDate || !data.endDate || data.endDate >= data.startDate;
+}
+
+function hasEarlyWindowWithinGaps(data: { scheduleType?: string; scheduleTimes?: string[]; earlyWindowMinutes?: number }): boolean {
+  return (
+    data.scheduleType !== "FIXED_TIMES" ||
+    isEarlyWindowWithinGaps(data.earlyWindowMinutes ?? DEFAULT_EARLY_WINDOW_MINUTES, data.scheduleTimes ?? [])
+  );
+}
+
+function hasUnitWithStrength(data: { strengthValue?: number | null; strengthUnit?: string | null }): boolean {
+  return data.strengthValue == null || data.strengthUnit != null;
+}
+
+export const insertMedicationSchema = createInsertSchema(medications)
+  .pick({
+    name: true,
+    dosage: true,
+    currentStock: true,
+    alertThreshold: true,
+    intervalInHours: true,
+  })
+  .extend({
+    doseQuantity: doseQuantitySchema.optional(),
+    doseUnit: z.enum(DOSE_UNITS).optional(),
+    scheduleType: z.enum(SCHEDULE_TYPES).optional(),
+    scheduleTimes: scheduleTimesSchema.optional(),
+    timeZone: timeZoneSchema.optional(),
+    recurrenceType: z.enum(RECURRENCE_TYPES).optional(),
+    recurrenceWeekdays: recurrenceWeekdaysSchema.optional(),
+    recurrenceEveryNDays: recurrenceEveryNDaysSchema.optional(),
+    startDate: startDateSchema.optional(),
+    endDate: endDateSchema.optional(),
+    totalDoses: totalDosesSchema.optional(),
+    dosePhases: dosePhasesSchema.optional(),
+    maxDosesPer24h: maxDosesPer24hSchema.optional(),
+    minHoursBetweenDoses: minHoursBetweenDosesSchema.optional(),
+    repeatReminderMinutes: repeatReminderMinutesSchema.nullable().optional(),
+    repeatReminderLimit: repeatReminderLimitSchema.nullable().optional(),
+    missedGraceMinutes: missedGraceMinutesSchema.optional(),
+    caregiverAlertDelayMinutes: caregiverAlertDelayMinutesSchema.optional(),
+    earlyWindowMinutes: earlyWindowMinutesSchema.optional(),
+    refillAlertDays: refillAlertDaysSchema.optional(),
+    ...medicationInfoSchema,
+  })
+  .refine(hasScheduleTimesWhenFixed, { message: "Fixed schedules need at least one time", path: ["scheduleTimes"] })
+  .refine(hasWeekdaysWhenWeekly, { message: "Weekly recurrence needs at least one weekday", path: ["recurrenceWeekdays"] })
+  .refine(endsOnOrAfterStart, { message: "End date must not be before the start date", path: ["endDate"] })
+  .refine(hasEarlyWindowWithinGaps, {
+    message: "Early window must be shorter than the gap between dose times",
+    path: ["earlyWindowMinutes"],
+  })
+  .refine(hasUnitWithStrength, { message: "Strength needs a unit", path: ["strengthUnit"] });
+
+export const updateMedicationSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    dosage: z.string().min(1).optional(),
+    currentStock: z.number().min(0).optional(),
+    alertThreshold: z.number().min(0).optional(),
+    intervalInHours: z.number().min(1).optional(),
+    doseQuantity: doseQuantitySchema.optional(),
+    doseUnit: z.enum(DOSE_UNITS).optional(),
+    scheduleType: z.enum(SCHEDULE_TYPES).optional(),
+    scheduleTimes: scheduleTimesSchema.optional(),
+    timeZone: timeZoneSchema.optional(),
+    recurrenceType: z.enum(RECURRENCE_TYPES).optional(),
+    recurrenceWeekdays: recurrenceWeekdaysSchema.optional(),
+    recurrenceEveryNDays: recurrenceEveryNDaysSchema.optional(),
+    startDate: startDateSchema.optional(),
+    endDate: endDateSchema.optional(),
+    totalDoses: totalDosesSchema.optional(),
+    dosePhases: dosePhasesSchema.optional(),
+    maxDosesPer24h: maxDosesPer24hSchema.optional(),
+    minHoursBetweenDoses: minHoursBetweenDosesSchema.optional(),
+    repeatReminderMinutes: repeatReminderMinutesSchema.nullable().optional(),
+    repeatReminderLimit: repeatReminderLimitSchema.nullable().optional(),
+    missedGraceMinutes: missedGraceMinutesSchema.optional(),
+    caregiverAlertDelayMinutes: caregiverAlertDelayMinutesSchema.optional(),
+    earlyWindowMinutes: earlyWindowMinutesSchema.optional(),
+    refillAlertDays: refillAlertDaysSchema.optional(),
+    ...medicationInfoSchema,
+  })
+  .refine(hasScheduleTimesWhenFixed, { message: "Fixed schedules need at least one time", path: ["scheduleTimes"] })
+  .refine(hasWeekdaysWhenWeekly, { message: "Weekly recurrence needs at least one weekday", path: ["recurrenceWeekdays"] })
+  .refine(endsOnOrAfterStart, { message: "End date must not be before the start date", path: ["endDate"] })
+  .refine(hasEarlyWindowWithinGaps, {
+    message: "Early window must be shorter than the gap between dose times",
+    path: ["earlyWindowMinutes"],
+  })
+  .refine(hasUnitWithStrength, { message: "Strength needs a unit", path: ["strengthUnit"] });
+
+export const pauseMedicationSchema = z.object({
+  resumeOn: z.string().regex(DATE_PATTERN).nullable().optional(),
 });
 
-export const updateMedicationSchema = z.object({
-  name: z.string().min(1).optional(),
-  dosage: z.string().min(1).optional(),
-  currentStock: z.number().min(0).optional(),
-  alertThreshold: z.number().min(0).optional(),
-  intervalInHours: z.number().min(1).optional(),
+export const skipDoseSchema = z.object({
+  reason: z.string().trim().min(1).max(120),
+});
+
+export const snoozeDoseSchema = z.object({
+  minutes: z.number().int().min(5).max(60).default(DEFAULT_SNOOZE_MINUTES),
 });
 
+export const takeDoseSchema = z.object({
+  takenAt: z.number().int().positive().optional(),
+  takeEarly: z.boolean().optional(),
+});
+
+export const correctDoseTimeSchema = z.object({
+  takenAt: z.number().int().positive(),
+});
+
+export const insertStockBatchSchema = z.object({
+  quantity: z.number().positive().max(100000),
+  expiresOn: z.string().regex(DATE_PATTERN),
+  lotNumber: z.string().trim().max(MAX_LOT_NUMBER_LENGTH).nullable().optional(),
+});
+
+export const updateStockBatchSchema = z.object({
+  quantity: z.number().min(0).max(100000).optional(),
+  expiresOn: z.string().regex(DATE_PATTERN).optional(),
+  lotNumber: z.string().trim().max(MAX_LOT_NUMBER_LENGTH).nullable().optional(),
+});
+
+const priceCentsSchema = z.number().int().min(0).max(10000000).nullable();
+const pharmacySchema = z.string().trim().max(MAX_PHARMACY_LENGTH).nullable();
+const restockNoteSchema = z.string().trim().max(MAX_RESTOCK_NOTE_LENGTH).nullable();
+
+export const insertRestockSchema = z.object({
+  quantity: z.number().positive().max(100000),
+  purchasedOn: z.string().regex(DATE_PATTERN),
+  priceCents: priceCentsSchema.optional(),
+  pharmacy: pharmacySchema.optional(),
+  note: restockNoteSchema.optional(),
+});
+
+// The quantity is already part of the stock; a wrong one is fixed by deleting the entry.
+export const updateRestockSchema = z.object({
+  purchasedOn: z.string().regex(DATE_PATTERN).optional(),
+  priceCents: priceCentsSchema.optional(),
+  pharmacy: pharmacySchema.optional(),
+  note: restockNoteSchema.optional(),
+});
+
+export const insertStockMovementSchema = z
+  .object({
+    type: z.enum(MANUAL_STOCK_MOVEMENT_TYPES),
+    quantity: z.number().min(-100000).max(100000).refine((quantity) => quantity !== 0, "Quantity must not be zero"),
+    note: z.string().trim().max(MAX_MOVEMENT_NOTE_LENGTH).nullable().optional(),
+  })
+  .refine((data) => data.type === "CORRECTION" || data.quantity < 0, {
+    message: "Discards and losses take stock out",
+    path: ["quantity"],
+  });
+
 export const insertConnectionSchema = z.object({
   targetId: z.string().min(1),
 });
 
+export const updateEscalationLevelSchema = z.object({
+  escalationLevel: z.number().int().min(1).max(MAX_ESCALATION_LEVEL),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Medication = typeof medications.$inferSelect & { lastDoseAt?: number | null };
 export type InsertMedication = z.infer<typeof insertMedicationSchema>;
+export type UpdateMedication = z.infer<typeof updateMedicationSchema>;
 export type DoseSchedule = typeof doseSchedules.$inferSelect;
+export type InsertDoseSchedule = Omit<typeof doseSchedules.$inferInsert, "id">;
+export type StockBatch = typeof stockBatches.$inferSelect;
+export type InsertStockBatch = z.infer<typeof insertStockBatchSchema>;
+export type UpdateStockBatch = z.infer<typeof updateStockBatchSchema>;
+export type Restock = typeof restocks.$inferSelect;
+export type InsertRestock = Omit<typeof restocks.$inferInsert, "id" | "createdAt">;
+export type UpdateRestock = z.infer<typeof updateRestockSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertStockMovement = Omit<typeof stockMovements.$inferInsert, "id" | "createdAt">;
 export type Connection = typeof connections.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
 export type PushToken = typeof pushTokens.$inferSelect;
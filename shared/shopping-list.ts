@@ -0,0 +1,19 @@
+import type { StockStatus } from "./dose-units";
+
+export const DEFAULT_SHOPPING_LIST_DAYS = 7;
+export const MAX_SHOPPING_LIST_DAYS = 60;
+export const SHOPPING_LIST_DAY_OPTIONS = [3, 7, 14, 30] as const;
+
+export type ShoppingListReason = "OUT_OF_STOCK" | "LOW_STOCK" | "RUNS_OUT_SOON";
+
+/** Why a medication belongs on the shopping list, or null when it does not. */
+export function getShoppingListReason(
+  stockStatus: StockStatus,
+  daysOfSupply: number | null,
+  withinDays: number
+): ShoppingListReason | null {
+  if (stockStatus === "EMPTY") return "OUT_OF_STOCK";
+  if (stockStatus === "LOW") return "LOW_STOCK";
+  if (daysOfSupply !== null && daysOfSupply <= withinDays) return "RUNS_OUT_SOON";
+  return null;
+}
@@ -0,0 +1,60 @@
+import { dateStringToDay } from "./dose-schedule";
+import { roundStock } from "./dose-units";
+
+export const EXPIRY_WARNING_DAYS = 30;
+export const MAX_LOT_NUMBER_LENGTH = 40;
+
+export type BatchExpiryStatus = "EXPIRED" | "EXPIRING_SOON" | "OK";
+
+export interface StockBatchRecord {
+  id: string;
+  quantity: number;
+  expiresOn: string;
+}
+
+/** Stock taken from (or given back to) one batch by a dose. */
+export interface BatchDeduction {
+  batchId: string;
+  quantity: number;
+}
+
+/** Days left until the batch expires on local day `today`: 0 on its last usable day, negative once expired. */
+export function getDaysUntilExpiry(batch: { expiresOn: string }, today: number): number {
+  return dateStringToDay(batch.expiresOn) - today;
+}
+
+export function getBatchExpiryStatus(batch: { expiresOn: string }, today: number): BatchExpiryStatus {
+  const daysLeft = getDaysUntilExpiry(batch, today);
+  if (daysLeft < 0) return "EXPIRED";
+  if (daysLeft <= EXPIRY_WARNING_DAYS) return "EXPIRING_SOON";
+  return "OK";
+}
+
+export function getBatchTotal(batches: { quantity: number }[]): number {
+  return roundStock(batches.reduce((total, batch) => total + batch.quantity, 0));
+}
+
+/**
+ * Takes `quantity` out of the batches, earliest expiry first. Expired batches are skipped unless
+ * `includeExpired` is set, and whatever the batches cannot cover comes from stock without a batch.
+ */
+export function planBatchConsumption(
+  batches: StockBatchRecord[],
+  quantity: number,
+  today: number,
+  includeExpired = false
+): BatchDeduction[] {
+  const candidates = batches
+    .filter((batch) => batch.quantity > 0 && (includeExpired || getDaysUntilExpiry(batch, today) >= 0))
+    .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+
+  const deductions: BatchDeduction[] = [];
+  let remaining = roundStock(quantity);
+  for (const batch of candidates) {
+    if (remaining <= 0) break;
+    const taken = roundStock(Math.min(batch.quantity, remaining));
+    deductions.push({ batchId: batch.id, quantity: taken });
+    remaining = roundStock(remaining - taken);
+  }
+  return deductions;
+}
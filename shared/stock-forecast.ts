@@ -0,0 +1,88 @@
+import {
+  DAY_MS,
+  HOUR_MS,
+  dayToDateString,
+  getDosageAt,
+  getFixedSlotsBetween,
+  getLocalDay,
+  getNextDoseTime,
+  getNextReminderTime,
+  isTreatmentFinished,
+  type DoseScheduleRule,
+} from "./dose-schedule";
+import { roundStock } from "./dose-units";
+
+export const REFILL_ALERT_DAY_OPTIONS = [3, 5, 7, 14] as const;
+export const MAX_REFILL_ALERT_DAYS = 60;
+/** How far ahead run-outs are shown; nothing is projected beyond it. */
+export const MAX_FORECAST_DAYS = 60;
+
+export interface StockForecast {
+  /** Whole days until the run-out date; 0 when the stock cannot cover today's next dose. */
+  daysOfSupply: number;
+  /** Local date ("YYYY-MM-DD") of the first dose the stock cannot cover. */
+  runsOutOn: string;
+}
+
+export interface StockForecastInput {
+  currentStock: number;
+  lastDoseAt: number | null;
+  takenDoses: number;
+}
+
+// Fixed times are listed slot by slot, so a wide early window never hides a dose from the count.
+function getUpcomingDoseTimes(rule: DoseScheduleRule, first: number, until: number): number[] {
+  if (rule.scheduleType === "FIXED_TIMES") {
+    return [first, ...getFixedSlotsBetween(rule, first, until)];
+  }
+  const doseTimes: number[] = [];
+  for (let doseTime: number | null = first; doseTime !== null && doseTime <= until; doseTime = getNextReminderTime(rule, doseTime)) {
+    doseTimes.push(doseTime);
+  }
+  return doseTimes;
+}
+
+// Upper bound on the doses between two instants, so stock that clearly outlasts the horizon skips the walk.
+function getMaxDosesBetween(rule: DoseScheduleRule, first: number, until: number): number {
+  if (rule.scheduleType === "FIXED_TIMES") {
+    return rule.scheduleTimes.length * (Math.ceil((until - first) / DAY_MS) + 1);
+  }
+  return Math.floor((until - first) / (rule.intervalInHours * HOUR_MS)) + 1;
+}
+
+/**
+ * Walks the upcoming scheduled doses until one is no longer covered by the stock. `null` when
+ * there is nothing to project: as-needed use, or the course ends first, or the stock lasts
+ * more than `horizonDays`.
+ */
+export function getStockForecast(
+  rule: DoseScheduleRule & { dosage: string; doseQuantity: number },
+  input: StockForecastInput,
+  now: number,
+  horizonDays: number = MAX_FORECAST_DAYS
+): StockForecast | null {
+  if (rule.scheduleType === "AS_NEEDED") return null;
+
+  const today = getLocalDay(now, rule.timeZone);
+  const until = now + (horizonDays + 1) * DAY_MS;
+  const first = getNextDoseTime(rule, input.lastDoseAt, now) ?? now;
+  const maxQuantity = Math.max(rule.doseQuantity, ...rule.dosePhases.map((phase) => phase.quantity));
+  if (input.currentStock >= getMaxDosesBetween(rule, first, until) * maxQuantity) return null;
+
+  let remaining = input.currentStock;
+  let takenDoses = input.takenDoses;
+
+  for (const doseTime of getUpcomingDoseTimes(rule, first, until)) {
+    if (isTreatmentFinished(rule, takenDoses, doseTime)) return null;
+    const { quantity } = getDosageAt(rule, doseTime);
+    if (remaining < quantity) {
+      const runsOutDay = Math.max(getLocalDay(doseTime, rule.timeZone), today);
+      return runsOutDay - today > horizonDays
+        ? null
+        : { daysOfSupply: runsOutDay - today, runsOutOn: dayToDateString(runsOutDay) };
+    }
+    remaining = roundStock(remaining - quantity);
+    takenDoses++;
+  }
+  return null;
+}
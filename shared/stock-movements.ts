@@ -0,0 +1,66 @@
+import { roundStock } from "./dose-units";
+
+export const STOCK_MOVEMENT_TYPES = [
+  "OPENING_BALANCE",
+  "DOSE",
+  "RESTOCK",
+  "CORRECTION",
+  "EXPIRED_DISCARD",
+  "LOST",
+] as const;
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[number];
+
+/** Movements a user can record by hand, as opposed to the ones doses and purchases record. */
+export const MANUAL_STOCK_MOVEMENT_TYPES = ["CORRECTION", "EXPIRED_DISCARD", "LOST"] as const;
+export const MAX_MOVEMENT_NOTE_LENGTH = 200;
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  OPENING_BALANCE: "Saldo inicial",
+  DOSE: "Dose",
+  RESTOCK: "Reposição",
+  CORRECTION: "Correção manual",
+  EXPIRED_DISCARD: "Descarte por validade",
+  LOST: "Perda",
+};
+
+export interface StockMovementRecord {
+  id: string;
+  /** Signed change: negative when stock left. */
+  quantity: number;
+  stockAfter: number;
+}
+
+/** A movement whose starting point does not match where the previous one left the stock. */
+export interface StockLedgerGap {
+  movementId: string;
+  expectedBefore: number;
+  recordedBefore: number;
+}
+
+export interface StockReconciliation {
+  ledgerStock: number;
+  currentStock: number;
+  /** `currentStock - ledgerStock`; anything but 0 is stock that changed without a movement. */
+  difference: number;
+  gaps: StockLedgerGap[];
+  isBalanced: boolean;
+}
+
+/** Replays `movements` (oldest first) and compares the result with the stored stock. */
+export function reconcileStockLedger(movements: StockMovementRecord[], currentStock: number): StockReconciliation {
+  const gaps: StockLedgerGap[] = [];
+  let ledgerStock = 0;
+  let previousAfter: number | null = null;
+
+  for (const movement of movements) {
+    const recordedBefore = roundStock(movement.stockAfter - movement.quantity);
+    if (previousAfter !== null && recordedBefore !== previousAfter) {
+      gaps.push({ movementId: movement.id, expectedBefore: previousAfter, recordedBefore });
+    }
+    ledgerStock = roundStock(ledgerStock + movement.quantity);
+    previousAfter = movement.stockAfter;
+  }
+
+  const difference = roundStock(currentStock - ledgerStock);
+  return { ledgerStock, currentStock, difference, gaps, isBalanced: difference === 0 && gaps.length === 0 };
+}